@@ -0,0 +1,34 @@
+/**
+ * Stand-ins for the parts of the Obsidian API used by the services under test.
+ * The obsidian package only ships type definitions, its implementation lives in the app.
+ */
+import * as moment from 'moment';
+
+export { moment };
+
+export function normalizePath(path: string): string {
+	return path.replace(/\\/g, '/').replace(/\/+/g, '/').replace(/^\/|\/$/g, '') || '/';
+}
+
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+	return Buffer.from(buffer).toString('base64');
+}
+
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+	const bytes = Buffer.from(base64, 'base64');
+	return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
+
+export const requestUrl = jest.fn();
+
+export class Notice {
+	constructor(public message: string) {}
+}
+
+export class TAbstractFile {
+	path = '';
+}
+
+export class TFile extends TAbstractFile {}
+
+export class TFolder extends TAbstractFile {}
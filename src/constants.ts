@@ -1,5 +1,6 @@
-// Regex pattern for extracting video ID from YouTube URL
-export const VIDEO_ID_REGEX = /(?:v=|\/)([a-zA-Z0-9_-]{11})/;
+// Regex pattern for finding URLs in note text, stopping at Markdown link delimiters.
+// YouTube links may omit the scheme, e.g. `youtu.be/...`, their host is checked by YouTubeUrlParser
+export const URL_REGEX = /https?:\/\/[^\s<>()[\]"'`]+|[a-z0-9.-]*(?:youtube(?:-nocookie)?\.com|youtu\.be)\/[^\s<>()[\]"'`]+/i;
 
 // Regex pattern for extracting ytInitialData from script tag
 export const YT_INITIAL_DATA_REGEX = /var ytInitialData\s*=\s*({[\s\S]+?});/;
@@ -13,3 +14,33 @@ export const YT_INITIAL_DATA_ALT_REGEX_3 = /"ytInitialData"\s*:\s*({[\s\S]+?})/;
 export const VISITOR_DATA_REGEX_1 = /"visitorData"\s*:\s*"([^"]+)"/;
 export const VISITOR_DATA_REGEX_2 = /visitorData['"]\s*:\s*['"]([^"']+)['"]/;
 
+
+// Languages offered for generated summaries
+export const SUMMARY_LANGUAGES = [
+	'English',
+	'German',
+	'Spanish',
+	'French',
+	'Italian',
+	'Portuguese',
+	'Dutch',
+	'Polish',
+	'Russian',
+	'Ukrainian',
+	'Turkish',
+	'Arabic',
+	'Hindi',
+	'Japanese',
+	'Korean',
+	'Chinese (Simplified)',
+	'Chinese (Traditional)',
+];
+
+// Notice appended to summaries cut off by the maximum number of output tokens
+export const TRUNCATION_NOTICE = '\n\n[Summary truncated due to max token limit. Please increase "Max Tokens" in settings.]';
+
+// Smallest thinking budget accepted by Claude models, which must also be below the max output tokens
+export const ANTHROPIC_MIN_THINKING_BUDGET = 1024;
+
+// HTTP status codes of errors worth retrying: timeout, conflict, rate limit, server errors and overload
+export const RETRYABLE_STATUS_CODES = [408, 409, 429, 500, 502, 503, 504, 529];
@@ -1,48 +1,54 @@
-import { StoredProvider } from './types';
+import { BudgetAction, CaptionKind, PromptPreset, StoredProvider, TranscriptFormat } from './types';
 
 // List of supported Gemini models
 const DEFAULT_GEMINI_MODELS = [
+	// Preview models have no pricing, it may still change: see Google's pricing page
 	{
 		name: 'gemini-3.1-pro-preview',
 		displayName: 'Gemini 3.1 Pro Preview',
-		pricing: 'Check Google pricing page; preview pricing may change'
+		contextWindow: 1048576
 	},
 	{
 		name: 'gemini-3-flash-preview',
 		displayName: 'Gemini 3 Flash Preview',
-		pricing: 'Check Google pricing page; preview pricing may change'
+		contextWindow: 1048576
 	},
 	{
 		name: 'gemini-3.1-flash-lite-preview',
 		displayName: 'Gemini 3.1 Flash-Lite Preview',
-		pricing: 'Check Google pricing page; preview pricing may change'
+		contextWindow: 1048576
 	},
 	{
 		name: 'gemini-2.5-pro',
 		displayName: 'Gemini 2.5 Pro',
-		pricing: 'Input $1.25 / Output $10.00 per 1M tokens <=200k; Input $2.50 / Output $15.00 >200k'
+		contextWindow: 1048576,
+		pricing: { input: 1.25, output: 10, longContext: { threshold: 200000, input: 2.5, output: 15 } }
 	},
 	{
 		name: 'gemini-2.5-flash',
 		displayName: 'Gemini 2.5 Flash',
-		pricing: 'Input $0.30 / Output $2.50 per 1M tokens'
+		contextWindow: 1048576,
+		pricing: { input: 0.3, output: 2.5 }
 	},
 	{
 		name: 'gemini-2.5-flash-lite',
 		displayName: 'Gemini 2.5 Flash-Lite',
-		pricing: 'Input $0.10 / Output $0.40 per 1M tokens'
+		contextWindow: 1048576,
+		pricing: { input: 0.1, output: 0.4 }
 	},
 
 	// Legacy / deprecated
 	{
 		name: 'gemini-2.0-flash',
 		displayName: 'Gemini 2.0 Flash Deprecated',
-		pricing: 'Input $0.10 / Output $0.40 per 1M tokens; deprecated'
+		contextWindow: 1048576,
+		pricing: { input: 0.1, output: 0.4, note: 'deprecated' }
 	},
 	{
 		name: 'gemini-2.0-flash-lite',
 		displayName: 'Gemini 2.0 Flash-Lite Deprecated',
-		pricing: 'Input $0.075 / Output $0.30 per 1M tokens; deprecated'
+		contextWindow: 1048576,
+		pricing: { input: 0.075, output: 0.3, note: 'deprecated' }
 	}
 ];
 
@@ -50,87 +56,104 @@ const DEFAULT_OPENAI_MODELS = [
 	{
 		name: 'gpt-5.5',
 		displayName: 'GPT-5.5',
-		pricing: 'Input $5.00 / Cached input $0.50 / Output $30.00 per 1M tokens; long context $10.00/$1.00/$45.00'
+		contextWindow: 1050000,
+		pricing: { input: 5, cachedInput: 0.5, output: 30, longContext: { threshold: 272000, input: 10, cachedInput: 1, output: 45 } }
 	},
 	{
 		name: 'gpt-5.5-pro',
 		displayName: 'GPT-5.5 Pro',
-		pricing: 'Input $30.00 / Output $180.00 per 1M tokens; long context $60.00/$270.00'
+		contextWindow: 1050000,
+		pricing: { input: 30, output: 180, longContext: { threshold: 272000, input: 60, output: 270 } }
 	},
 	{
 		name: 'gpt-5.4',
 		displayName: 'GPT-5.4',
-		pricing: 'Input $2.50 / Cached input $0.25 / Output $15.00 per 1M tokens; long context $5.00/$0.50/$22.50'
+		contextWindow: 1050000,
+		pricing: { input: 2.5, cachedInput: 0.25, output: 15, longContext: { threshold: 272000, input: 5, cachedInput: 0.5, output: 22.5 } }
 	},
 	{
 		name: 'gpt-5.4-mini',
 		displayName: 'GPT-5.4 Mini',
-		pricing: 'Input $0.75 / Cached input $0.075 / Output $4.50 per 1M tokens'
+		contextWindow: 400000,
+		pricing: { input: 0.75, cachedInput: 0.075, output: 4.5 }
 	},
 	{
 		name: 'gpt-5.4-nano',
 		displayName: 'GPT-5.4 Nano',
-		pricing: 'Input $0.20 / Cached input $0.02 / Output $1.25 per 1M tokens'
+		contextWindow: 400000,
+		pricing: { input: 0.2, cachedInput: 0.02, output: 1.25 }
 	},
 	{
 		name: 'gpt-5.4-pro',
 		displayName: 'GPT-5.4 Pro',
-		pricing: 'Input $30.00 / Output $180.00 per 1M tokens; long context $60.00/$270.00'
+		contextWindow: 1050000,
+		pricing: { input: 30, output: 180, longContext: { threshold: 272000, input: 60, output: 270 } }
 	},
 	{
 		name: 'gpt-5.3-chat-latest',
 		displayName: 'GPT-5.3 Chat Latest',
-		pricing: 'Input $1.75 / Cached input $0.175 / Output $14.00 per 1M tokens'
+		contextWindow: 128000,
+		pricing: { input: 1.75, cachedInput: 0.175, output: 14 }
 	},
 	{
 		name: 'gpt-5.3-codex',
 		displayName: 'GPT-5.3 Codex',
-		pricing: 'Input $1.75 / Cached input $0.175 / Output $14.00 per 1M tokens'
+		contextWindow: 400000,
+		pricing: { input: 1.75, cachedInput: 0.175, output: 14 }
 	},
 	{
 		name: 'gpt-4.1',
 		displayName: 'GPT-4.1',
-		pricing: 'Input $2.00 / Output $8.00 per 1M tokens'
+		contextWindow: 1047576,
+		pricing: { input: 2, output: 8 }
 	},
 	{
 		name: 'gpt-4.1-mini',
 		displayName: 'GPT-4.1 Mini',
-		pricing: 'Input $0.40 / Output $1.60 per 1M tokens'
+		contextWindow: 1047576,
+		pricing: { input: 0.4, output: 1.6 }
 	},
 	{
 		name: 'gpt-4.1-nano',
 		displayName: 'GPT-4.1 Nano',
-		pricing: 'Input $0.10 / Output $0.40 per 1M tokens'
+		contextWindow: 1047576,
+		pricing: { input: 0.1, output: 0.4 }
 	},
 	{
 		name: 'gpt-4o',
 		displayName: 'GPT-4o',
-		pricing: 'Input $2.50 / Output $10.00 per 1M tokens'
+		contextWindow: 128000,
+		pricing: { input: 2.5, output: 10 }
 	},
 	{
 		name: 'gpt-4o-mini',
 		displayName: 'GPT-4o Mini',
-		pricing: 'Input $0.15 / Output $0.60 per 1M tokens'
+		contextWindow: 128000,
+		pricing: { input: 0.15, output: 0.6 }
 	},
 	{
 		name: 'o1',
 		displayName: 'o1',
-		pricing: 'Input $15.00 / Output $60.00 per 1M tokens'
+		contextWindow: 200000,
+		pricing: { input: 15, output: 60 }
 	},
 	{
 		name: 'o1-mini',
 		displayName: 'o1-mini',
-		pricing: 'Input $1.10 / Output $4.40 per 1M tokens'
+		contextWindow: 128000,
+		pricing: { input: 1.1, output: 4.4 }
 	},
 	{
 		name: 'o3-mini',
 		displayName: 'o3-mini',
-		pricing: 'Input $1.10 / Output $4.40 per 1M tokens'
+		contextWindow: 200000,
+		pricing: { input: 1.1, output: 4.4 }
 	},
 	{
 		name: 'o4-mini',
 		displayName: 'o4-mini',
-		pricing: 'Input $1.10 / Output $4.40 per 1M tokens'
+		contextWindow: 200000,
+		pricing: { input: 1.1, output: 4.4 }
 	}
 ];
 
@@ -139,54 +162,68 @@ const DEFAULT_ANTHROPIC_MODELS = [
 	{
 		name: 'claude-opus-4-7',
 		displayName: 'Claude Opus 4.7',
-		pricing: 'Input $5.00 / Output $25.00 per 1M tokens'
+		contextWindow: 200000,
+		pricing: { input: 5, output: 25 }
 	},
 	{
 		name: 'claude-sonnet-4-6',
 		displayName: 'Claude Sonnet 4.6',
-		pricing: 'Input $3.00 / Output $15.00 per 1M tokens'
+		contextWindow: 200000,
+		pricing: { input: 3, output: 15 }
 	},
 	{
 		name: 'claude-haiku-4-5-20251001',
 		displayName: 'Claude Haiku 4.5',
-		pricing: 'Input $1.00 / Output $5.00 per 1M tokens'
+		contextWindow: 200000,
+		pricing: { input: 1, output: 5 }
 	},
 
 	// Legacy / still available
 	{
 		name: 'claude-opus-4-6',
 		displayName: 'Claude Opus 4.6 Legacy',
-		pricing: 'Input $5.00 / Output $25.00 per 1M tokens'
+		contextWindow: 200000,
+		pricing: { input: 5, output: 25 }
 	},
 	{
 		name: 'claude-sonnet-4-5-20250929',
 		displayName: 'Claude Sonnet 4.5 Legacy',
-		pricing: 'Input $3.00 / Output $15.00 per 1M tokens'
+		contextWindow: 200000,
+		pricing: { input: 3, output: 15 }
 	},
 	{
 		name: 'claude-opus-4-5-20251101',
 		displayName: 'Claude Opus 4.5 Legacy',
-		pricing: 'Input $5.00 / Output $25.00 per 1M tokens'
+		contextWindow: 200000,
+		pricing: { input: 5, output: 25 }
 	},
 	{
 		name: 'claude-opus-4-1-20250805',
 		displayName: 'Claude Opus 4.1 Legacy',
-		pricing: 'Input $15.00 / Output $75.00 per 1M tokens'
+		contextWindow: 200000,
+		pricing: { input: 15, output: 75 }
 	},
 	{
 		name: 'claude-sonnet-4-20250514',
 		displayName: 'Claude Sonnet 4 Deprecated',
-		pricing: 'Input $3.00 / Output $15.00 per 1M tokens; deprecated, retires June 15, 2026'
+		contextWindow: 200000,
+		pricing: { input: 3, output: 15, note: 'deprecated, retires June 15, 2026' }
 	},
 	{
 		name: 'claude-opus-4-20250514',
 		displayName: 'Claude Opus 4 Deprecated',
-		pricing: 'Input $15.00 / Output $75.00 per 1M tokens; deprecated, retires June 15, 2026'
+		contextWindow: 200000,
+		pricing: { input: 15, output: 75, note: 'deprecated, retires June 15, 2026' }
 	}
 ];
 
 export const DEFAULT_SELECTED_MODEL = 'Gemini:gemini-2.5-flash';
 
+// Address of a local Ollama server, used when an Ollama provider has no URL
+export const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+// Context window set on imported Ollama models, sent as `num_ctx` (Ollama's own default is smaller)
+export const DEFAULT_OLLAMA_CONTEXT_WINDOW = 8192;
+
 export const DEFAULT_PROVIDERS: StoredProvider[] = [
 	{
 		name: 'Gemini',
@@ -246,5 +283,109 @@ Create a concise yet comprehensive summary of the video based on the provided su
 
 Note: Include all sections. If there are no technical terms, omit that section entirely.`;
 
+// Name under which the summary prompt above is listed next to the prompt presets
+export const DEFAULT_PROMPT_NAME = 'Default';
+
+// Prompt presets available out of the box, users can edit or delete them
+export const DEFAULT_PROMPT_PRESETS: PromptPreset[] = [
+	{
+		name: 'Lecture notes',
+		prompt: `You are a teaching assistant turning the subtitles of a lecture into study notes. The subtitles are automatically generated and may contain transcription errors; correct them based on context.
+
+Create structured lecture notes with:
+- ## Overview: the topic and learning goals of the lecture
+- ## Notes: the content of the lecture, organized with headings that follow the structure of the lecture, including definitions, formulas, examples and explanations
+- ## Key concepts: each important concept as **[[Concept]]**: explanation
+- ## Review questions: 3 to 5 questions to check understanding`
+	},
+	{
+		name: 'Podcast highlights',
+		prompt: `You are summarizing the subtitles of a podcast episode. The subtitles are automatically generated and may contain transcription errors; correct them based on context.
+
+Create:
+- ## Episode summary: who is talking and what the episode is about, in one paragraph
+- ## Highlights: the most interesting ideas, stories and insights, as bullet points
+- ## Notable quotes: up to 5 memorable quotes, attributed to the speaker when possible
+- ## Mentioned resources: books, people, products and links mentioned in the episode`
+	},
+	{
+		name: 'Recipe',
+		prompt: `You are turning the subtitles of a cooking video into a recipe. The subtitles are automatically generated and may contain transcription errors; correct them based on context.
+
+Create:
+- ## Description: the dish in one or two sentences, with servings and total time if mentioned
+- ## Ingredients: a bullet list with quantities, using the units mentioned in the video
+- ## Equipment: tools and appliances needed
+- ## Steps: numbered instructions, including temperatures and timings
+- ## Tips: tips and variations given in the video`
+	},
+	{
+		name: 'Code tutorial',
+		prompt: `You are a senior developer summarizing the subtitles of a programming tutorial. The subtitles are automatically generated and frequently misrecognize technical terms, library names and code; correct them based on context.
+
+Create:
+- ## Summary: what is built or explained and the technologies used
+- ## Prerequisites: what the viewer needs to know or install
+- ## Steps: the steps of the tutorial, with short code snippets in fenced code blocks where the video describes code
+- ## Technical terms: each term as **[[Term]]**: explanation
+- ## Pitfalls: common mistakes and best practices mentioned`
+	}
+];
+
 export const DEFAULT_MAX_TOKENS = 10000;
 export const DEFAULT_TEMPERATURE = 1;
+
+// Models tried in order when the selected model fails, as "Provider:Model" ids
+export const DEFAULT_FALLBACK_MODEL_IDS: string[] = [];
+// Retries of rate limits, overloaded servers and network failures before falling back
+export const DEFAULT_MAX_RETRIES = 2;
+
+// Summaries estimated to cost more than this (in US dollars) are confirmed before the transcript is sent
+export const DEFAULT_CONFIRM_COST = true;
+export const DEFAULT_COST_CONFIRMATION_THRESHOLD = 0.25;
+// Monthly spending limit in US dollars (0 for no limit), and whether summaries are then warned about or blocked
+export const DEFAULT_MONTHLY_BUDGET = 0;
+export const DEFAULT_BUDGET_ACTION: BudgetAction = 'warn';
+
+// Context window (in tokens) assumed for models that don't define one
+export const DEFAULT_CONTEXT_WINDOW = 128000;
+
+// Default location and filename pattern for summaries created as new notes
+export const DEFAULT_NOTE_FOLDER = '';
+export const DEFAULT_NOTE_FILENAME_PATTERN = '{{date}} {{title}}';
+export const DEFAULT_ADD_FRONTMATTER = true;
+
+// Default output note template, placeholders are replaced by TemplateService
+export const DEFAULT_NOTE_TEMPLATE = `# {{title}}
+
+![Thumbnail]({{thumbnail}})
+
+👤 [{{author}}]({{channelUrl}})  🔗 [Watch video]({{url}})
+{{summary}}`;
+export const DEFAULT_NOTE_TEMPLATE_PATH = '';
+
+// Timestamped chapter links are opt-in as they make the prompt longer
+export const DEFAULT_TIMESTAMP_LINKS = false;
+
+// Transcript insertion options
+export const DEFAULT_APPEND_TRANSCRIPT = false;
+export const DEFAULT_TRANSCRIPT_FORMAT: TranscriptFormat = 'paragraphs';
+
+// Caption track selection
+export const DEFAULT_CAPTION_LANGUAGES = ['en'];
+export const DEFAULT_CAPTION_KIND: CaptionKind = 'manual';
+export const DEFAULT_TRANSLATE_CAPTIONS = false;
+
+// Language of generated summaries, empty to use the language of the video
+export const DEFAULT_SUMMARY_LANGUAGE = '';
+export const DEFAULT_STREAM_OUTPUT = true;
+export const DEFAULT_CONCURRENT_JOBS = 2;
+
+// Transcripts are cached in the plugin folder, oldest entries are evicted beyond the size limit
+export const DEFAULT_CACHE_TRANSCRIPTS = true;
+export const DEFAULT_TRANSCRIPT_CACHE_TTL_DAYS = 30;
+export const DEFAULT_TRANSCRIPT_CACHE_MAX_SIZE_MB = 50;
+
+// Summaries are reused when the prompt, model and generation parameters are unchanged
+export const DEFAULT_CACHE_SUMMARIES = true;
+export const SUMMARY_CACHE_MAX_SIZE_MB = 20;
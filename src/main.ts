@@ -1,15 +1,48 @@
-import { Editor, MarkdownView, Notice, Plugin } from 'obsidian';
-import { PluginSettings, TranscriptResponse } from './types';
+import { Editor, MarkdownView, Notice, Plugin, TFile, getFrontMatterInfo, moment } from 'obsidian';
+import { BatchOutput, GenerationParameters, ModelConfig, Playlist, PlaylistVideo, PluginSettings, PromptPreset, SummaryOptions, TokenUsage, TranscriptResponse, VideoLink } from './types';
 
 import { SettingsTab } from './ui/settings';
 import { YouTubeService } from './services/youtube';
 import { YouTubeURLModal } from './ui/modals/youtube-url';
 import { CustomPromptModal } from './ui/modals/CustomPromptModal';
+import { PromptPresetSuggestModal } from './ui/modals/PromptPresetSuggestModal';
+import { SubtitleFileSuggestModal } from './ui/modals/SubtitleFileSuggestModal';
+import { JobsModal } from './ui/modals/JobsModal';
+import { PassphraseModal } from './ui/modals/PassphraseModal';
+import { UsageModal } from './ui/modals/UsageModal';
+import { CostConfirmModal } from './ui/modals/CostConfirmModal';
+import { BatchSummaryModal } from './ui/modals/BatchSummaryModal';
+import { PlaylistSummaryModal } from './ui/modals/PlaylistSummaryModal';
+import { JobStatusBar } from './ui/components/JobStatusBar';
 import { PromptService } from './services/prompt';
+import { NoteService } from './services/note';
+import { TemplateService } from './services/template';
+import { SummarizerService, SummaryEstimate, SummaryTextCallback } from './services/summarizer';
+import { TranscriptService } from './services/transcript';
+import { TranscriptCache } from './services/transcriptCache';
+import { ResponseCache } from './services/responseCache';
+import { CachedProvider } from './services/providers/cachedProvider';
+import { FallbackModel, FallbackProvider } from './services/providers/fallbackProvider';
+import { EditorStream } from './services/editorStream';
+import { JobContext, JobQueue, JobTask } from './services/jobQueue';
+import { DEFAULT_CONTEXT_WINDOW, DEFAULT_PROMPT_NAME, SUMMARY_CACHE_MAX_SIZE_MB } from './defaults';
 import { SettingsManager } from './services/settingsManager';
+import { PricingService } from './services/pricing';
+import { UsageLedger } from './services/usageLedger';
+import { SubtitleParser } from './services/subtitles';
+import { KeyStore } from './services/keyStore';
 import { ProvidersFactory } from './services/providers/providersFactory';
 import { AIModelProvider } from './types';
 
+/** Summary of a transcript, rendered with the note template */
+interface GeneratedContent {
+	transcript: TranscriptResponse;
+	summary: string;
+	content: string;
+	/** Frontmatter properties, null when disabled in the settings */
+	properties: Record<string, unknown> | null;
+}
+
 /**
  * Represents the YouTube Summarizer Plugin.
  * This class extends the Plugin class and provides the main functionality
@@ -19,8 +52,17 @@ export class YouTubeSummarizerPlugin extends Plugin {
 	settings: PluginSettings;
 	private youtubeService: YouTubeService;
 	private promptService: PromptService;
+	private noteService: NoteService;
+	private templateService: TemplateService;
+	private transcriptCache: TranscriptCache;
+	private responseCache: ResponseCache;
+	private usageLedger: UsageLedger;
 	private provider: AIModelProvider | null = null;
-	private isProcessing = false;
+	private jobQueue = new JobQueue();
+	// Kept across settings reloads, as it holds the passphrase key of the session
+	keyStore = new KeyStore(this.app);
+	// Latest API key entered for each provider, kept across settings reloads as saving the previous keystroke reloads them
+	pendingApiKeys = new Map<string, string>();
 
 	/**
 	 * Called when the plugin is loaded.
@@ -35,11 +77,22 @@ export class YouTubeSummarizerPlugin extends Plugin {
 
 			// Register commands
 			this.registerCommands();
+
+			// Show the progress of summary jobs in the status bar
+			const statusBar = new JobStatusBar(this.addStatusBarItem(), this.jobQueue, () => this.showJobs());
+			this.register(this.jobQueue.onChange(() => statusBar.render()));
 		} catch (error) {
 			new Notice(`Error: ${error.message}`);
 		}
 	}
 
+	/**
+	 * Called when the plugin is unloaded.
+	 */
+	onunload() {
+		this.jobQueue.cancelAll();
+	}
+
 	public async saveData(data: any): Promise<void> {
 		await super.saveData(data);
 		await this.initializeServices();
@@ -55,11 +108,55 @@ export class YouTubeSummarizerPlugin extends Plugin {
 		// Initialize settings manager
 		this.settings = new SettingsManager(this);
 		await this.settings.loadSettings();
+		// Initialize transcript cache in the plugin folder
+		const pluginDir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		this.transcriptCache = new TranscriptCache(
+			this.app.vault.adapter,
+			`${pluginDir}/cache/transcripts`,
+			this.settings.getTranscriptCacheTtlDays(),
+			this.settings.getTranscriptCacheMaxSizeMb()
+		);
+		// Summaries don't expire, a new model or prompt produces a new entry
+		this.responseCache = new ResponseCache(
+			this.app.vault.adapter,
+			`${pluginDir}/cache/responses`,
+			0,
+			SUMMARY_CACHE_MAX_SIZE_MB
+		);
+		// Kept across settings reloads, as it chains the writes of concurrent jobs
+		if (!this.usageLedger) {
+			this.usageLedger = new UsageLedger(this.app.vault.adapter, `${pluginDir}/usage.jsonl`);
+		}
+
 		// Initialize youtube service
-		this.youtubeService = new YouTubeService();
+		this.youtubeService = new YouTubeService(
+			{
+				languages: this.settings.getCaptionLanguages(),
+				preferredKind: this.settings.getCaptionKind(),
+				translate: this.settings.getTranslateCaptions(),
+			},
+			this.settings.getCacheTranscripts() ? this.transcriptCache : null
+		);
 
 		// Initialize prompt service
-		this.promptService = new PromptService(this.settings.getCustomPrompt());
+		this.promptService = new PromptService(this.settings.getCustomPrompt(), this.settings.getSummaryLanguage());
+
+		// Initialize note service
+		this.noteService = new NoteService(
+			this.app,
+			this.settings.getNoteFolder(),
+			this.settings.getNoteFilenamePattern()
+		);
+
+		// Initialize template service
+		this.templateService = new TemplateService(
+			this.app,
+			this.settings.getNoteTemplate(),
+			this.settings.getNoteTemplatePath()
+		);
+
+		// Apply the concurrency limit of the job queue
+		this.jobQueue.setConcurrency(this.settings.getConcurrentJobs());
 
 		// Initialize AI provider
 		const selectedModel = this.settings.getSelectedModel();
@@ -68,6 +165,29 @@ export class YouTubeSummarizerPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * Gets the cache of fetched transcripts, e.g. to clear it from the settings.
+	 * @returns The transcript cache.
+	 */
+	public getTranscriptCache(): TranscriptCache {
+		return this.transcriptCache;
+	}
+
+	/**
+	 * Gets the cache of generated summaries, e.g. to clear it from the settings.
+	 * @returns The response cache.
+	 */
+	public getResponseCache(): ResponseCache {
+		return this.responseCache;
+	}
+
+	/**
+	 * Opens the usage of the providers and the spending of the month, e.g. from the settings.
+	 */
+	public showUsage(): void {
+		new UsageModal(this.app, this.usageLedger, this.settings.getMonthlyBudget()).open();
+	}
+
 	/**
 	 * Registers the plugin commands.
 	 * This method adds the commands to the Obsidian app.
@@ -79,6 +199,20 @@ export class YouTubeSummarizerPlugin extends Plugin {
 		this.addCommand({
 			id: 'summarize-youtube-video',
 			name: 'Summarize youtube video',
+			editorCallback: (editor: Editor, view: MarkdownView) => this.summarizeSelection(view),
+		});
+
+		// Command to summarize a YouTube video, generating a new summary instead of using the cached one
+		this.addCommand({
+			id: 'summarize-youtube-video-regenerate',
+			name: 'Summarize youtube video (force regenerate)',
+			editorCallback: (editor: Editor, view: MarkdownView) => this.summarizeSelection(view, { regenerate: true }),
+		});
+
+		// Command to summarize a YouTube video with custom prompt
+		this.addCommand({
+			id: 'summarize-youtube-video-prompt',
+			name: 'Summarize youtube video (with prompt)',
 			editorCallback: async (editor: Editor, view: MarkdownView) => {
 				try {
 					const selectedText = editor.getSelection().trim();
@@ -86,12 +220,16 @@ export class YouTubeSummarizerPlugin extends Plugin {
 						selectedText &&
 						YouTubeService.isYouTubeUrl(selectedText)
 					) {
-						await this.summarizeVideo(selectedText, editor);
+						new CustomPromptModal(this.app, this.settings.getSummaryLanguage(), async (options) => {
+							await this.summarizeVideo(selectedText, view, options);
+						}).open();
 					} else if (selectedText) {
 						new Notice('Selected text is not a valid YouTube URL');
 					} else {
 						new YouTubeURLModal(this.app, async (url) => {
-							await this.summarizeVideo(url, editor);
+							new CustomPromptModal(this.app, this.settings.getSummaryLanguage(), async (options) => {
+								await this.summarizeVideo(url, view, options);
+							}).open();
 						}).open();
 					}
 				} catch (error) {
@@ -101,10 +239,17 @@ export class YouTubeSummarizerPlugin extends Plugin {
 			},
 		});
 
-		// Command to summarize a YouTube video with custom prompt
+		// Command to summarize a YouTube video, fetching the transcript again instead of using the cached one
 		this.addCommand({
-			id: 'summarize-youtube-video-prompt',
-			name: 'Summarize youtube video (with prompt)',
+			id: 'summarize-youtube-video-refetch',
+			name: 'Summarize youtube video (refetch transcript)',
+			editorCallback: (editor: Editor, view: MarkdownView) => this.summarizeSelection(view, { refreshTranscript: true }),
+		});
+
+		// Command to summarize a YouTube video with a prompt from the library
+		this.addCommand({
+			id: 'summarize-youtube-video-with-preset',
+			name: 'Summarize youtube video (choose prompt)',
 			editorCallback: async (editor: Editor, view: MarkdownView) => {
 				try {
 					const selectedText = editor.getSelection().trim();
@@ -112,16 +257,122 @@ export class YouTubeSummarizerPlugin extends Plugin {
 						selectedText &&
 						YouTubeService.isYouTubeUrl(selectedText)
 					) {
-						new CustomPromptModal(this.app, async (customPrompt) => {
-							await this.summarizeVideo(selectedText, editor, customPrompt);
+						this.choosePromptPreset(async (preset) => {
+							await this.summarizeVideo(selectedText, view, { promptPreset: preset.name });
+						});
+					} else if (selectedText) {
+						new Notice('Selected text is not a valid YouTube URL');
+					} else {
+						new YouTubeURLModal(this.app, async (url) => {
+							this.choosePromptPreset(async (preset) => {
+								await this.summarizeVideo(url, view, { promptPreset: preset.name });
+							});
 						}).open();
+					}
+				} catch (error) {
+					new Notice(`Failed to process video: ${error.message}`);
+					console.error('Failed to process video:', error);
+				}
+			},
+		});
+
+		// Command to summarize the YouTube videos linked in the current note
+		this.addCommand({
+			id: 'summarize-youtube-links-in-note',
+			name: 'Summarize youtube links in current note',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				if (!view.file) {
+					new Notice('Please open a note first');
+					return;
+				}
+				this.summarizeLinks(view, view.file);
+			},
+		});
+
+		// Command to summarize the videos of a YouTube playlist into notes with an index note
+		this.addCommand({
+			id: 'summarize-youtube-playlist',
+			name: 'Summarize youtube playlist',
+			callback: () => {
+				new YouTubeURLModal(this.app, (url) => this.summarizePlaylist(url)).open();
+			},
+		});
+
+		// Command to summarize a subtitle file of the vault into a new note
+		this.addCommand({
+			id: 'summarize-subtitle-file',
+			name: 'Summarize subtitle file',
+			callback: () => {
+				new SubtitleFileSuggestModal(this.app, (file) => this.summarizeFile(file)).open();
+			},
+		});
+
+		// Command to summarize the transcript pasted into the current note, or the selected part of it, into a new note
+		this.addCommand({
+			id: 'summarize-transcript-in-note',
+			name: 'Summarize transcript in current note',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				if (!view.file) {
+					new Notice('Please open a note first');
+					return;
+				}
+				this.summarizeFile(view.file, editor.getSelection().trim() || editor.getValue());
+			},
+		});
+
+		// Command to show the queued, running and finished jobs
+		this.addCommand({
+			id: 'show-summary-jobs',
+			name: 'Show summary jobs',
+			callback: () => this.showJobs(),
+		});
+
+		// Command to show the tokens and the spending of past summaries
+		this.addCommand({
+			id: 'show-usage',
+			name: 'Show usage and spending',
+			callback: () => this.showUsage(),
+		});
+
+		// Command to cancel all queued and running jobs
+		this.addCommand({
+			id: 'cancel-summary-jobs',
+			name: 'Cancel all summary jobs',
+			callback: () => {
+				const count = this.jobQueue.getActiveJobs().length;
+				this.jobQueue.cancelAll();
+				new Notice(count > 0 ? `Cancelled ${count} job(s)` : 'No jobs to cancel');
+			},
+		});
+
+		// Command to enter the passphrase of encrypted API keys
+		this.addCommand({
+			id: 'unlock-api-keys',
+			name: 'Unlock API keys',
+			checkCallback: (checking: boolean) => {
+				if (!this.settings.isLocked()) return false;
+				if (!checking) this.unlockApiKeys();
+				return true;
+			},
+		});
+
+		// Command to insert the transcript of a YouTube video
+		this.addCommand({
+			id: 'insert-youtube-transcript',
+			name: 'Insert youtube transcript',
+			editorCallback: async (editor: Editor, view: MarkdownView) => {
+				try {
+					const selectedText = editor.getSelection().trim();
+					if (
+						selectedText &&
+						YouTubeService.isYouTubeUrl(selectedText)
+					) {
+						this.insertTranscript(selectedText, view);
 					} else if (selectedText) {
 						new Notice('Selected text is not a valid YouTube URL');
 					} else {
 						new YouTubeURLModal(this.app, async (url) => {
-							new CustomPromptModal(this.app, async (customPrompt) => {
-								await this.summarizeVideo(url, editor, customPrompt);
-							}).open();
+							this.insertTranscript(url, view);
 						}).open();
 					}
 				} catch (error) {
@@ -130,125 +381,1135 @@ export class YouTubeSummarizerPlugin extends Plugin {
 				}
 			},
 		});
+
+		// Command to summarize a YouTube video into a new note
+		this.addCommand({
+			id: 'summarize-youtube-video-to-new-note',
+			name: 'Summarize youtube video to new note',
+			callback: () => this.summarizeToNewNote(),
+		});
+
+		// Command to summarize a YouTube video into a new note, generating a new summary instead of using the cached one
+		this.addCommand({
+			id: 'summarize-youtube-video-to-new-note-regenerate',
+			name: 'Summarize youtube video to new note (force regenerate)',
+			callback: () => this.summarizeToNewNote({ regenerate: true }),
+		});
 	}
 
 	/**
-	 * Summarizes the YouTube video for the given URL and updates the markdown view with the summary.
-	 * @param url - The URL of the YouTube video to summarize.
-	 * @param view - The active markdown view where the summary will be inserted.
-	 * @returns {Promise<void>} A promise that resolves when the video is summarized.
+	 * Summarizes the YouTube video of the selected URL into the editor, asking for the URL when nothing is selected.
+	 * @param view - The view of the note where the summary will be inserted.
+	 * @param options - Options of this run, such as bypassing the caches.
+	 * @returns {Promise<void>} A promise that resolves when the video is queued or the URL modal is opened.
 	 */
-	private async summarizeVideo(url: string, editor: Editor, customPrompt?: string): Promise<void> {
-		// Check if a video is already being processed
-		if (this.isProcessing) {
-			new Notice('Already processing a video, please wait...');
-			return;
+	private async summarizeSelection(view: MarkdownView, options: SummaryOptions = {}): Promise<void> {
+		try {
+			const selectedText = view.editor.getSelection().trim();
+			if (
+				selectedText &&
+				YouTubeService.isYouTubeUrl(selectedText)
+			) {
+				await this.summarizeVideo(selectedText, view, options);
+			} else if (selectedText) {
+				new Notice('Selected text is not a valid YouTube URL');
+			} else {
+				new YouTubeURLModal(this.app, async (url) => {
+					await this.summarizeVideo(url, view, options);
+				}).open();
+			}
+		} catch (error) {
+			new Notice(`Failed to process video: ${error.message}`);
+			console.error('Failed to process video:', error);
 		}
+	}
 
+	/**
+	 * Summarizes the YouTube video of the selected URL into a new note, asking for the URL when nothing is selected.
+	 * @param options - Options of this run, such as bypassing the caches.
+	 * @returns {Promise<void>} A promise that resolves when the video is queued or the URL modal is opened.
+	 */
+	private async summarizeToNewNote(options: SummaryOptions = {}): Promise<void> {
 		try {
-			this.isProcessing = true;
-			// Get the selected model
-			const selectedModel = this.settings.getSelectedModel();
+			const editor = this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+			const selectedText = editor?.getSelection().trim();
+			if (
+				selectedText &&
+				YouTubeService.isYouTubeUrl(selectedText)
+			) {
+				await this.summarizeVideo(selectedText, null, options);
+			} else {
+				new YouTubeURLModal(this.app, async (url) => {
+					await this.summarizeVideo(url, null, options);
+				}).open();
+			}
+		} catch (error) {
+			new Notice(`Failed to process video: ${error.message}`);
+			console.error('Failed to process video:', error);
+		}
+	}
 
-			if (!selectedModel) {
-				new Notice('No AI model selected. Please select a model in the plugin settings.');
-				return;
+	/**
+	 * Queues the summary of the YouTube video for the given URL. The summary is inserted into the note
+	 * at the current selection, or written to a new note when no view is given.
+	 * @param url - The URL of the YouTube video to summarize.
+	 * @param view - The view of the note where the summary will be inserted, or null to create a new note.
+	 * @param options - Options of this run, such as custom instructions or the summary language.
+	 * @returns {Promise<void>} A promise that resolves when the video is queued.
+	 */
+	private async summarizeVideo(url: string, view: MarkdownView | null, options: SummaryOptions = {}): Promise<void> {
+		const selectedModel = this.getSummaryModel();
+		if (!selectedModel) return;
+
+		// Capture the insertion point now, as the job may start later
+		const stream = view ? new EditorStream(view) : null;
+		this.enqueueJob(url, async (context) => {
+			try {
+				await this.runSummary(context, url, stream, selectedModel, options);
+			} catch (error) {
+				if (stream) await this.revertStream(stream);
+				throw error;
 			}
+			new Notice('Summary generated successfully!');
+		});
+	}
 
-			// Check if the selected model's provider has an API key
-			if (!selectedModel.provider.apiKey) {
-				new Notice(
-					`${selectedModel.provider.name} API key is missing. Please set it in the plugin settings.`
-				);
-				return;
+	/**
+	 * Gets the model used for summaries, showing a notice when it can't be used.
+	 * @returns The selected model, or null when no usable model is selected.
+	 */
+	private getSummaryModel(): ModelConfig | null {
+		// Get the selected model
+		const selectedModel = this.settings.getSelectedModel();
+
+		if (!selectedModel) {
+			new Notice('No AI model selected. Please select a model in the plugin settings.');
+			return null;
+		}
+
+		// Encrypted API keys need the passphrase once per session
+		if (this.settings.getApiKeyStorage(selectedModel.provider.name) === 'locked') {
+			new Notice('API keys are encrypted. Enter the passphrase, then summarize again.');
+			this.unlockApiKeys();
+			return null;
+		}
+
+		// Check if the selected model's provider has an API key, local Ollama servers don't need one
+		if (!selectedModel.provider.apiKey && selectedModel.provider.type !== 'ollama') {
+			new Notice(
+				`${selectedModel.provider.name} API key is missing. Please set it in the plugin settings.`
+			);
+			return null;
+		}
+
+		if (!this.provider) {
+			new Notice('AI provider not initialized. Please check your settings.');
+			return null;
+		}
+		return selectedModel;
+	}
+
+	/**
+	 * Asks for the passphrase of the encrypted API keys, unlocking them until Obsidian is closed.
+	 */
+	private unlockApiKeys(): void {
+		new PassphraseModal(this.app, 'unlock', async (passphrase) => {
+			const unlocked = await this.settings.unlockApiKeys(passphrase);
+			if (unlocked) {
+				new Notice('API keys unlocked');
 			}
+			return unlocked;
+		}).open();
+	}
+
+	/**
+	 * Summarizes a YouTube video as a background job.
+	 * @param context - The job context, used to report progress and to cancel requests.
+	 * @param url - The URL of the YouTube video to summarize.
+	 * @param stream - Insertion point in the editor, or null to create a new note. A new note is also created
+	 *                 when the note of the stream was closed or replaced by another file in its tab meanwhile.
+	 * @param selectedModel - The model used to generate the summary.
+	 * @param options - Options of this run, such as custom instructions or the summary language.
+	 * @returns {Promise<void>} A promise that resolves when the summary is written.
+	 */
+	private async runSummary(
+		context: JobContext,
+		url: string,
+		stream: EditorStream | null,
+		selectedModel: ModelConfig,
+		options: SummaryOptions
+	): Promise<void> {
+		const { transcript, content, properties } = await this.generateContent(
+			context,
+			url,
+			selectedModel,
+			options,
+			stream && this.settings.getStreamOutput() ? (delta) => stream.write(delta) : undefined
+		);
 
-			if (!this.provider) {
-				new Notice('AI provider not initialized. Please check your settings.');
-				return;
+		if (stream && !stream.isAttached()) {
+			await this.revertStream(stream);
+			new Notice('The note was closed, the summary is written to a new note');
+		}
+
+		if (stream && stream.isAttached()) {
+			// Insert the summary into the markdown view, replacing the streamed text
+			stream.replace(content);
+			if (properties) {
+				const editor = stream.getEditor();
+				const edit = NoteService.buildFrontmatterEdit(editor.getValue(), properties);
+				editor.replaceRange(edit.text, editor.offsetToPos(edit.from), editor.offsetToPos(edit.to));
 			}
+		} else {
+			// Create a new note and open it
+			const frontmatter = properties ? NoteService.buildFrontmatterEdit('', properties).text : '';
+			const file = await this.noteService.createNote(transcript, frontmatter + content);
+			await this.app.workspace.getLeaf(false).openFile(file);
+		}
+	}
 
-			// Fetch the video transcript
-			new Notice('Fetching video transcript...');
-			let transcript: TranscriptResponse;
+	/**
+	 * Restores the original selection in place of the streamed text, in the editor or, once the note
+	 * is no longer open, in the note file.
+	 * @param stream - The stream to revert.
+	 */
+	private async revertStream(stream: EditorStream): Promise<void> {
+		const file = stream.getFile();
+		if (stream.isAttached() || !file) {
+			stream.revert();
+			return;
+		}
+		try {
+			await this.app.vault.process(file, (content) => stream.revertContent(content));
+		} catch (error) {
+			console.error('Failed to remove the streamed summary:', error);
+		}
+	}
+
+	/**
+	 * Fetches the transcript of a video and generates the summary content.
+	 * @param context - The job context, used to report progress and to cancel requests.
+	 * @param url - The URL of the YouTube video to summarize.
+	 * @param selectedModel - The model used to generate the summary.
+	 * @param options - Options of this run, such as custom instructions or the summary language.
+	 * @param onText - Optional callback receiving the summary as it is generated.
+	 * @param prefetched - The transcript when it was already fetched, e.g. to estimate the cost of a batch.
+	 * @returns The transcript, the summary, the rendered content and the frontmatter properties (null when disabled).
+	 * @throws Error if the job was cancelled.
+	 */
+	private async generateContent(
+		context: JobContext,
+		url: string,
+		selectedModel: ModelConfig,
+		options: SummaryOptions,
+		onText?: SummaryTextCallback,
+		prefetched?: TranscriptResponse
+	): Promise<GeneratedContent> {
+		// Fetch the video transcript
+		let transcript = prefetched;
+		if (!transcript) {
+			context.setStatus('fetching', 'Fetching video transcript...');
+			transcript = await this.youtubeService.fetchTranscript(
+				url,
+				undefined,
+				context.signal,
+				options.refreshTranscript
+			);
+			new Notice(`Using ${transcript.captionTrack} captions`);
+		}
+		context.setLabel(transcript.title);
+
+		return this.generateTranscriptContent(context, transcript, selectedModel, options, onText);
+	}
+
+	/**
+	 * Generates the summary content of a transcript, fetched from YouTube or read from the vault.
+	 * Transcripts without a video identifier have no thumbnail and no timestamp links.
+	 * @param context - The job context, used to report progress and to cancel requests.
+	 * @param transcript - The transcript to summarize.
+	 * @param selectedModel - The model used to generate the summary.
+	 * @param options - Options of this run, such as custom instructions or the summary language.
+	 * @param onText - Optional callback receiving the summary as it is generated.
+	 * @returns The transcript, the summary, the rendered content and the frontmatter properties (null when disabled).
+	 * @throws Error if the job was cancelled.
+	 */
+	private async generateTranscriptContent(
+		context: JobContext,
+		transcript: TranscriptResponse,
+		selectedModel: ModelConfig,
+		options: SummaryOptions,
+		onText?: SummaryTextCallback
+	): Promise<GeneratedContent> {
+		if (!this.provider) {
+			throw new Error('AI provider not initialized. Please check your settings.');
+		}
+		await this.checkBudget();
+		const thumbnailUrl = transcript.videoId ? YouTubeService.getThumbnailUrl(transcript.videoId) : '';
+
+		// Generate the summary using the provider, splitting long transcripts into parts
+		context.setStatus('generating', 'Generating summary...');
+		const timestampLinks = this.settings.getTimestampLinks() && SubtitleParser.hasTimings(transcript.lines);
+		const provider = this.getSummaryProvider(context, this.provider, selectedModel, options.regenerate);
+		const summarizer = this.createSummarizer(provider, transcript, selectedModel, options, timestampLinks);
+		if (!options.costConfirmed && this.needsCostConfirmation(selectedModel)) {
+			await this.confirmCost(context, transcript.title, [await summarizer.estimate(transcript.lines)], selectedModel);
+		}
+		let summary = await summarizer.summarize(
+			transcript.videoId,
+			transcript.lines,
+			(message) => context.setStatus('generating', message),
+			onText,
+			context.signal
+		);
+		if (timestampLinks && transcript.videoId) {
+			summary = YouTubeService.linkTimestamps(summary, transcript.videoId);
+		}
+
+		// Create the summary content
+		context.setStatus('writing', 'Writing summary...');
+		const template = await this.templateService.loadTemplate();
+		const content = this.generateSummary(
+			template,
+			transcript,
+			thumbnailUrl,
+			transcript.url,
+			summary
+		);
+		const usage = summarizer.getUsage();
+		const properties = this.settings.getAddFrontmatter()
+			? this.buildProperties(
+				transcript,
+				provider.getLastModelId() ?? `${selectedModel.provider.name}:${selectedModel.name}`,
+				options,
+				usage,
+				this.getUsageCost(usage, selectedModel)
+			)
+			: null;
+		context.signal.throwIfAborted();
+
+		return { transcript, summary, content, properties };
+	}
+
+	/**
+	 * Creates the summarizer of a transcript.
+	 * @param provider - The provider generating the summary.
+	 * @param transcript - The transcript to summarize.
+	 * @param selectedModel - The model used to generate the summary.
+	 * @param options - Options of this run, such as custom instructions or the summary language.
+	 * @param timestampLinks - Whether the transcript is sent with timestamps, to link them in the summary.
+	 * @returns The summarizer, recording the usage of its requests.
+	 */
+	private createSummarizer(
+		provider: AIModelProvider,
+		transcript: TranscriptResponse,
+		selectedModel: ModelConfig,
+		options: SummaryOptions,
+		timestampLinks: boolean
+	): SummarizerService {
+		return new SummarizerService(
+			provider,
+			this.getPromptService(options, timestampLinks ? transcript : undefined),
+			selectedModel.contextWindow ?? DEFAULT_CONTEXT_WINDOW,
+			this.getGenerationParameters(selectedModel).maxTokens,
+			timestampLinks,
+			(usage) => this.recordUsage(usage, transcript.videoId || transcript.title, selectedModel)
+		);
+	}
+
+	/**
+	 * Tells whether summaries with a model are confirmed when expensive. Models without pricing,
+	 * such as local Ollama models, are never confirmed.
+	 * @param selectedModel - The selected model.
+	 */
+	private needsCostConfirmation(selectedModel: ModelConfig): boolean {
+		return selectedModel.pricing !== undefined && this.settings.getConfirmCost();
+	}
+
+	/**
+	 * Asks to confirm summaries whose estimated cost is above the threshold of the settings, before sending the transcripts.
+	 * Responses cached by the summary cache cost nothing, so a summary that is cached entirely is never confirmed.
+	 * @param context - The job context, waiting for the confirmation.
+	 * @param title - Title of the video, or of the batch of videos.
+	 * @param estimates - The estimated tokens of the requests of each video.
+	 * @param selectedModel - The selected model, whose pricing is used.
+	 * @throws Error if the summary is cancelled.
+	 */
+	private async confirmCost(
+		context: JobContext,
+		title: string,
+		estimates: SummaryEstimate[],
+		selectedModel: ModelConfig
+	): Promise<void> {
+		const { pricing } = selectedModel;
+		if (!pricing) return;
+
+		const requests = estimates.flatMap((estimate) => estimate.requests);
+		const cost = PricingService.getCost(pricing, requests);
+		if (cost <= this.settings.getCostConfirmationThreshold()) return;
+
+		context.setStatus('generating', 'Waiting for confirmation...');
+		const confirmed = await new Promise<boolean>((resolve) => {
+			const modal = new CostConfirmModal(this.app, {
+				title,
+				videos: estimates.length,
+				modelId: `${selectedModel.provider.name}:${selectedModel.name}`,
+				requests: requests.length,
+				inputTokens: requests.reduce((total, request) => total + request.inputTokens, 0),
+				outputTokens: requests.reduce((total, request) => total + request.outputTokens, 0),
+				cost: PricingService.formatCost(cost),
+				maxCost: PricingService.formatCost(
+					PricingService.getCost(pricing, estimates.flatMap((estimate) => estimate.worstCase))
+				)
+			}, resolve);
+			// A job cancelled from the jobs list closes its confirmation
+			context.signal.addEventListener('abort', () => modal.close(), { once: true });
+			modal.open();
+		});
+		if (!confirmed) {
+			throw new Error('Summary cancelled');
+		}
+		context.setStatus('generating', 'Generating summary...');
+	}
+
+	/**
+	 * Queues the jobs of a batch of videos. When expensive summaries are confirmed, a job first fetches the
+	 * transcripts and asks to confirm the cost of the whole batch once, instead of once per video.
+	 * @param title - Title of the batch, e.g. the playlist or the note with the links.
+	 * @param urls - The URLs of the videos.
+	 * @param selectedModel - The model used to generate the summaries.
+	 * @param queue - Queues the jobs, given the transcripts fetched for the estimate by URL.
+	 */
+	private async queueBatch(
+		title: string,
+		urls: string[],
+		selectedModel: ModelConfig,
+		queue: (transcripts: Map<string, TranscriptResponse>) => Promise<void> | void
+	): Promise<void> {
+		if (!this.needsCostConfirmation(selectedModel)) {
+			await queue(new Map());
+			return;
+		}
+
+		this.enqueueJob(`Estimating cost of ${title}`, async (context) => {
+			const transcripts = await this.confirmBatchCost(context, title, urls, selectedModel);
+			await queue(transcripts);
+		});
+	}
+
+	/**
+	 * Fetches the transcripts of a batch of videos and asks to confirm the estimated cost of all their summaries.
+	 * Videos whose transcript can't be fetched are left to their job, which reports the error.
+	 * @param context - The job context, used to report progress and to cancel requests.
+	 * @param title - Title of the batch.
+	 * @param urls - The URLs of the videos.
+	 * @param selectedModel - The model used to generate the summaries.
+	 * @returns The fetched transcripts by URL.
+	 * @throws Error if the summaries are cancelled.
+	 */
+	private async confirmBatchCost(
+		context: JobContext,
+		title: string,
+		urls: string[],
+		selectedModel: ModelConfig
+	): Promise<Map<string, TranscriptResponse>> {
+		if (!this.provider) {
+			throw new Error('AI provider not initialized. Please check your settings.');
+		}
+
+		const provider = this.getSummaryProvider(context, this.provider, selectedModel);
+		const transcripts = new Map<string, TranscriptResponse>();
+		const estimates: SummaryEstimate[] = [];
+		for (const [i, url] of urls.entries()) {
+			context.setStatus('fetching', `Fetching transcript ${i + 1} of ${urls.length}...`);
 			try {
-				transcript = await this.youtubeService.fetchTranscript(url);
+				const transcript = await this.youtubeService.fetchTranscript(url, undefined, context.signal);
+				const timestampLinks = this.settings.getTimestampLinks() && SubtitleParser.hasTimings(transcript.lines);
+				const summarizer = this.createSummarizer(provider, transcript, selectedModel, {}, timestampLinks);
+				estimates.push(await summarizer.estimate(transcript.lines));
+				transcripts.set(url, transcript);
 			} catch (error) {
-				new Notice(`Error: ${error.message}`);
-				return;
+				context.signal.throwIfAborted();
+				console.error(`Failed to estimate the cost of ${url}:`, error);
+			}
+		}
+
+		await this.confirmCost(context, title, estimates, selectedModel);
+		return transcripts;
+	}
+
+	/**
+	 * Checks the spending of the current month against the monthly budget of the settings.
+	 * @throws Error if the budget is spent and summaries are blocked.
+	 */
+	private async checkBudget(): Promise<void> {
+		const budget = this.settings.getMonthlyBudget();
+		if (budget <= 0) return;
+
+		const spent = await this.usageLedger.getMonthCost();
+		if (spent < budget) return;
+
+		const message = `Monthly budget of ${PricingService.formatCost(budget)} reached (${PricingService.formatCost(spent)} spent this month)`;
+		if (this.settings.getBudgetAction() === 'block') {
+			throw new Error(`${message}. Raise the budget in settings to summarize more videos.`);
+		}
+		new Notice(message);
+	}
+
+	/**
+	 * Records a request in the usage ledger.
+	 * @param usage - The tokens used by the request.
+	 * @param videoId - The summarized video, the playlist of an overview, or the title of a transcript read from the vault.
+	 * @param selectedModel - The selected model, answering the requests that didn't fall back.
+	 */
+	private recordUsage(usage: TokenUsage, videoId: string, selectedModel: ModelConfig): void {
+		this.usageLedger.record({
+			date: new Date().toISOString(),
+			modelId: usage.modelId ?? `${selectedModel.provider.name}:${selectedModel.name}`,
+			inputTokens: usage.inputTokens,
+			outputTokens: usage.outputTokens,
+			cost: this.getRequestCost(usage, selectedModel),
+			videoId,
+		});
+	}
+
+	/**
+	 * Computes the cost of the requests of a summary with the pricing of the models that answered them.
+	 * @param usage - The tokens used by each request.
+	 * @param selectedModel - The selected model, the fallback models are looked up in the settings.
+	 * @returns The cost in US dollars, or null when a model has no pricing.
+	 */
+	private getUsageCost(usage: TokenUsage[], selectedModel: ModelConfig): number | null {
+		let cost = 0;
+		for (const request of usage) {
+			const requestCost = this.getRequestCost(request, selectedModel);
+			if (requestCost === null) return null;
+			cost += requestCost;
+		}
+		return cost;
+	}
+
+	/**
+	 * Computes the cost of a request with the pricing of the model that answered it.
+	 * @returns The cost in US dollars, or null when the model has no pricing.
+	 */
+	private getRequestCost(usage: TokenUsage, selectedModel: ModelConfig): number | null {
+		const model = usage.modelId
+			? [selectedModel, ...this.settings.getFallbackModels()]
+				.find((candidate) => `${candidate.provider.name}:${candidate.name}` === usage.modelId)
+			: selectedModel;
+		return model?.pricing ? PricingService.getCost(model.pricing, [usage]) : null;
+	}
+
+	/**
+	 * Builds the provider generating summaries: the selected model, then the fallback models in order
+	 * when it keeps failing or its response is truncated.
+	 * @param context - The job context, told when falling back to the next model.
+	 * @param provider - The provider of the selected model.
+	 * @param selectedModel - The selected model.
+	 * @param regenerate - Whether to generate new responses, replacing the cached ones.
+	 * @returns The provider used for the requests.
+	 */
+	private getSummaryProvider(
+		context: JobContext,
+		provider: AIModelProvider,
+		selectedModel: ModelConfig,
+		regenerate = false
+	): FallbackProvider {
+		const selectedId = `${selectedModel.provider.name}:${selectedModel.name}`;
+		const models: FallbackModel[] = [
+			{ id: selectedId, provider: this.getCachedProvider(provider, selectedModel, regenerate) }
+		];
+		this.settings.getFallbackModels().forEach((model) => {
+			const id = `${model.provider.name}:${model.name}`;
+			// Models without an API key would fail anyway, local Ollama servers don't need one
+			if (models.some((added) => added.id === id)) return;
+			if (!model.provider.apiKey && model.provider.type !== 'ollama') return;
+
+			const fallback = ProvidersFactory.createProvider(model, this.settings.getMaxTokens(), this.settings.getTemperature());
+			models.push({ id, provider: this.getCachedProvider(fallback, model, regenerate) });
+		});
+
+		return new FallbackProvider(models, this.settings.getMaxRetries(), (failedId, nextId, error) => {
+			new Notice(`${failedId} failed (${error.message}), falling back to ${nextId}`);
+			context.setStatus('generating', `Generating summary with ${nextId}...`);
+		});
+	}
+
+	/**
+	 * Wraps the provider to reuse the responses to identical requests, when summaries are cached.
+	 * @param provider - The provider of the selected model.
+	 * @param selectedModel - The selected model, part of the cache key with the generation parameters.
+	 * @param regenerate - Whether to generate new responses, replacing the cached ones.
+	 * @returns The provider used for the requests.
+	 */
+	private getCachedProvider(provider: AIModelProvider, selectedModel: ModelConfig, regenerate = false): AIModelProvider {
+		if (!this.settings.getCacheSummaries()) return provider;
+
+		return new CachedProvider(
+			provider,
+			this.responseCache,
+			`${selectedModel.provider.name}:${selectedModel.name}`,
+			this.getGenerationParameters(selectedModel),
+			regenerate
+		);
+	}
+
+	/**
+	 * Gets the generation parameters of a model, its own parameters overriding the global settings.
+	 * @param model - The model.
+	 * @returns The resolved parameters.
+	 */
+	private getGenerationParameters(model: ModelConfig): GenerationParameters {
+		return ProvidersFactory.resolveParameters(model, this.settings.getMaxTokens(), this.settings.getTemperature());
+	}
+
+	/**
+	 * Lets the user choose which of the YouTube videos linked in a note to summarize, and queues them.
+	 * @param view - The view of the note.
+	 * @param sourceFile - The note, linked from the new notes.
+	 */
+	private summarizeLinks(view: MarkdownView, sourceFile: TFile): void {
+		const links = YouTubeService.findVideoLinks(view.editor.getValue());
+		if (links.length === 0) {
+			new Notice('No YouTube links found in this note');
+			return;
+		}
+
+		new BatchSummaryModal(
+			this.app,
+			links,
+			(url) => this.youtubeService.fetchVideoTitle(url),
+			async (chosen, output) => {
+				const selectedModel = this.getSummaryModel();
+				if (!selectedModel) return;
+
+				let remaining = chosen.length;
+				const onFinished = () => {
+					remaining--;
+					if (remaining === 0) {
+						new Notice(`Finished summarizing ${chosen.length} video(s). Run "Show summary jobs" for details.`);
+					}
+				};
+
+				// Capture each link now, the note may be edited before its job starts
+				const streams = chosen.map((link) => new EditorStream(view, link));
+				await this.queueBatch(sourceFile.basename, chosen.map((link) => link.url), selectedModel, (transcripts) => {
+					chosen.forEach((link, i) => {
+						this.enqueueJob(link.title || link.url, async (context) => {
+							try {
+								await this.runLinkSummary(
+									context, link, streams[i], sourceFile, output, selectedModel, transcripts.get(link.url)
+								);
+							} finally {
+								onFinished();
+							}
+						});
+					});
+				});
 			}
-			const thumbnailUrl = YouTubeService.getThumbnailUrl(
-				transcript.videoId
+		).open();
+	}
+
+	/**
+	 * Summarizes a video linked in a note as a background job.
+	 * The link is replaced with the summary, or followed by a link to a new note with the summary.
+	 * When the note was closed meanwhile, the summary is written to a new note linking back to it.
+	 * @param context - The job context, used to report progress and to cancel requests.
+	 * @param link - The link to the video.
+	 * @param stream - The range of the link in the editor.
+	 * @param sourceFile - The note containing the link.
+	 * @param output - Whether to replace the link or to create a new note.
+	 * @param selectedModel - The model used to generate the summary.
+	 * @param prefetched - The transcript when it was fetched to confirm the cost of the batch.
+	 */
+	private async runLinkSummary(
+		context: JobContext,
+		link: VideoLink,
+		stream: EditorStream,
+		sourceFile: TFile,
+		output: BatchOutput,
+		selectedModel: ModelConfig,
+		prefetched?: TranscriptResponse
+	): Promise<void> {
+		// Summaries are not streamed, several jobs may write into the same note
+		const { transcript, content, properties } = await this.generateContent(
+			context,
+			link.url,
+			selectedModel,
+			{ costConfirmed: prefetched !== undefined },
+			undefined,
+			prefetched
+		);
+
+		if (output === 'replace' && stream.isAttached()) {
+			// The frontmatter of the note describes a single video, so it is left unchanged
+			stream.replace(content);
+			return;
+		}
+
+		// Also when the note was closed meanwhile, so the summary isn't lost
+		const file = await this.noteService.createNote(transcript, this.addSource(content, properties, sourceFile));
+
+		if (stream.isAttached()) {
+			const summaryLink = this.app.fileManager.generateMarkdownLink(file, sourceFile.path, undefined, 'Summary');
+			stream.replace(`${stream.getSelection()} (${summaryLink})`);
+		}
+	}
+
+	/**
+	 * Adds a link to the file a summary was made from, as a frontmatter property or at the top of the content.
+	 * @param content - The rendered summary.
+	 * @param properties - The frontmatter properties, null when disabled.
+	 * @param sourceFile - The file to link to.
+	 * @returns The content of the summary note.
+	 */
+	private addSource(content: string, properties: Record<string, unknown> | null, sourceFile: TFile): string {
+		const backlink = this.app.fileManager.generateMarkdownLink(sourceFile, '');
+		if (properties) {
+			properties.source = backlink;
+			return NoteService.buildFrontmatterEdit('', properties).text + content;
+		}
+		return `Source: ${backlink}\n\n${content}`;
+	}
+
+	/**
+	 * Queues the summary of a transcript read from the vault into a new note linking back to the file.
+	 * @param file - The subtitle file, or the note containing the transcript.
+	 * @param text - The transcript, read from the file when not given.
+	 */
+	private summarizeFile(file: TFile, text?: string): void {
+		const selectedModel = this.getSummaryModel();
+		if (!selectedModel) return;
+
+		this.enqueueJob(file.basename, async (context) => {
+			context.setStatus('fetching', 'Reading transcript...');
+			const transcript = this.buildFileTranscript(file, text ?? await this.app.vault.read(file));
+			const { content, properties } = await this.generateTranscriptContent(context, transcript, selectedModel, {});
+
+			const note = await this.noteService.createNote(transcript, this.addSource(content, properties, file));
+			await this.app.workspace.getLeaf(false).openFile(note);
+			new Notice('Summary generated successfully!');
+		});
+	}
+
+	/**
+	 * Builds a transcript from a subtitle file, or from the text of a note holding subtitles or plain text.
+	 * The transcript has no video identifier, so it is summarized without thumbnail and video links.
+	 * @param file - The subtitle file or the note.
+	 * @param text - The content of the file.
+	 * @returns The transcript, titled after the file.
+	 * @throws Error if the file has no subtitles or no text.
+	 */
+	private buildFileTranscript(file: TFile, text: string): TranscriptResponse {
+		const isNote = file.extension === 'md';
+		const body = isNote ? text.slice(getFrontMatterInfo(text).contentStart) : text;
+		const format = SubtitleParser.detectFormat(body, isNote ? undefined : file.extension);
+		const lines = format ? SubtitleParser.parse(body, format) : SubtitleParser.parsePlainText(body);
+		const last = lines[lines.length - 1];
+
+		return {
+			url: '',
+			videoId: '',
+			title: file.basename,
+			author: '',
+			channelUrl: '',
+			duration: (last.offset + last.duration) / 1000,
+			publishDate: '',
+			language: '',
+			captionTrack: format ? format.toUpperCase() : '',
+			chapters: [],
+			lines,
+		};
+	}
+
+	/**
+	 * Queues fetching the videos of a playlist, then lets the user choose which ones to summarize.
+	 * @param url - YouTube URL containing a `list=` parameter.
+	 */
+	private summarizePlaylist(url: string): void {
+		if (!YouTubeService.getPlaylistId(url)) {
+			new Notice('This is not a YouTube playlist URL');
+			return;
+		}
+		if (!this.getSummaryModel()) return;
+
+		this.enqueueJob(url, async (context) => {
+			context.setStatus('fetching', 'Fetching playlist...');
+			const playlist = await this.youtubeService.fetchPlaylist(
+				url,
+				context.signal,
+				(count) => context.setStatus('fetching', `Fetching playlist (${count} videos)...`)
 			);
+			context.setLabel(playlist.title);
 
-			//Build the prompt for LLM
-			const prompt = this.buildPrompt(transcript.lines.map((line) => line.text).join(' '), customPrompt);
-			// Generate the summary using the provider
-			new Notice('Generating summary...');
-			let summary: string;
+			new PlaylistSummaryModal(this.app, playlist, async (videos, withOverview) => {
+				try {
+					await this.queuePlaylist(playlist, videos, withOverview);
+				} catch (error) {
+					new Notice(`Error: ${error.message}`);
+					console.error('Failed to queue playlist:', error);
+				}
+			}).open();
+		});
+	}
+
+	/**
+	 * Creates the index note of a playlist and queues a job per video, once the cost of all videos is confirmed.
+	 * Once all videos are processed, the index note is written with links to the video notes and the optional course overview.
+	 * @param playlist - The playlist.
+	 * @param videos - The videos to summarize, in playlist order.
+	 * @param withOverview - Whether to write an overview of the whole playlist.
+	 */
+	private async queuePlaylist(playlist: Playlist, videos: PlaylistVideo[], withOverview: boolean): Promise<void> {
+		const selectedModel = this.getSummaryModel();
+		if (!selectedModel) return;
+
+		const urls = videos.map((video) => `https://www.youtube.com/watch?v=${video.videoId}`);
+		await this.queueBatch(playlist.title, urls, selectedModel, async (transcripts) => {
+			// The index note is created first, so that the video notes can link to it
+			const index = await this.noteService.createNamedNote(
+				playlist.title,
+				`# ${playlist.title}\n\nSummarizing ${videos.length} video(s)...\n`
+			);
+			const indexLink = this.app.fileManager.generateMarkdownLink(index, '');
+
+			const results: { file?: TFile; summary?: string; error?: string }[] = videos.map(() => ({}));
+			let remaining = videos.length;
+			videos.forEach((video, i) => {
+				const prefetched = transcripts.get(urls[i]);
+				this.enqueueJob(video.title, async (context) => {
+					try {
+						const { transcript, summary, content, properties } = await this.generateContent(
+							context,
+							urls[i],
+							selectedModel,
+							{ costConfirmed: prefetched !== undefined },
+							undefined,
+							prefetched
+						);
+						let noteContent = content;
+						if (properties) {
+							properties.playlist = indexLink;
+							noteContent = NoteService.buildFrontmatterEdit('', properties).text + content;
+						} else {
+							noteContent = `Playlist: ${indexLink}\n\n${content}`;
+						}
+						results[i] = { file: await this.noteService.createNote(transcript, noteContent), summary };
+					} catch (error) {
+						results[i] = { error: context.signal.aborted ? 'Cancelled' : error.message };
+						throw error;
+					} finally {
+						remaining--;
+						if (remaining === 0) {
+							this.enqueueJob(playlist.title, (indexContext) =>
+								this.writePlaylistIndex(indexContext, index, playlist, videos, results, withOverview, selectedModel)
+							);
+						}
+					}
+				});
+			});
+		});
+	}
+
+	/**
+	 * Writes the index note of a playlist as a background job, and opens it.
+	 * @param context - The job context, used to report progress and to cancel requests.
+	 * @param index - The index note.
+	 * @param playlist - The playlist.
+	 * @param videos - The summarized videos, in playlist order.
+	 * @param results - The note and summary, or the error, of each video.
+	 * @param withOverview - Whether to write an overview of the whole playlist.
+	 * @param selectedModel - The model used to generate the overview.
+	 */
+	private async writePlaylistIndex(
+		context: JobContext,
+		index: TFile,
+		playlist: Playlist,
+		videos: PlaylistVideo[],
+		results: { file?: TFile; summary?: string; error?: string }[],
+		withOverview: boolean,
+		selectedModel: ModelConfig
+	): Promise<void> {
+		let overview = '';
+		let overviewError: Error | null = null;
+		const summaries = videos
+			.map((video, i) => (results[i].summary ? `### ${i + 1}. ${video.title}\n${results[i].summary}` : ''))
+			.filter((summary) => summary);
+		if (withOverview && summaries.length > 0 && this.provider) {
+			context.setStatus('generating', 'Generating course overview...');
 			try {
-				summary = await this.provider.summarizeVideo(transcript.videoId, prompt);
+				await this.checkBudget();
+				const summarizer = new SummarizerService(
+					this.getSummaryProvider(context, this.provider, selectedModel),
+					this.promptService,
+					selectedModel.contextWindow ?? DEFAULT_CONTEXT_WINDOW,
+					this.getGenerationParameters(selectedModel).maxTokens,
+					false,
+					(usage) => this.recordUsage(usage, playlist.id, selectedModel)
+				);
+				overview = await summarizer.summarizePlaylist(playlist.id, playlist.title, summaries, context.signal);
 			} catch (error) {
-				new Notice(`Error: ${error.message}`);
-				console.error('Failed to generate summary:', error);
-				return;
+				// The index note is still written, the job fails afterwards
+				overviewError = error;
 			}
+		}
 
-			// Create the summary content
-			const content = this.generateSummary(
-				transcript,
-				thumbnailUrl,
-				url,
-				summary
+		context.setStatus('writing', 'Writing index note...');
+		const lines = videos.map((video, i) => {
+			const { file, error } = results[i];
+			const duration = video.duration ? ` (${YouTubeService.formatTimestamp(video.duration)})` : '';
+			if (file) {
+				return `${i + 1}. ${this.app.fileManager.generateMarkdownLink(file, index.path)}${duration}`;
+			}
+			return `${i + 1}. [${video.title}](https://www.youtube.com/watch?v=${video.videoId})${duration}: ${error ?? 'not summarized'}`;
+		});
+
+		const sections = [`# ${playlist.title}`, `[Open playlist on YouTube](${playlist.url})`];
+		if (overview) {
+			sections.push(`## Course overview\n\n${overview}`);
+		}
+		sections.push(`## Videos\n\n${lines.join('\n')}`);
+		let content = `${sections.join('\n\n')}\n`;
+
+		if (this.settings.getAddFrontmatter()) {
+			const properties: Record<string, unknown> = {
+				playlist_id: playlist.id,
+				url: playlist.url,
+				title: playlist.title,
+				channel: playlist.author,
+				videos: videos.length,
+				model: `${selectedModel.provider.name}:${selectedModel.name}`,
+				generated: moment().format('YYYY-MM-DDTHH:mm:ss'),
+			};
+			if (!playlist.author) delete properties.channel;
+			content = NoteService.buildFrontmatterEdit('', properties).text + content;
+		}
+
+		await this.app.vault.modify(index, content);
+		await this.app.workspace.getLeaf(false).openFile(index);
+		if (overviewError) {
+			throw overviewError;
+		}
+		const failed = results.filter((result) => !result.file).length;
+		new Notice(failed > 0
+			? `Playlist summarized, ${failed} of ${videos.length} video(s) failed`
+			: 'Playlist summarized successfully!');
+	}
+
+	/**
+	 * Queues the insertion of the formatted transcript of the YouTube video for the given URL.
+	 * The transcript is written to a new note when the note was closed before the job finished.
+	 * @param url - The URL of the YouTube video.
+	 * @param view - The view of the note where the transcript will be inserted.
+	 */
+	private insertTranscript(url: string, view: MarkdownView): void {
+		// Capture the insertion point now, as the job may start later
+		const stream = new EditorStream(view);
+		this.enqueueJob(url, async (context) => {
+			context.setStatus('fetching', 'Fetching video transcript...');
+			const transcript = await this.youtubeService.fetchTranscript(url, undefined, context.signal);
+			context.setLabel(transcript.title);
+			new Notice(`Using ${transcript.captionTrack} captions`);
+
+			context.setStatus('writing', 'Inserting transcript...');
+			const formatted = TranscriptService.format(
+				transcript.lines,
+				transcript.videoId,
+				this.settings.getTranscriptFormat()
 			);
+			if (stream.isAttached()) {
+				stream.replace(formatted);
+				new Notice('Transcript inserted successfully!');
+			} else {
+				const file = await this.noteService.createNote(transcript, formatted);
+				await this.app.workspace.getLeaf(false).openFile(file);
+				new Notice('The note was closed, the transcript is written to a new note');
+			}
+		});
+	}
 
-			// Insert the summary into the markdown view
-			editor.replaceSelection(content);
-			new Notice('Summary generated successfully!');
-		} catch (error) {
-			new Notice(`Error: ${error.message}`);
-			console.error('Summary generation failed:', error);
-		} finally {
-			// Reset the processing flag
-			this.isProcessing = false;
+	/**
+	 * Opens the modal listing the queued, running and finished jobs.
+	 */
+	private showJobs(): void {
+		new JobsModal(this.app, this.jobQueue).open();
+	}
+
+	/**
+	 * Adds a job to the queue, reporting its failure in a notice.
+	 * @param label - Label of the job, e.g. the video URL.
+	 * @param task - Work done by the job.
+	 */
+	private enqueueJob(label: string, task: JobTask): void {
+		if (this.jobQueue.getActiveJobs().length > 0) {
+			new Notice('Video added to the queue');
 		}
+		this.jobQueue.enqueue(label, async (context) => {
+			try {
+				await task(context);
+			} catch (error) {
+				// Cancelled jobs are only shown in the job history
+				if (!context.signal.aborted) {
+					new Notice(`Error: ${error.message}`);
+					console.error('Job failed:', error);
+				}
+				throw error;
+			}
+		});
+	}
+
+	/**
+	 * Opens a picker with the default prompt and the prompts of the library.
+	 * @param onChoose - Called with the chosen prompt.
+	 */
+	private choosePromptPreset(onChoose: (preset: PromptPreset) => Promise<void>): void {
+		const presets = [
+			{ name: DEFAULT_PROMPT_NAME, prompt: this.settings.getCustomPrompt() },
+			...this.settings.getPromptPresets(),
+		];
+		new PromptPresetSuggestModal(this.app, presets, onChoose).open();
 	}
 
-	private buildPrompt(transcriptText: string, customPrompt?: string): string {
-		if (!customPrompt || !customPrompt.trim()) {
-			return this.promptService.buildPrompt(transcriptText);
+	/**
+	 * Gets the prompt service for a run, appending the custom instructions when given.
+	 * @param options - Options of this run, such as custom instructions or the summary language.
+	 * @param chaptersFor - When given, asks for a timestamped chapters section for this video.
+	 * @returns The prompt service to use.
+	 */
+	private getPromptService(options: SummaryOptions, chaptersFor?: TranscriptResponse): PromptService {
+		const { customPrompt, summaryLanguage } = options;
+		const preset = this.getPromptPreset(options);
+		if ((!customPrompt || !customPrompt.trim()) && summaryLanguage === undefined && !preset && !chaptersFor) {
+			return this.promptService;
 		}
 
-		const promptService = new PromptService(
-			`${this.settings.getCustomPrompt()}\n\nAdditional instructions:\n${customPrompt.trim()}`
-		);
-		return promptService.buildPrompt(transcriptText);
+		let prompt = preset ? preset.prompt : this.settings.getCustomPrompt();
+		if (chaptersFor) {
+			prompt += `\n\n${PromptService.buildChaptersInstructions(chaptersFor.chapters)}`;
+		}
+		if (customPrompt && customPrompt.trim()) {
+			prompt += `\n\nAdditional instructions:\n${customPrompt.trim()}`;
+		}
+		return new PromptService(prompt, summaryLanguage ?? this.settings.getSummaryLanguage());
 	}
 
 	/**
-	 * Generates a summary string based on the provided transcript, thumbnail URL, video URL, and Gemini summary.
+	 * Gets the prompt of the library chosen for a run.
+	 * @param options - Options of this run.
+	 * @returns The chosen prompt, or undefined for the default prompt.
+	 * @throws Error if the chosen prompt no longer exists.
+	 */
+	private getPromptPreset(options: SummaryOptions): PromptPreset | undefined {
+		if (!options.promptPreset || options.promptPreset === DEFAULT_PROMPT_NAME) {
+			return undefined;
+		}
+		const preset = this.settings.getPromptPresets().find((p) => p.name === options.promptPreset);
+		if (!preset) {
+			throw new Error(`Prompt "${options.promptPreset}" not found`);
+		}
+		return preset;
+	}
+
+	/**
+	 * Builds the frontmatter properties describing the video and how the summary was generated.
+	 * @param transcript - The transcript response containing the video metadata.
+	 * @param modelId - The model that generated the summary, a fallback model when the selected one failed.
+	 * @param options - Options of this run, such as custom instructions or the summary language.
+	 * @param usage - The tokens used by each request, empty when the responses were cached.
+	 * @param cost - The cost of the requests in US dollars, null when unknown.
+	 * @returns The properties to add to the note frontmatter.
+	 */
+	private buildProperties(
+		transcript: TranscriptResponse,
+		modelId: string,
+		options: SummaryOptions,
+		usage: TokenUsage[],
+		cost: number | null
+	): Record<string, unknown> {
+		const properties: Record<string, unknown> = {
+			video_id: transcript.videoId,
+			url: transcript.url,
+			title: transcript.title,
+			channel: transcript.author,
+			channel_url: transcript.channelUrl,
+			duration: transcript.duration > 0 ? YouTubeService.formatTimestamp(transcript.duration) : '',
+			published: transcript.publishDate,
+			caption_language: transcript.language,
+			caption_track: transcript.captionTrack,
+			model: modelId,
+			prompt: this.getPromptName(options),
+			summary_language: options.summaryLanguage ?? this.settings.getSummaryLanguage(),
+			generated: moment().format('YYYY-MM-DDTHH:mm:ss'),
+		};
+		if (usage.length > 0) {
+			properties.input_tokens = usage.reduce((total, request) => total + request.inputTokens, 0);
+			properties.output_tokens = usage.reduce((total, request) => total + request.outputTokens, 0);
+			if (cost !== null) {
+				properties.cost = Math.round(cost * 10000) / 10000;
+			}
+		}
+
+		// Drop values that are not available instead of writing empty properties
+		Object.keys(properties).forEach((key) => {
+			if (properties[key] === '') delete properties[key];
+		});
+		return properties;
+	}
+
+	/**
+	 * Gets the name of the prompt used for a run, as written to the frontmatter.
+	 */
+	private getPromptName(options: SummaryOptions): string {
+		const name = this.getPromptPreset(options)?.name ?? DEFAULT_PROMPT_NAME;
+		return options.customPrompt?.trim() ? `${name} + custom instructions` : name;
+	}
+
+	/**
+	 * Generates a summary string by rendering the output note template with the video data.
+	 * Links left without a URL are removed for transcripts that don't come from YouTube.
 	 *
+	 * @param template - The output note template.
 	 * @param transcript - The transcript response containing the title and author.
 	 * @param thumbnailUrl - The URL of the thumbnail image.
 	 * @param url - The URL of the video.
-	 * @param summaryText - The Gemini response containing the summary, key points, technical terms, and conclusion.
+	 * @param summaryText - The model response containing the summary, key points, technical terms, and conclusion.
 	 * @returns A formatted summary string.
 	 */
 	private generateSummary(
+		template: string,
 		transcript: TranscriptResponse,
 		thumbnailUrl: string,
 		url: string,
 		summaryText: string
 	): string {
-		// Initialize summary parts with title, thumbnail, video link, author, and summary
-		const summaryParts = [
-			`# ${transcript.title}\n`,
-			`![Thumbnail](${thumbnailUrl})\n`,
-			`👤 [${transcript.author}](${transcript.channelUrl})  🔗 [Watch video](${url})`,
-			summaryText,
-		];
+		const transcriptText = TranscriptService.format(
+			transcript.lines,
+			transcript.videoId,
+			this.settings.getTranscriptFormat()
+		);
+		let content = TemplateService.render(template, {
+			title: transcript.title,
+			author: transcript.author,
+			channelUrl: transcript.channelUrl,
+			url,
+			thumbnail: thumbnailUrl,
+			summary: summaryText,
+			transcript: transcriptText,
+			videoId: transcript.videoId,
+			duration: YouTubeService.formatTimestamp(transcript.duration),
+			publishDate: transcript.publishDate,
+			language: transcript.language,
+		});
+		if (!transcript.videoId) {
+			// Transcripts read from the vault have no thumbnail, video or channel to link to
+			content = TemplateService.removeEmptyLinks(content);
+		}
 
-		return summaryParts.join('\n');
+		// A template placing the transcript itself already contains it
+		if (!this.settings.getAppendTranscript() || TemplateService.usesPlaceholder(template, 'transcript')) {
+			return content;
+		}
+		return `${content}\n\n## Transcript\n\n${transcriptText}\n`;
 	}
 }
 
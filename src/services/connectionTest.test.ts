@@ -0,0 +1,82 @@
+import { AIModelProvider, ProviderConfig } from 'src/types';
+import { ConnectionTestService } from './connectionTest';
+import { ModelDiscoveryService } from './modelDiscovery';
+import { ProvidersFactory } from './providers/providersFactory';
+
+const OPENAI: ProviderConfig = { name: 'OpenAI', type: 'openai', isBuiltIn: true, apiKey: 'sk-test' };
+const OLLAMA: ProviderConfig = { name: 'Ollama', type: 'ollama', isBuiltIn: true, apiKey: '', url: 'http://localhost:11434' };
+
+function httpError(status: number, message = `Request failed with status ${status}`): Error {
+	return Object.assign(new Error(message), { status });
+}
+
+describe('ConnectionTestService.classifyError', () => {
+	it.each([
+		['a rejected key', httpError(401), 'auth'],
+		['a forbidden request', httpError(403), 'auth'],
+		['an invalid key message', new Error('Incorrect API key provided'), 'auth'],
+		['an exhausted quota', httpError(429, 'You exceeded your current quota'), 'quota'],
+		['a low credit balance', httpError(400, 'Your credit balance is too low'), 'quota'],
+		['a rate limit', httpError(429), 'rate-limit'],
+		['a missing page', httpError(404), 'model'],
+		['an unknown model message', new Error('The model gpt-5o does not exist'), 'model'],
+		['a server error', httpError(503), 'server'],
+		['a failed fetch', new TypeError('Failed to fetch'), 'network'],
+		['a refused connection', new Error('connect ECONNREFUSED 127.0.0.1:11434'), 'network'],
+		['anything else', httpError(400, 'Bad request'), 'unknown'],
+	])('classifies %s', (_, error, kind) => {
+		expect(ConnectionTestService.classifyError(error)).toBe(kind);
+	});
+});
+
+describe('ConnectionTestService', () => {
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it('reports a missing API key without a request', async () => {
+		const listModels = jest.spyOn(ModelDiscoveryService.prototype, 'listModels');
+
+		await expect(new ConnectionTestService().testProvider({ ...OPENAI, apiKey: '' })).resolves.toMatchObject({
+			ok: false,
+			errorKind: 'auth',
+		});
+		expect(listModels).not.toHaveBeenCalled();
+	});
+
+	it('reports a working provider', async () => {
+		jest.spyOn(ModelDiscoveryService.prototype, 'listModels').mockResolvedValue([]);
+		await expect(new ConnectionTestService().testProvider(OLLAMA)).resolves.toMatchObject({ ok: true });
+	});
+
+	it('reports a missing page when listing models as a wrong URL', async () => {
+		jest.spyOn(ModelDiscoveryService.prototype, 'listModels').mockRejectedValue(httpError(404));
+
+		await expect(new ConnectionTestService().testProvider({ ...OPENAI, url: 'https://example.com' })).resolves.toEqual({
+			ok: false,
+			latencyMs: expect.any(Number),
+			errorKind: 'url',
+			message: "https://example.com doesn't serve the OpenAI API. Check the provider URL.",
+		});
+	});
+
+	it('reports a wrong Ollama URL', async () => {
+		jest.spyOn(ModelDiscoveryService.prototype, 'listModels').mockRejectedValue(httpError(404));
+
+		await expect(new ConnectionTestService().testProvider(OLLAMA)).resolves.toMatchObject({
+			errorKind: 'url',
+			message: "Ollama at http://localhost:11434 didn't answer the API request. Check the URL.",
+		});
+	});
+
+	it('reports a missing page when testing a model as an unknown model', async () => {
+		const provider: AIModelProvider = { testConnection: jest.fn().mockResolvedValue(false), summarizeVideo: jest.fn() };
+		jest.spyOn(ProvidersFactory, 'createProvider').mockReturnValue(provider);
+
+		await expect(new ConnectionTestService().testModel({ name: 'gpt-5o', provider: OPENAI }, 1000, 0.7)).resolves.toMatchObject({
+			ok: false,
+			errorKind: 'model',
+			message: `OpenAI doesn't offer model gpt-5o. Check its name, or use "Fetch models".`,
+		});
+	});
+});
@@ -0,0 +1,140 @@
+import { ConnectionErrorKind, ConnectionTestResult, ModelConfig, ProviderConfig } from 'src/types';
+import { DEFAULT_OLLAMA_URL } from 'src/defaults';
+import { ModelDiscoveryService } from './modelDiscovery';
+import { ProvidersFactory } from './providers/providersFactory';
+
+/**
+ * Service checking that a provider or a model can be used, telling apart the usual failures
+ * (invalid key, unknown model, network, quota) with messages saying how to fix them.
+ */
+export class ConnectionTestService {
+	/**
+	 * Tests the API key and the URL of a provider by listing its models, which costs no tokens
+	 * @param provider - The provider, with its API key and URL
+	 * @returns The result of the test
+	 */
+	async testProvider(provider: ProviderConfig): Promise<ConnectionTestResult> {
+		return this.run(provider, undefined, async () => {
+			await new ModelDiscoveryService().listModels(provider);
+		});
+	}
+
+	/**
+	 * Tests a model with the check of its provider, a minimal request for some providers
+	 * @param model - The model, with its provider
+	 * @param maxTokens - The global maximum number of tokens
+	 * @param temperature - The global temperature
+	 * @returns The result of the test
+	 */
+	async testModel(model: ModelConfig, maxTokens: number, temperature: number): Promise<ConnectionTestResult> {
+		return this.run(model.provider, model.name, async () => {
+			const provider = ProvidersFactory.createProvider(model, maxTokens, temperature);
+			if (!await provider.testConnection()) {
+				throw Object.assign(new Error(`Model ${model.name} not found`), { status: 404 });
+			}
+		});
+	}
+
+	private async run(
+		provider: ProviderConfig,
+		modelName: string | undefined,
+		check: () => Promise<void>
+	): Promise<ConnectionTestResult> {
+		if (!provider.apiKey && provider.type !== 'ollama') {
+			return {
+				ok: false,
+				latencyMs: 0,
+				errorKind: 'auth',
+				message: `${provider.name} API key is missing. Enter it in the provider settings, or unlock the API keys.`
+			};
+		}
+
+		const start = performance.now();
+		try {
+			await check();
+			return { ok: true, latencyMs: Math.round(performance.now() - start) };
+		} catch (error) {
+			let errorKind = ConnectionTestService.classifyError(error);
+			// Listing models doesn't involve a model, so a missing page means the URL doesn't point to the API
+			if (errorKind === 'model' && !modelName) {
+				errorKind = 'url';
+			}
+			return {
+				ok: false,
+				latencyMs: Math.round(performance.now() - start),
+				errorKind,
+				message: ConnectionTestService.describeError(errorKind, error, provider, modelName)
+			};
+		}
+	}
+
+	/**
+	 * Classifies an error of any provider by its HTTP status and message
+	 * @param error - The error thrown by the SDK or the request
+	 * @returns The reason of the failure
+	 */
+	static classifyError(error: unknown): ConnectionErrorKind {
+		const status = ConnectionTestService.getStatus(error);
+		const message = error instanceof Error ? error.message : String(error);
+
+		if (status === 401 || status === 403 || /api[ _-]?key|unauthori[sz]ed|authentication|permission/i.test(message)) {
+			return 'auth';
+		}
+		// Anthropic answers 400 when the credit balance is too low, OpenAI 429 with insufficient_quota
+		if (/quota|billing|credit balance/i.test(message)) {
+			return 'quota';
+		}
+		if (status === 429) {
+			return 'rate-limit';
+		}
+		if (status === 404 || /model.*not (found|exist)|not_found/i.test(message)) {
+			return 'model';
+		}
+		if (status !== undefined && status >= 500) {
+			return 'server';
+		}
+		// fetch rejects with a TypeError, the SDKs with a connection error
+		if (error instanceof TypeError || /connection|network|fetch|timed? ?out|ECONNREFUSED|ENOTFOUND/i.test(message)) {
+			return 'network';
+		}
+		return 'unknown';
+	}
+
+	private static describeError(
+		kind: ConnectionErrorKind,
+		error: unknown,
+		provider: ProviderConfig,
+		modelName?: string
+	): string {
+		const isOllama = provider.type === 'ollama';
+		switch (kind) {
+			case 'auth':
+				return `${provider.name} rejected the API key. Check that it is complete and still active.`;
+			case 'quota':
+				return `${provider.name} quota is exhausted or billing is not set up. Check the plan and billing of your account.`;
+			case 'rate-limit':
+				return `${provider.name} is rate limiting requests. Wait a moment and test again.`;
+			case 'model':
+				return isOllama
+					? `Model ${modelName} is not installed. Run "ollama pull ${modelName}".`
+					: `${provider.name} doesn't offer model ${modelName}. Check its name, or use "Fetch models".`;
+			case 'url':
+				return isOllama
+					? `Ollama at ${provider.url || DEFAULT_OLLAMA_URL} didn't answer the API request. Check the URL.`
+					: `${provider.url || provider.name} doesn't serve the ${provider.name} API. Check the provider URL.`;
+			case 'server':
+				return `${provider.name} has a server problem (status ${ConnectionTestService.getStatus(error)}). Try again later.`;
+			case 'network':
+				return isOllama
+					? `Can't reach Ollama at ${provider.url || DEFAULT_OLLAMA_URL}. Check that it is running.`
+					: `Can't reach ${provider.url || provider.name}. Check your internet connection and the provider URL.`;
+			default:
+				return error instanceof Error ? error.message : String(error);
+		}
+	}
+
+	private static getStatus(error: unknown): number | undefined {
+		const status = (error as { status?: unknown } | null)?.status;
+		return typeof status === 'number' ? status : undefined;
+	}
+}
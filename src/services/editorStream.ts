@@ -0,0 +1,167 @@
+import { Editor, MarkdownView, TFile } from 'obsidian';
+
+/**
+ * Writes text progressively into an editor at an insertion point.
+ * The insertion point is the selection when the stream is created, so the output of a queued job
+ * lands where it was requested. The first write replaces the selection, later writes are appended
+ * after the previously written text, and the whole written range can be replaced with the final content.
+ * When the document is edited meanwhile, e.g. by another job, the range is found again by its text.
+ * The stream is bound to the note open when it is created: once its tab shows another file, nothing is written.
+ */
+export class EditorStream {
+	private editor: Editor;
+	private file: TFile | null;
+	// Range of the text to replace, captured when the stream is created
+	private from: number;
+	private to: number;
+	private selection: string;
+	// Text currently in the range once writing started
+	private written = '';
+	private started = false;
+
+	/**
+	 * Creates an instance of EditorStream.
+	 * @param view - The view of the note to write into.
+	 * @param range - Offsets of the text to replace, defaults to the current selection.
+	 */
+	constructor(private view: MarkdownView, range?: { from: number; to: number }) {
+		const editor = view.editor;
+		this.editor = editor;
+		this.file = view.file;
+		this.from = range ? range.from : editor.posToOffset(editor.getCursor('from'));
+		this.to = range ? range.to : editor.posToOffset(editor.getCursor('to'));
+		this.selection = editor.getRange(editor.offsetToPos(this.from), editor.offsetToPos(this.to));
+	}
+
+	/** Gets the editor written into */
+	getEditor(): Editor {
+		return this.editor;
+	}
+
+	/** Gets the note written into */
+	getFile(): TFile | null {
+		return this.file;
+	}
+
+	/** Tells whether the note is still open in the view, i.e. its tab was neither closed nor switched to another file */
+	isAttached(): boolean {
+		return this.file !== null && this.view.file === this.file && this.view.containerEl.isConnected;
+	}
+
+	/** Gets the text replaced by the stream, i.e. the selection when it was created */
+	getSelection(): string {
+		return this.selection;
+	}
+
+	/**
+	 * Appends text after the previously written text
+	 * @param text - The text to append
+	 */
+	write(text: string): void {
+		if (!text || !this.isAttached()) return;
+
+		this.prepare();
+		this.editor.replaceRange(text, this.editor.offsetToPos(this.to));
+		this.to += text.length;
+		this.written += text;
+	}
+
+	/**
+	 * Replaces the written text, or the insertion point when nothing was written, with the final content
+	 * @param content - The final content
+	 * @throws Error if the note is no longer open in the view
+	 */
+	replace(content: string): void {
+		if (!this.isAttached()) {
+			throw new Error('The note was closed before the text could be written');
+		}
+		this.prepare();
+		this.editor.replaceRange(content, this.editor.offsetToPos(this.from), this.editor.offsetToPos(this.to));
+		this.to = this.from + content.length;
+		this.written = content;
+		this.editor.setCursor(this.editor.offsetToPos(this.to));
+	}
+
+	/** Restores the original selection in place of the written text, e.g. when a job fails */
+	revert(): void {
+		if (!this.started || !this.isAttached()) return;
+
+		this.prepare();
+		this.editor.replaceRange(this.selection, this.editor.offsetToPos(this.from), this.editor.offsetToPos(this.to));
+		this.to = this.from + this.selection.length;
+		this.written = '';
+		this.started = false;
+	}
+
+	/**
+	 * Restores the original selection in the content of the note, once it is no longer open in the view
+	 * @param content - The content of the note
+	 * @returns The content with the original selection in place of the written text
+	 */
+	revertContent(content: string): string {
+		if (!this.started) return content;
+
+		const index = content.slice(this.from, this.to) === this.written ? this.from : content.indexOf(this.written);
+		const written = this.written;
+		this.written = '';
+		this.started = false;
+		if (index === -1) return content;
+		return content.slice(0, index) + this.selection + content.slice(index + written.length);
+	}
+
+	/**
+	 * Finds the range before an edit. Before the first write, the insertion point is cleared,
+	 * falling back to the current selection when the captured text is no longer in the document.
+	 */
+	private prepare(): void {
+		if (this.started) {
+			if (!this.locate(this.written)) {
+				// The written text was edited, continue at its start
+				this.from = Math.min(this.from, this.editor.getValue().length);
+				this.to = this.from;
+				this.written = '';
+			}
+			return;
+		}
+
+		if (!this.locate(this.selection)) {
+			this.from = this.editor.posToOffset(this.editor.getCursor('from'));
+			this.to = this.editor.posToOffset(this.editor.getCursor('to'));
+			this.selection = this.editor.getSelection();
+		}
+		this.editor.replaceRange('', this.editor.offsetToPos(this.from), this.editor.offsetToPos(this.to));
+		this.to = this.from;
+		this.written = '';
+		this.started = true;
+	}
+
+	/**
+	 * Makes sure the range contains the expected text, moving it to the nearest occurrence of the text otherwise
+	 * @param expected - Text expected in the range
+	 * @returns Whether the text was found
+	 */
+	private locate(expected: string): boolean {
+		const content = this.editor.getValue();
+		if (content.slice(this.from, this.to) === expected) return true;
+		// An empty text can't be found again, keep the offset within the document
+		if (!expected) {
+			this.from = Math.min(this.from, content.length);
+			this.to = this.from;
+			return true;
+		}
+
+		let nearest = -1;
+		let index = content.indexOf(expected);
+		while (index !== -1) {
+			if (nearest === -1 || Math.abs(index - this.from) < Math.abs(nearest - this.from)) {
+				nearest = index;
+			}
+			index = content.indexOf(expected, index + 1);
+		}
+		if (nearest === -1) return false;
+
+		this.from = nearest;
+		this.to = nearest + expected.length;
+		return true;
+	}
+}
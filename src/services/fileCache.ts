@@ -0,0 +1,130 @@
+import { DataAdapter, normalizePath } from 'obsidian';
+
+/** A value stored in the cache */
+interface CacheEntry<T> {
+	cachedAt: number;
+	value: T;
+}
+
+/**
+ * Persistent cache storing one JSON file per entry in a folder of the plugin directory.
+ * Entries expire after a number of days, and the oldest entries are evicted when the cache
+ * grows beyond its size limit. Failures are logged and never interrupt the caller.
+ */
+export class FileCache<T> {
+	private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+	private static readonly MB = 1024 * 1024;
+
+	/**
+	 * Creates an instance of FileCache.
+	 * @param adapter - The vault adapter used to read and write files outside the vault.
+	 * @param folder - Folder of the cache, e.g. `.obsidian/plugins/<id>/cache/transcripts`.
+	 * @param ttlDays - Number of days an entry is used (0 to keep entries until they are evicted).
+	 * @param maxSizeMb - Maximum size of the cache in megabytes.
+	 */
+	constructor(
+		private adapter: DataAdapter,
+		private folder: string,
+		private ttlDays: number,
+		private maxSizeMb: number
+	) {
+		this.folder = normalizePath(folder);
+	}
+
+	/**
+	 * Gets the number of entries and their total size
+	 * @returns The number of entries and the size in bytes
+	 */
+	async getStats(): Promise<{ count: number; size: number }> {
+		const files = await this.listEntries();
+		return {
+			count: files.length,
+			size: files.reduce((total, file) => total + file.size, 0),
+		};
+	}
+
+	/** Removes all entries */
+	async clear(): Promise<void> {
+		if (await this.adapter.exists(this.folder)) {
+			await this.adapter.rmdir(this.folder, true);
+		}
+	}
+
+	/**
+	 * Reads an entry
+	 * @param name - File name of the entry, without extension
+	 * @returns The value, or null when it is not cached or expired
+	 */
+	protected async read(name: string): Promise<T | null> {
+		const path = this.getPath(name);
+		try {
+			if (!(await this.adapter.exists(path))) return null;
+
+			const entry: CacheEntry<T> = JSON.parse(await this.adapter.read(path));
+			if (this.isExpired(entry.cachedAt)) {
+				await this.adapter.remove(path);
+				return null;
+			}
+			return entry.value ?? null;
+		} catch (error) {
+			// A corrupted entry is treated as missing
+			console.error(`Failed to read cache entry ${path}:`, error);
+			return null;
+		}
+	}
+
+	/**
+	 * Writes an entry, then evicts expired and oldest entries beyond the size limit
+	 * @param name - File name of the entry, without extension
+	 * @param value - The value to store
+	 */
+	protected async write(name: string, value: T): Promise<void> {
+		const entry: CacheEntry<T> = { cachedAt: Date.now(), value };
+		try {
+			if (!(await this.adapter.exists(this.folder))) {
+				await this.adapter.mkdir(this.folder);
+			}
+			await this.adapter.write(this.getPath(name), JSON.stringify(entry));
+			await this.prune();
+		} catch (error) {
+			console.error(`Failed to write cache entry ${name}:`, error);
+		}
+	}
+
+	/** Removes expired entries, then the oldest entries until the cache fits in its size limit */
+	private async prune(): Promise<void> {
+		const files = await this.listEntries();
+		const maxSize = this.maxSizeMb * FileCache.MB;
+		let size = files.reduce((total, file) => total + file.size, 0);
+
+		// Oldest first
+		files.sort((a, b) => a.mtime - b.mtime);
+		for (const file of files) {
+			if (!this.isExpired(file.mtime) && size <= maxSize) continue;
+			await this.adapter.remove(file.path);
+			size -= file.size;
+		}
+	}
+
+	protected async listEntries(): Promise<{ path: string; size: number; mtime: number }[]> {
+		if (!(await this.adapter.exists(this.folder))) return [];
+
+		const { files } = await this.adapter.list(this.folder);
+		const entries = [];
+		for (const path of files.filter((file) => file.endsWith('.json'))) {
+			const stat = await this.adapter.stat(path);
+			if (stat) {
+				entries.push({ path, size: stat.size, mtime: stat.mtime });
+			}
+		}
+		return entries;
+	}
+
+	private isExpired(cachedAt: number): boolean {
+		return this.ttlDays > 0 && Date.now() - cachedAt > this.ttlDays * FileCache.DAY_MS;
+	}
+
+	private getPath(name: string): string {
+		return normalizePath(`${this.folder}/${name}.json`);
+	}
+}
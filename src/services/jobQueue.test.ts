@@ -0,0 +1,125 @@
+import { JobContext, JobQueue } from './jobQueue';
+
+/** A task that runs until it is finished from the test, or rejects when cancelled */
+function createTask() {
+	let resolve: () => void = () => undefined;
+	let reject: (error: Error) => void = () => undefined;
+	const task = jest.fn((context: JobContext) => new Promise<void>((res, rej) => {
+		resolve = res;
+		reject = rej;
+		context.signal.addEventListener('abort', () => rej(new Error('Aborted')));
+	}));
+	return { task, resolve: () => resolve(), reject: (error: Error) => reject(error) };
+}
+
+function flush(): Promise<void> {
+	return new Promise((resolve) => setImmediate(resolve));
+}
+
+describe('JobQueue', () => {
+	it('runs one job at a time by default', async () => {
+		const queue = new JobQueue();
+		const first = createTask();
+		const second = createTask();
+
+		queue.enqueue('first', first.task);
+		queue.enqueue('second', second.task);
+		expect(first.task).toHaveBeenCalled();
+		expect(second.task).not.toHaveBeenCalled();
+
+		first.resolve();
+		await flush();
+		expect(second.task).toHaveBeenCalled();
+	});
+
+	it('runs jobs up to the concurrency limit', () => {
+		const queue = new JobQueue(2);
+		const tasks = [createTask(), createTask(), createTask()];
+
+		tasks.forEach((task, i) => queue.enqueue(`job ${i}`, task.task));
+		expect(tasks.map((task) => task.task.mock.calls.length)).toEqual([1, 1, 0]);
+	});
+
+	it('starts queued jobs when the concurrency is raised', () => {
+		const queue = new JobQueue(1);
+		const tasks = [createTask(), createTask(), createTask()];
+
+		tasks.forEach((task, i) => queue.enqueue(`job ${i}`, task.task));
+		queue.setConcurrency(3);
+		expect(tasks.every((task) => task.task.mock.calls.length === 1)).toBe(true);
+	});
+
+	it('records completed and failed jobs in the history, the most recent first', async () => {
+		const queue = new JobQueue(2);
+		const first = createTask();
+		const second = createTask();
+
+		queue.enqueue('first', first.task);
+		queue.enqueue('second', second.task);
+		first.resolve();
+		await flush();
+		second.reject(new Error('No captions'));
+		await flush();
+
+		expect(queue.getActiveJobs()).toEqual([]);
+		expect(queue.getHistory().map(({ label, status, message }) => ({ label, status, message }))).toEqual([
+			{ label: 'second', status: 'failed', message: 'No captions' },
+			{ label: 'first', status: 'completed', message: 'Done' },
+		]);
+	});
+
+	it('cancels a queued job without running it', () => {
+		const queue = new JobQueue();
+		const first = createTask();
+		const second = createTask();
+
+		queue.enqueue('first', first.task);
+		const job = queue.enqueue('second', second.task);
+		queue.cancel(job.id);
+
+		expect(second.task).not.toHaveBeenCalled();
+		expect(queue.getActiveJobs().map((j) => j.label)).toEqual(['first']);
+		expect(queue.getHistory()[0]).toMatchObject({ label: 'second', status: 'cancelled' });
+	});
+
+	it('cancels a running job once its task stops and starts the next one', async () => {
+		const queue = new JobQueue();
+		const first = createTask();
+		const second = createTask();
+
+		const job = queue.enqueue('first', first.task);
+		queue.enqueue('second', second.task);
+		queue.cancel(job.id);
+		expect(first.task.mock.calls[0][0].signal.aborted).toBe(true);
+
+		await flush();
+		expect(queue.getHistory()[0]).toMatchObject({ label: 'first', status: 'cancelled', message: 'Cancelled' });
+		expect(second.task).toHaveBeenCalled();
+	});
+
+	it('cancels all jobs', async () => {
+		const queue = new JobQueue();
+		queue.enqueue('first', createTask().task);
+		queue.enqueue('second', createTask().task);
+
+		queue.cancelAll();
+		await flush();
+
+		expect(queue.getActiveJobs()).toEqual([]);
+		expect(queue.getHistory().map((job) => job.status)).toEqual(['cancelled', 'cancelled']);
+	});
+
+	it('notifies listeners until they unregister', () => {
+		const queue = new JobQueue();
+		const listener = jest.fn();
+		const unregister = queue.onChange(listener);
+
+		queue.enqueue('first', createTask().task);
+		const calls = listener.mock.calls.length;
+		expect(calls).toBeGreaterThan(0);
+
+		unregister();
+		queue.clearHistory();
+		expect(listener).toHaveBeenCalledTimes(calls);
+	});
+});
@@ -0,0 +1,177 @@
+import { Job, JobStatus } from 'src/types';
+
+/** Context given to a running job to report its progress */
+export interface JobContext {
+	/** Aborted when the job is cancelled */
+	signal: AbortSignal;
+	/** Updates the status and the current step of the job */
+	setStatus(status: JobStatus, message: string): void;
+	/** Updates the label of the job, e.g. with the video title */
+	setLabel(label: string): void;
+}
+
+/** Work done by a job */
+export type JobTask = (context: JobContext) => Promise<void>;
+
+interface QueuedJob extends Job {
+	task: JobTask;
+	controller: AbortController;
+}
+
+/**
+ * Runs background jobs in the order they were added, a limited number at a time.
+ * Jobs can be cancelled while queued or running; finished jobs are kept in a history.
+ */
+export class JobQueue {
+	// Number of finished jobs kept in the history
+	private static readonly MAX_HISTORY = 50;
+
+	private jobs: QueuedJob[] = [];
+	private history: Job[] = [];
+	private listeners: (() => void)[] = [];
+	private running: QueuedJob[] = [];
+	private nextId = 1;
+
+	/**
+	 * Creates an instance of JobQueue.
+	 * @param concurrency - Maximum number of jobs running at the same time.
+	 */
+	constructor(private concurrency = 1) {}
+
+	/**
+	 * Updates the maximum number of jobs running at the same time
+	 * @param concurrency - The new limit, at least 1
+	 */
+	setConcurrency(concurrency: number): void {
+		this.concurrency = Math.max(1, concurrency);
+		this.processNext();
+	}
+
+	/**
+	 * Adds a job to the queue and starts it when the concurrency limit allows
+	 * @param label - Label of the job, e.g. the video URL
+	 * @param task - Work done by the job. Jobs that throw are marked as failed, or cancelled when their signal was aborted.
+	 * @returns The added job
+	 */
+	enqueue(label: string, task: JobTask): Job {
+		const job: QueuedJob = {
+			id: this.nextId++,
+			label,
+			status: 'queued',
+			message: 'Waiting for other jobs...',
+			createdAt: Date.now(),
+			task,
+			controller: new AbortController(),
+		};
+		this.jobs.push(job);
+		this.notify();
+		this.processNext();
+		return this.toJob(job);
+	}
+
+	/**
+	 * Cancels a queued or running job
+	 * @param id - Identifier of the job
+	 */
+	cancel(id: number): void {
+		const job = this.jobs.find((j) => j.id === id);
+		if (!job) return;
+
+		job.controller.abort();
+		// Running jobs are finished by processNext once their task stops
+		if (this.running.includes(job)) {
+			job.message = 'Cancelling...';
+			this.notify();
+		} else {
+			this.finish(job, 'cancelled', 'Cancelled');
+		}
+	}
+
+	/** Cancels all queued and running jobs */
+	cancelAll(): void {
+		[...this.jobs].forEach((job) => this.cancel(job.id));
+	}
+
+	/** Gets the queued and running jobs, the running jobs first */
+	getActiveJobs(): Job[] {
+		return this.jobs.map((job) => this.toJob(job));
+	}
+
+	/** Gets the finished jobs, the most recent first */
+	getHistory(): Job[] {
+		return this.history.map((job) => ({ ...job }));
+	}
+
+	/** Removes all finished jobs from the history */
+	clearHistory(): void {
+		this.history = [];
+		this.notify();
+	}
+
+	/**
+	 * Registers a listener notified whenever a job changes
+	 * @param listener - The listener
+	 * @returns A function that unregisters the listener
+	 */
+	onChange(listener: () => void): () => void {
+		this.listeners.push(listener);
+		return () => {
+			this.listeners = this.listeners.filter((l) => l !== listener);
+		};
+	}
+
+	private async processNext(): Promise<void> {
+		const job = this.jobs.find((j) => !this.running.includes(j));
+		if (!job || this.running.length >= this.concurrency) return;
+
+		this.running.push(job);
+		const context: JobContext = {
+			signal: job.controller.signal,
+			setStatus: (status, message) => {
+				job.status = status;
+				job.message = message;
+				this.notify();
+			},
+			setLabel: (label) => {
+				job.label = label;
+				this.notify();
+			},
+		};
+
+		try {
+			const task = job.task(context);
+			// Start more jobs while the limit allows
+			this.processNext();
+			await task;
+			this.finish(job, 'completed', 'Done');
+		} catch (error) {
+			if (job.controller.signal.aborted) {
+				this.finish(job, 'cancelled', 'Cancelled');
+			} else {
+				this.finish(job, 'failed', error instanceof Error ? error.message : String(error));
+			}
+		} finally {
+			this.running = this.running.filter((j) => j !== job);
+			this.processNext();
+		}
+	}
+
+	private finish(job: QueuedJob, status: JobStatus, message: string): void {
+		this.jobs = this.jobs.filter((j) => j !== job);
+		job.status = status;
+		job.message = message;
+		job.finishedAt = Date.now();
+		this.history.unshift(this.toJob(job));
+		this.history = this.history.slice(0, JobQueue.MAX_HISTORY);
+		this.notify();
+	}
+
+	private toJob(job: QueuedJob): Job {
+		const { id, label, status, message, createdAt, finishedAt } = job;
+		return { id, label, status, message, createdAt, finishedAt };
+	}
+
+	private notify(): void {
+		this.listeners.forEach((listener) => listener());
+	}
+}
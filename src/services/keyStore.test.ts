@@ -0,0 +1,84 @@
+import { App } from 'obsidian';
+import { KeyStore } from './keyStore';
+
+/** App with Obsidian's secret storage kept in memory, or without secret storage */
+function createApp(withSecretStorage = true): App & { secrets: Map<string, string> } {
+	const secrets = new Map<string, string>();
+	const secretStorage = {
+		getSecret: (id: string) => secrets.get(id) ?? null,
+		setSecret: (id: string, secret: string) => secrets.set(id, secret),
+	};
+	return { secrets, ...(withSecretStorage ? { secretStorage } : {}) } as unknown as App & { secrets: Map<string, string> };
+}
+
+describe('KeyStore', () => {
+	it.each([
+		['env:OPENAI_API_KEY', true],
+		[' env:OPENAI_API_KEY ', true],
+		['env:1KEY', false],
+		['sk-env:KEY', false],
+	])('recognizes %p as an environment variable: %p', (apiKey, expected) => {
+		expect(KeyStore.isEnvReference(apiKey)).toBe(expected);
+	});
+
+	it('keeps references to environment variables without storage', async () => {
+		const store = new KeyStore(createApp(false));
+		await expect(store.store('id', 'env:OPENAI_API_KEY')).resolves.toEqual({ type: 'env', variable: 'OPENAI_API_KEY' });
+	});
+
+	it('reads keys from the environment', async () => {
+		process.env.KEY_STORE_TEST_KEY = 'sk-env';
+		await expect(new KeyStore(createApp()).read({ type: 'env', variable: 'KEY_STORE_TEST_KEY' })).resolves.toBe('sk-env');
+		delete process.env.KEY_STORE_TEST_KEY;
+	});
+
+	it('keeps keys in the secret storage without a passphrase', async () => {
+		const app = createApp();
+		const store = new KeyStore(app);
+
+		const ref = await store.store('id', 'sk-secret');
+		expect(ref).toEqual({ type: 'secret', id: 'id' });
+		expect(app.secrets.get('id')).toBe('sk-secret');
+		await expect(store.read({ type: 'secret', id: 'id' })).resolves.toBe('sk-secret');
+	});
+
+	it('reads removed secrets as missing', async () => {
+		const store = new KeyStore(createApp());
+		await store.store('id', 'sk-secret');
+		store.remove({ type: 'secret', id: 'id' });
+
+		await expect(store.read({ type: 'secret', id: 'id' })).resolves.toBeNull();
+	});
+
+	it('stores nothing without secret storage or passphrase', async () => {
+		await expect(new KeyStore(createApp(false)).store('id', 'sk-plain')).resolves.toBeNull();
+	});
+
+	describe('with a passphrase', () => {
+		it('encrypts keys rather than using the secret storage', async () => {
+			const app = createApp();
+			const store = new KeyStore(app);
+			await store.createEncryption('passphrase');
+
+			const ref = await store.store('id', 'sk-secret');
+			expect(ref).toMatchObject({ type: 'encrypted' });
+			expect(JSON.stringify(ref)).not.toContain('sk-secret');
+			expect(app.secrets.size).toBe(0);
+			await expect(store.read(ref as NonNullable<typeof ref>)).resolves.toBe('sk-secret');
+		});
+
+		it('decrypts keys once unlocked with the same passphrase', async () => {
+			const encryption = await new KeyStore(createApp()).createEncryption('passphrase');
+			const store = new KeyStore(createApp());
+			await store.unlock('passphrase', encryption);
+			const ref = await store.store('id', 'sk-secret');
+
+			const other = new KeyStore(createApp());
+			await expect(other.read(ref as NonNullable<typeof ref>)).resolves.toBeNull();
+			await expect(other.unlock('wrong', encryption)).resolves.toBe(false);
+			expect(other.isUnlocked()).toBe(false);
+			await expect(other.unlock('passphrase', encryption)).resolves.toBe(true);
+			await expect(other.read(ref as NonNullable<typeof ref>)).resolves.toBe('sk-secret');
+		});
+	});
+});
@@ -0,0 +1,179 @@
+import { App, arrayBufferToBase64, base64ToArrayBuffer } from 'obsidian';
+import { ApiKeyRef, KeyEncryption } from 'src/types';
+
+/** Obsidian's secret storage, backed by the OS keychain. Only available since Obsidian 1.11 */
+interface SecretStorage {
+	getSecret(id: string): string | null;
+	setSecret(id: string, secret: string): void;
+}
+
+/**
+ * Keeps API keys out of plain text: encrypted with a key derived from a passphrase once one is set, otherwise in
+ * Obsidian's secret storage when available. Keys entered as `env:VARIABLE` are read from the environment instead.
+ * The passphrase key only lives in memory, so the passphrase is asked once per session.
+ */
+export class KeyStore {
+	private static readonly ENV_REFERENCE = /^env:([A-Za-z_][A-Za-z0-9_]*)$/;
+	private static readonly PBKDF2_ITERATIONS = 310000;
+	private static readonly CHECK_TEXT = 'yt-video-summarizer';
+
+	private key: CryptoKey | null = null;
+
+	/**
+	 * Creates an instance of KeyStore.
+	 * @param app - The Obsidian app instance, providing the secret storage.
+	 */
+	constructor(private app: App) {}
+
+	/**
+	 * Tells whether an API key refers to an environment variable, which needs no storage
+	 * @param apiKey - The API key as entered
+	 */
+	static isEnvReference(apiKey: string): boolean {
+		return KeyStore.ENV_REFERENCE.test(apiKey.trim());
+	}
+
+	/**
+	 * Tells whether Obsidian's secret storage is available
+	 */
+	hasSecretStorage(): boolean {
+		return this.getSecretStorage() !== null;
+	}
+
+	/**
+	 * Tells whether the passphrase was entered in this session
+	 */
+	isUnlocked(): boolean {
+		return this.key !== null;
+	}
+
+	/**
+	 * Derives the key of a new passphrase and unlocks with it
+	 * @param passphrase - The new passphrase
+	 * @returns The encryption data to store in the settings
+	 */
+	async createEncryption(passphrase: string): Promise<KeyEncryption> {
+		const salt = crypto.getRandomValues(new Uint8Array(16));
+		this.key = await KeyStore.deriveKey(passphrase, salt);
+		return {
+			salt: arrayBufferToBase64(salt.buffer),
+			check: await this.encrypt(KeyStore.CHECK_TEXT)
+		};
+	}
+
+	/**
+	 * Unlocks the encrypted keys for the rest of the session
+	 * @param passphrase - The passphrase
+	 * @param encryption - The encryption data stored in the settings
+	 * @returns Whether the passphrase is correct
+	 */
+	async unlock(passphrase: string, encryption: KeyEncryption): Promise<boolean> {
+		const key = await KeyStore.deriveKey(passphrase, new Uint8Array(base64ToArrayBuffer(encryption.salt)));
+		try {
+			const check = await KeyStore.decrypt(key, encryption.check);
+			if (check !== KeyStore.CHECK_TEXT) return false;
+		} catch {
+			// AES-GCM fails to authenticate the data with a wrong key
+			return false;
+		}
+		this.key = key;
+		return true;
+	}
+
+	/**
+	 * Stores an API key out of plain text, encrypted when unlocked with a passphrase
+	 * @param id - Identifier of the key in the secret storage, lowercase letters, digits and dashes
+	 * @param apiKey - The API key, or `env:VARIABLE` to read it from an environment variable
+	 * @returns The reference to the stored key, or null when no storage is available
+	 */
+	async store(id: string, apiKey: string): Promise<ApiKeyRef | null> {
+		const variable = apiKey.trim().match(KeyStore.ENV_REFERENCE)?.[1];
+		if (variable) {
+			return { type: 'env', variable };
+		}
+
+		if (this.key) {
+			return { type: 'encrypted', ...await this.encrypt(apiKey) };
+		}
+
+		const secretStorage = this.getSecretStorage();
+		if (secretStorage) {
+			secretStorage.setSecret(id, apiKey);
+			return { type: 'secret', id };
+		}
+		return null;
+	}
+
+	/**
+	 * Reads a stored API key
+	 * @param ref - The reference to the key
+	 * @returns The API key, or null when it is missing or still encrypted
+	 */
+	async read(ref: ApiKeyRef): Promise<string | null> {
+		switch (ref.type) {
+			case 'secret':
+				return this.getSecretStorage()?.getSecret(ref.id) || null;
+			case 'encrypted':
+				if (!this.key) return null;
+				try {
+					return await KeyStore.decrypt(this.key, ref);
+				} catch (error) {
+					console.error('Failed to decrypt API key:', error);
+					return null;
+				}
+			case 'env':
+				// Environment variables are only available on desktop
+				return (typeof process !== 'undefined' && process.env?.[ref.variable]) || null;
+		}
+	}
+
+	/**
+	 * Removes a key from the secret storage, other references only live in the settings
+	 * @param ref - The reference to the key
+	 */
+	remove(ref: ApiKeyRef): void {
+		if (ref.type === 'secret') {
+			// The secret storage has no removal, an empty secret is read as missing
+			this.getSecretStorage()?.setSecret(ref.id, '');
+		}
+	}
+
+	private getSecretStorage(): SecretStorage | null {
+		return (this.app as App & { secretStorage?: SecretStorage }).secretStorage ?? null;
+	}
+
+	private async encrypt(text: string): Promise<{ data: string; iv: string }> {
+		if (!this.key) {
+			throw new Error('API keys are locked');
+		}
+		const iv = crypto.getRandomValues(new Uint8Array(12));
+		const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, this.key, new TextEncoder().encode(text));
+		return { data: arrayBufferToBase64(data), iv: arrayBufferToBase64(iv.buffer) };
+	}
+
+	private static async decrypt(key: CryptoKey, encrypted: { data: string; iv: string }): Promise<string> {
+		const data = await crypto.subtle.decrypt(
+			{ name: 'AES-GCM', iv: new Uint8Array(base64ToArrayBuffer(encrypted.iv)) },
+			key,
+			base64ToArrayBuffer(encrypted.data)
+		);
+		return new TextDecoder().decode(data);
+	}
+
+	private static async deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+		const material = await crypto.subtle.importKey(
+			'raw',
+			new TextEncoder().encode(passphrase),
+			'PBKDF2',
+			false,
+			['deriveKey']
+		);
+		return crypto.subtle.deriveKey(
+			{ name: 'PBKDF2', salt, iterations: KeyStore.PBKDF2_ITERATIONS, hash: 'SHA-256' },
+			material,
+			{ name: 'AES-GCM', length: 256 },
+			false,
+			['encrypt', 'decrypt']
+		);
+	}
+}
@@ -0,0 +1,109 @@
+import Anthropic from '@anthropic-ai/sdk';
+import OpenAI from 'openai';
+import { requestUrl } from 'obsidian';
+import { DiscoveredModel, ProviderConfig } from 'src/types';
+import { DEFAULT_OLLAMA_CONTEXT_WINDOW } from 'src/defaults';
+import { OllamaProvider } from './providers/ollama';
+
+/**
+ * Service listing the models offered by a provider through its list-models endpoint,
+ * so that new models can be added without typing their names.
+ */
+export class ModelDiscoveryService {
+	private static readonly GEMINI_MODELS_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+	// OpenAI lists every model of the account; these can't summarize text with the chat API
+	private static readonly OPENAI_NON_CHAT_MODELS = /embedding|whisper|tts|dall-e|moderation|davinci|babbage|transcribe|image|realtime|audio|search/i;
+
+	/**
+	 * Lists the models offered by a provider
+	 * @param provider - The provider, with its API key and URL
+	 * @returns The models sorted by name
+	 * @throws Error if the API key is missing or the request fails
+	 */
+	async listModels(provider: ProviderConfig): Promise<DiscoveredModel[]> {
+		if (!provider.apiKey && provider.type !== 'ollama') {
+			throw new Error(`${provider.name} API key is missing`);
+		}
+
+		let models: DiscoveredModel[];
+		switch (provider.type) {
+			case 'openai':
+				models = await this.listOpenAIModels(provider);
+				break;
+			case 'anthropic':
+				models = await this.listAnthropicModels(provider);
+				break;
+			case 'gemini':
+				models = await this.listGeminiModels(provider);
+				break;
+			case 'ollama':
+				models = (await OllamaProvider.listModels(provider.url)).map((name) => ({
+					name,
+					displayName: name,
+					contextWindow: DEFAULT_OLLAMA_CONTEXT_WINDOW,
+				}));
+				break;
+			default:
+				throw new Error(`Unsupported provider type: ${provider.type}`);
+		}
+		return models.sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	private async listOpenAIModels(provider: ProviderConfig): Promise<DiscoveredModel[]> {
+		const client = new OpenAI({
+			apiKey: provider.apiKey,
+			baseURL: provider.url,
+			dangerouslyAllowBrowser: true,
+		});
+
+		const models: DiscoveredModel[] = [];
+		for await (const model of client.models.list()) {
+			if (ModelDiscoveryService.OPENAI_NON_CHAT_MODELS.test(model.id)) continue;
+			// Compatible endpoints such as OpenRouter report the name and context window
+			const details = model as OpenAI.Models.Model & { name?: string; context_length?: number };
+			models.push({
+				name: model.id,
+				displayName: details.name || model.id,
+				contextWindow: typeof details.context_length === 'number' ? details.context_length : undefined,
+			});
+		}
+		return models;
+	}
+
+	private async listAnthropicModels(provider: ProviderConfig): Promise<DiscoveredModel[]> {
+		const client = new Anthropic({
+			apiKey: provider.apiKey,
+			baseURL: provider.url,
+			dangerouslyAllowBrowser: true,
+		});
+
+		const models: DiscoveredModel[] = [];
+		for await (const model of client.models.list()) {
+			models.push({ name: model.id, displayName: model.display_name || model.id });
+		}
+		return models;
+	}
+
+	private async listGeminiModels(provider: ProviderConfig): Promise<DiscoveredModel[]> {
+		const models: DiscoveredModel[] = [];
+		let pageToken = '';
+		do {
+			const params = new URLSearchParams({ key: provider.apiKey, pageSize: '1000' });
+			if (pageToken) params.set('pageToken', pageToken);
+
+			const response = await requestUrl({ url: `${ModelDiscoveryService.GEMINI_MODELS_URL}?${params}` });
+			for (const model of response.json.models ?? []) {
+				// Only models that generate text can summarize
+				if (!model.supportedGenerationMethods?.includes('generateContent')) continue;
+				const name = String(model.name).replace(/^models\//, '');
+				models.push({
+					name,
+					displayName: model.displayName || name,
+					contextWindow: model.inputTokenLimit,
+				});
+			}
+			pageToken = response.json.nextPageToken ?? '';
+		} while (pageToken);
+		return models;
+	}
+}
@@ -0,0 +1,104 @@
+import { App, TAbstractFile, TFile, TFolder } from 'obsidian';
+import { TranscriptResponse } from 'src/types';
+import { NoteService } from './note';
+
+const TRANSCRIPT: TranscriptResponse = {
+	url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+	videoId: 'dQw4w9WgXcQ',
+	title: 'Never Gonna Give You Up',
+	author: 'Rick Astley',
+	channelUrl: '',
+	duration: 213,
+	publishDate: '2009-10-25',
+	language: 'en',
+	captionTrack: 'English',
+	chapters: [],
+	lines: [],
+};
+
+/** An app whose vault holds the given files and folders in memory */
+function createApp(files: string[] = [], folders: string[] = []) {
+	const entries = new Map<string, TAbstractFile>();
+	const add = (path: string, entry: TAbstractFile) => {
+		entry.path = path;
+		entries.set(path, entry);
+		return entry;
+	};
+	files.forEach((path) => add(path, new TFile()));
+	folders.forEach((path) => add(path, new TFolder()));
+
+	const vault = {
+		getAbstractFileByPath: (path: string) => entries.get(path) ?? null,
+		create: jest.fn(async (path: string) => add(path, new TFile())),
+		createFolder: jest.fn(async (path: string) => add(path, new TFolder())),
+	};
+	return { app: { vault } as unknown as App, vault };
+}
+
+describe('NoteService.buildFilename', () => {
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it('uses the title by default', () => {
+		const service = new NoteService(createApp().app, '', '');
+		expect(service.buildFilename(TRANSCRIPT)).toBe('Never Gonna Give You Up');
+	});
+
+	it('resolves the placeholders of the pattern', () => {
+		jest.useFakeTimers().setSystemTime(new Date(2026, 2, 4, 10, 30));
+		const service = new NoteService(createApp().app, '', '{{date}} {{author}} - {{title}} ({{videoId}}) {{date:YYYY}}');
+		expect(service.buildFilename(TRANSCRIPT)).toBe('2026-03-04 Rick Astley - Never Gonna Give You Up (dQw4w9WgXcQ) 2026');
+	});
+
+	it('keeps unknown placeholders', () => {
+		const service = new NoteService(createApp().app, '', '{{channel}} {{title}}');
+		expect(service.buildFilename(TRANSCRIPT)).toBe('{{channel}} Never Gonna Give You Up');
+	});
+
+	it('removes characters that are not allowed in file names', () => {
+		const service = new NoteService(createApp().app, '', '{{title}}');
+		expect(service.buildFilename({ ...TRANSCRIPT, title: 'What? A/B: "test" #1 [live]...' })).toBe('What A B test 1 live');
+	});
+
+	it('shortens long titles', () => {
+		const service = new NoteService(createApp().app, '', '{{title}}');
+		expect(service.buildFilename({ ...TRANSCRIPT, title: 'a'.repeat(200) })).toHaveLength(150);
+	});
+
+	it('falls back to the video id when nothing is left', () => {
+		const service = new NoteService(createApp().app, '', '{{title}}');
+		expect(service.buildFilename({ ...TRANSCRIPT, title: '???' })).toBe('dQw4w9WgXcQ');
+	});
+});
+
+describe('NoteService.createNote', () => {
+	it('creates the note in the folder', async () => {
+		const { app, vault } = createApp([], ['Summaries']);
+		const file = await new NoteService(app, 'Summaries/', '{{title}}').createNote(TRANSCRIPT, 'content');
+
+		expect(file.path).toBe('Summaries/Never Gonna Give You Up.md');
+		expect(vault.create).toHaveBeenCalledWith('Summaries/Never Gonna Give You Up.md', 'content');
+		expect(vault.createFolder).not.toHaveBeenCalled();
+	});
+
+	it('numbers the note when the name is taken', async () => {
+		const { app } = createApp(['Never Gonna Give You Up.md', 'Never Gonna Give You Up 1.md']);
+		const file = await new NoteService(app, '', '{{title}}').createNote(TRANSCRIPT, '');
+
+		expect(file.path).toBe('Never Gonna Give You Up 2.md');
+	});
+
+	it('creates the missing folders, parents first', async () => {
+		const { app, vault } = createApp([], ['Videos']);
+		await new NoteService(app, 'Videos/Music/Summaries', '{{title}}').createNote(TRANSCRIPT, '');
+
+		expect(vault.createFolder.mock.calls).toEqual([['Videos/Music'], ['Videos/Music/Summaries']]);
+	});
+
+	it('fails when a file has the name of the folder', async () => {
+		const { app } = createApp(['Summaries']);
+		await expect(new NoteService(app, 'Summaries', '{{title}}').createNote(TRANSCRIPT, ''))
+			.rejects.toThrow('a file with that name already exists');
+	});
+});
@@ -0,0 +1,162 @@
+import { App, TFile, TFolder, getFrontMatterInfo, moment, normalizePath, parseYaml, stringifyYaml } from 'obsidian';
+import { TranscriptResponse } from 'src/types';
+
+/**
+ * Service for writing summaries to notes in the vault.
+ * Resolves the filename pattern, sanitizes it, avoids overwriting existing notes
+ * and merges video properties into the note frontmatter.
+ */
+export class NoteService {
+	// Characters that are not allowed in file names on at least one platform or break Obsidian links
+	private static readonly ILLEGAL_FILENAME_CHARS = /[\\/:*?"<>|#^[\]]/g;
+	private static readonly MAX_FILENAME_LENGTH = 150;
+
+	/**
+	 * Creates an instance of NoteService.
+	 * @param app - The Obsidian app instance.
+	 * @param folder - Vault folder where new notes are created (empty for the vault root).
+	 * @param filenamePattern - Filename pattern, e.g. `{{date}} {{title}}`.
+	 */
+	constructor(
+		private app: App,
+		private folder: string,
+		private filenamePattern: string
+	) {}
+
+	/**
+	 * Creates a new note with the given content for the video
+	 * @param transcript - The transcript response used to resolve the filename
+	 * @param content - Markdown content of the note
+	 * @returns The created file
+	 */
+	async createNote(transcript: TranscriptResponse, content: string): Promise<TFile> {
+		return this.createNamedNote(this.buildFilename(transcript), content);
+	}
+
+	/**
+	 * Creates a new note with the given name and content, e.g. the index note of a playlist
+	 * @param name - Name of the note, sanitized before use
+	 * @param content - Markdown content of the note
+	 * @returns The created file
+	 */
+	async createNamedNote(name: string, content: string): Promise<TFile> {
+		const folder = this.folder.trim() ? normalizePath(this.folder.trim()) : '';
+		if (folder) {
+			await this.ensureFolder(folder);
+		}
+
+		const path = this.getAvailablePath(folder, NoteService.sanitizeFilename(name) || 'Untitled');
+		return this.app.vault.create(path, content);
+	}
+
+	/**
+	 * Resolves the filename pattern for a video.
+	 * Supported placeholders: `{{title}}`, `{{author}}`, `{{videoId}}`, `{{date}}` and `{{date:FORMAT}}`.
+	 * @param transcript - The transcript response containing the video metadata
+	 * @returns A sanitized filename without extension
+	 */
+	buildFilename(transcript: TranscriptResponse): string {
+		const pattern = this.filenamePattern.trim() || '{{title}}';
+		const filename = pattern.replace(/\{\{\s*([a-zA-Z]+)(?::([^}]*))?\s*\}\}/g, (placeholder, key: string, format?: string) => {
+			switch (key) {
+			case 'title':
+				return transcript.title;
+			case 'author':
+				return transcript.author;
+			case 'videoId':
+				return transcript.videoId;
+			case 'date':
+				return moment().format(format?.trim() || 'YYYY-MM-DD');
+			default:
+				return placeholder;
+			}
+		});
+
+		return NoteService.sanitizeFilename(filename) || transcript.videoId;
+	}
+
+	/**
+	 * Computes the edit that merges the given properties into the frontmatter of a document.
+	 * Existing properties are never overwritten, only the missing ones are added, so the user's own
+	 * `title` or `tags` survive a summary inserted into their note.
+	 * @param content - The current document content
+	 * @param properties - The properties to add
+	 * @returns The range to replace (character offsets) and the replacement text
+	 */
+	static buildFrontmatterEdit(
+		content: string,
+		properties: Record<string, unknown>
+	): { from: number; to: number; text: string } {
+		const info = getFrontMatterInfo(content);
+		if (!info.exists) {
+			return { from: 0, to: 0, text: `---\n${stringifyYaml(properties)}---\n` };
+		}
+
+		let existing: Record<string, unknown> = {};
+		try {
+			existing = parseYaml(info.frontmatter) ?? {};
+		} catch (error) {
+			throw new Error(`Failed to parse the note frontmatter: ${error.message}`);
+		}
+
+		const merged = { ...existing };
+		Object.keys(properties).forEach((key) => {
+			if (!(key in merged)) merged[key] = properties[key];
+		});
+		return {
+			from: info.from,
+			to: info.to,
+			text: stringifyYaml(merged),
+		};
+	}
+
+	/**
+	 * Removes characters that are not allowed in file names
+	 * @param name - The raw file name
+	 * @returns The sanitized file name
+	 */
+	static sanitizeFilename(name: string): string {
+		return name
+			.replace(NoteService.ILLEGAL_FILENAME_CHARS, ' ')
+			// eslint-disable-next-line no-control-regex
+			.replace(/[\u0000-\u001f\u007f]/g, '')
+			.replace(/\s+/g, ' ')
+			.trim()
+			.replace(/^\.+|\.+$/g, '')
+			.slice(0, NoteService.MAX_FILENAME_LENGTH)
+			.trim();
+	}
+
+	/**
+	 * Creates the folder (and its parents) if it doesn't exist yet
+	 */
+	private async ensureFolder(folder: string): Promise<void> {
+		const existing = this.app.vault.getAbstractFileByPath(folder);
+		if (existing instanceof TFolder) return;
+		if (existing) {
+			throw new Error(`Cannot create folder "${folder}": a file with that name already exists`);
+		}
+
+		const parent = folder.split('/').slice(0, -1).join('/');
+		if (parent) {
+			await this.ensureFolder(parent);
+		}
+		await this.app.vault.createFolder(folder);
+	}
+
+	/**
+	 * Finds a path that is not taken by appending a counter to the file name
+	 */
+	private getAvailablePath(folder: string, basename: string): string {
+		const prefix = folder ? `${folder}/` : '';
+		let path = normalizePath(`${prefix}${basename}.md`);
+		let counter = 1;
+
+		while (this.app.vault.getAbstractFileByPath(path)) {
+			path = normalizePath(`${prefix}${basename} ${counter}.md`);
+			counter++;
+		}
+
+		return path;
+	}
+}
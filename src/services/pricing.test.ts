@@ -0,0 +1,92 @@
+import { ModelPricing } from 'src/types';
+import { PricingService } from './pricing';
+
+const PRICING: ModelPricing = {
+	input: 1.25,
+	cachedInput: 0.125,
+	output: 10,
+	longContext: { threshold: 200000, input: 2.5, cachedInput: 0.25, output: 15 },
+};
+
+describe('PricingService.parse', () => {
+	it('parses the input and output prices', () => {
+		expect(PricingService.parse('Input $0.30 / Output $2.50 per 1M tokens')).toEqual({ input: 0.3, output: 2.5 });
+	});
+
+	it('parses the cached input price', () => {
+		expect(PricingService.parse('Input $2.00 / Cached input $0.50 / Output $8.00 per 1M tokens')).toEqual({
+			input: 2,
+			cachedInput: 0.5,
+			output: 8,
+		});
+	});
+
+	it('keeps the deprecation of a model', () => {
+		expect(PricingService.parse('Input $0.10 / Output $0.40 per 1M tokens (deprecated)')).toEqual({
+			input: 0.1,
+			output: 0.4,
+			note: 'deprecated',
+		});
+	});
+
+	it.each(['', 'Free', 'See the website of the provider'])('returns nothing for %p', (text) => {
+		expect(PricingService.parse(text)).toBeUndefined();
+	});
+});
+
+describe('PricingService.getCost', () => {
+	it('adds the cost of every request', () => {
+		const cost = PricingService.getCost({ input: 1, output: 10 }, [
+			{ inputTokens: 1000000, outputTokens: 100000 },
+			{ inputTokens: 500000, outputTokens: 0 },
+		]);
+		expect(cost).toBeCloseTo(2.5, 6);
+	});
+
+	it('bills cached input tokens at the cached input price', () => {
+		expect(PricingService.getCost(PRICING, [{ inputTokens: 100000, outputTokens: 0, cachedInputTokens: 80000 }])).toBeCloseTo(
+			0.02 * 1.25 + 0.08 * 0.125,
+			6
+		);
+	});
+
+	it('bills cached input tokens at the input price without a cached input price', () => {
+		expect(PricingService.getCost({ input: 1, output: 10 }, [{ inputTokens: 1000000, outputTokens: 0, cachedInputTokens: 800000 }])).toBeCloseTo(1, 6);
+	});
+
+	it('bills long prompts at the long context prices', () => {
+		expect(PricingService.getCost(PRICING, [{ inputTokens: 400000, outputTokens: 100000 }])).toBeCloseTo(0.4 * 2.5 + 0.1 * 15, 6);
+		expect(PricingService.getCost(PRICING, [{ inputTokens: 200000, outputTokens: 100000 }])).toBeCloseTo(0.2 * 1.25 + 0.1 * 10, 6);
+	});
+
+	it('costs nothing without requests', () => {
+		expect(PricingService.getCost(PRICING, [])).toBe(0);
+	});
+});
+
+describe('PricingService.format', () => {
+	it('formats the prices', () => {
+		expect(PricingService.format(PRICING)).toBe(
+			'Input $1.25 / Cached input $0.125 / Output $10.00 per 1M tokens; long context (>200k) $2.50/$0.25/$15.00'
+		);
+	});
+
+	it('adds the note', () => {
+		expect(PricingService.format({ input: 0.1, output: 0.4, note: 'deprecated' })).toBe('Input $0.10 / Output $0.40 per 1M tokens; deprecated');
+	});
+
+	it('formats nothing without prices', () => {
+		expect(PricingService.format(undefined)).toBe('');
+	});
+});
+
+describe('PricingService.formatCost', () => {
+	it.each([
+		[0, '$0.00'],
+		[0.0042, '$0.0042'],
+		[0.01, '$0.01'],
+		[1.2, '$1.20'],
+	])('formats %p as %p', (cost, expected) => {
+		expect(PricingService.formatCost(cost)).toBe(expected);
+	});
+});
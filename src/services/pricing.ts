@@ -0,0 +1,96 @@
+import { ModelPricing, TokenUsage } from 'src/types';
+
+/**
+ * Computes and formats the cost of requests from the prices of a model, in US dollars per million tokens.
+ * Requests whose prompt exceeds the long context threshold of a model are billed at its long context prices.
+ */
+export class PricingService {
+	private static readonly TOKENS_PER_UNIT = 1000000;
+	// Prices of the free text pricing of earlier versions, e.g. `Input $0.30 / Output $2.50 per 1M tokens`
+	private static readonly LEGACY_PRICES = /Input \$([\d.]+)(?: \/ Cached input \$([\d.]+))? \/ Output \$([\d.]+)/i;
+
+	/**
+	 * Computes the cost of requests
+	 * @param pricing - The prices of the model
+	 * @param usages - The tokens of each request
+	 * @returns The cost in US dollars
+	 */
+	static getCost(pricing: ModelPricing, usages: TokenUsage[]): number {
+		return usages.reduce((total, usage) => {
+			const prices = pricing.longContext && usage.inputTokens > pricing.longContext.threshold
+				? pricing.longContext
+				: pricing;
+			const cachedTokens = Math.min(usage.cachedInputTokens ?? 0, usage.inputTokens);
+			return total + (
+				(usage.inputTokens - cachedTokens) * prices.input
+				+ cachedTokens * (prices.cachedInput ?? prices.input)
+				+ usage.outputTokens * prices.output
+			) / PricingService.TOKENS_PER_UNIT;
+		}, 0);
+	}
+
+	/**
+	 * Formats the prices of a model for display
+	 * @param pricing - The prices of the model
+	 * @returns The prices, e.g. `Input $1.25 / Output $10.00 per 1M tokens; long context (>200k) $2.50/$15.00`
+	 */
+	static format(pricing?: ModelPricing): string {
+		if (!pricing) return '';
+
+		const parts = [`${PricingService.formatPrices(pricing)} per 1M tokens`];
+		const { longContext } = pricing;
+		if (longContext) {
+			const prices = [longContext.input, longContext.cachedInput, longContext.output]
+				.filter((price): price is number => price !== undefined)
+				.map(PricingService.formatPrice);
+			parts.push(`long context (>${Math.round(longContext.threshold / 1000)}k) ${prices.join('/')}`);
+		}
+		if (pricing.note) {
+			parts.push(pricing.note);
+		}
+		return parts.join('; ');
+	}
+
+	/**
+	 * Formats a cost in US dollars, with more digits for costs below a cent
+	 * @param cost - The cost in US dollars
+	 * @returns The cost, e.g. `$0.0042` or `$1.20`
+	 */
+	static formatCost(cost: number): string {
+		return `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+	}
+
+	/**
+	 * Parses the free text pricing stored by earlier versions
+	 * @param text - The pricing text, e.g. `Input $0.30 / Output $2.50 per 1M tokens`
+	 * @returns The prices, or undefined when the text has none
+	 */
+	static parse(text: string): ModelPricing | undefined {
+		const match = text.match(PricingService.LEGACY_PRICES);
+		if (!match) return undefined;
+
+		const pricing: ModelPricing = { input: parseFloat(match[1]), output: parseFloat(match[3]) };
+		if (match[2]) {
+			pricing.cachedInput = parseFloat(match[2]);
+		}
+		if (/deprecated/i.test(text)) {
+			pricing.note = 'deprecated';
+		}
+		return pricing;
+	}
+
+	private static formatPrices(pricing: ModelPricing): string {
+		const prices = [`Input ${PricingService.formatPrice(pricing.input)}`];
+		if (pricing.cachedInput !== undefined) {
+			prices.push(`Cached input ${PricingService.formatPrice(pricing.cachedInput)}`);
+		}
+		prices.push(`Output ${PricingService.formatPrice(pricing.output)}`);
+		return prices.join(' / ');
+	}
+
+	/** Formats a price per million tokens with cents, or a tenth of a cent for the cheapest models */
+	private static formatPrice(price: number): string {
+		const text = price.toFixed(3);
+		return `$${text.endsWith('0') ? price.toFixed(2) : text}`;
+	}
+}
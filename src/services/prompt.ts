@@ -1,3 +1,6 @@
+import { VideoChapter } from 'src/types';
+import { YouTubeService } from './youtube';
+
 /**
  * Service for handling AI prompts.
  * This class provides methods for building prompts for AI models.
@@ -5,9 +8,10 @@
 export class PromptService {
 	/**
 	 * Creates an instance of PromptService.
-	 * @param settings - The plugin settings.
+	 * @param customPrompt - The summary prompt.
+	 * @param summaryLanguage - Language of the summary, empty for the language of the video.
 	 */
-	constructor(private customPrompt: string) {}
+	constructor(private customPrompt: string, private summaryLanguage = '') {}
 
 	/**
 	 * Builds the prompt for AI based on the video transcript
@@ -15,9 +19,110 @@ export class PromptService {
 	 * @returns Prompt string for AI
 	 * @example
 	 * const prompt = promptService.buildPrompt('This is a sample transcript.');
-	 * console.log(prompt); // 'Custom prompt\n\nTranscript:\nThis is a sample transcript.'
+	 * console.log(prompt); // 'Custom prompt\n\nWrite the summary in the same language as the transcript.\n\nTranscript:\nThis is a sample transcript.'
 	 */
 	buildPrompt(transcriptText: string): string {
-		return `${this.customPrompt}\n\nTranscript:\n${transcriptText}`;
+		return `${this.customPrompt}\n\n${this.buildLanguageInstruction()}\n\nTranscript:\n${transcriptText}`;
+	}
+
+	/**
+	 * Builds the instruction that sets the language of the output
+	 * @param output - What the model writes, e.g. `summary`
+	 * @param source - What the model reads, e.g. `transcript`
+	 */
+	private buildLanguageInstruction(output = 'summary', source = 'transcript'): string {
+		const language = this.summaryLanguage.trim();
+		if (!language) {
+			return `Write the ${output} in the same language as the ${source}.`;
+		}
+		return `Write the ${output} in ${language}, regardless of the language of the ${source}. Translate quotes and terms where needed, but keep names of people, products and technologies unchanged.`;
+	}
+
+	/**
+	 * Builds the instructions asking the model for a chapters section with timestamps
+	 * @param chapters - Chapters defined by the creator, used as the skeleton when not empty
+	 * @returns Instructions to append to the prompt
+	 */
+	static buildChaptersInstructions(chapters: VideoChapter[]): string {
+		const instructions = [
+			'The transcript is annotated with timestamps in [m:ss] or [h:mm:ss] format.',
+			'Always write timestamps in square brackets, exactly like in the transcript, e.g. [12:34].',
+		];
+
+		if (chapters.length > 0) {
+			const chapterList = chapters
+				.map((chapter) => `- [${YouTubeService.formatTimestamp(chapter.start)}] ${chapter.title}`)
+				.join('\n');
+			instructions.push(
+				'Add a "## Chapters" section that follows the chapters defined by the creator below, keeping their timestamps, titles and order, with a short summary of each chapter:',
+				chapterList
+			);
+		} else {
+			instructions.push(
+				'Add a "## Chapters" section listing the main chapters of the video in order, one per line, as "- [timestamp] Chapter title: one-sentence summary", using timestamps from the transcript.'
+			);
+		}
+
+		return instructions.join('\n');
+	}
+
+	/**
+	 * Builds the prompt for one part of a transcript that is too long to be summarized at once
+	 * @param transcriptText - Transcript text of the part
+	 * @param part - Index of the part, starting at 1
+	 * @param totalParts - Total number of parts
+	 * @param timeRange - Time range covered by the part, e.g. `12:00-24:00`
+	 * @returns Prompt string for AI
+	 */
+	buildChunkPrompt(transcriptText: string, part: number, totalParts: number, timeRange: string): string {
+		return [
+			`You are processing part ${part} of ${totalParts} (${timeRange}) of a long video transcript that is too long to be summarized at once.`,
+			'The notes of all parts will later be combined into a final summary that follows these instructions:',
+			'<instructions>',
+			this.customPrompt,
+			'</instructions>',
+			'',
+			'Write detailed notes for this part only: keep every key point, fact, example, name and technical term that the final summary may need.',
+			'Do not write an introduction or a conclusion and do not refer to other parts.',
+			this.buildLanguageInstruction('notes'),
+			'',
+			`Transcript (part ${part} of ${totalParts}):`,
+			transcriptText,
+		].join('\n');
+	}
+
+	/**
+	 * Builds the prompt that combines the notes of all transcript parts into the final summary
+	 * @param partialSummaries - Notes of each part, in order
+	 * @returns Prompt string for AI
+	 */
+	buildReducePrompt(partialSummaries: string[]): string {
+		const parts = partialSummaries
+			.map((summary, index) => `### Part ${index + 1} of ${partialSummaries.length}\n${summary}`)
+			.join('\n\n');
+
+		return `${this.customPrompt}\n\nThe transcript was too long to be processed at once, so it was split into consecutive parts and notes were written for each part. Combine the notes below into a single summary of the whole video, following the instructions above.\n\n${this.buildLanguageInstruction('summary', 'notes')}\n\nNotes:\n${parts}`;
+	}
+
+	/**
+	 * Builds the prompt that writes an overview of a playlist, such as a course, from the summaries of its videos
+	 * @param title - Title of the playlist
+	 * @param summaries - Summaries of the videos in order, each starting with a heading with the video title
+	 * @returns Prompt string for AI
+	 */
+	buildOverviewPrompt(title: string, summaries: string[]): string {
+		return [
+			`Below are the summaries of the videos of the YouTube playlist "${title}", in playlist order.`,
+			'Write an overview of the whole playlist as a course:',
+			'- the goal and the intended audience of the series',
+			'- what each video covers, in one or two sentences, in order',
+			'- how the videos build on each other, and the prerequisites if any',
+			'- the key takeaways across the whole series',
+			'Use Markdown headings and lists. Do not repeat the summaries of the videos.',
+			this.buildLanguageInstruction('overview', 'summaries'),
+			'',
+			'Summaries:',
+			summaries.join('\n\n'),
+		].join('\n');
 	}
 }
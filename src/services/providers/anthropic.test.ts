@@ -0,0 +1,64 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { GenerationParameters } from 'src/types';
+import { AnthropicProvider } from './anthropic';
+
+const RESPONSE = {
+	content: [{ type: 'text', text: 'Summary' }],
+	stop_reason: 'end_turn',
+	usage: { input_tokens: 100, output_tokens: 10 },
+};
+
+/** Sends a request with the given parameters and returns the body sent to the API */
+async function getRequest(parameters: GenerationParameters): Promise<Record<string, unknown>> {
+	const create = jest.spyOn(Anthropic.Messages.prototype, 'create').mockResolvedValue(RESPONSE as never);
+	await new AnthropicProvider('key', 'claude-sonnet-4-0', parameters, undefined).summarizeVideo('id', 'prompt');
+	return create.mock.calls[0][0] as unknown as Record<string, unknown>;
+}
+
+describe('AnthropicProvider', () => {
+	beforeEach(() => {
+		jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it('sends the temperature without thinking', async () => {
+		const request = await getRequest({ maxTokens: 2000, temperature: 0.5 });
+		expect(request).toMatchObject({ max_tokens: 2000, temperature: 0.5 });
+		expect(request).not.toHaveProperty('thinking');
+	});
+
+	it('sends top_p instead of the temperature', async () => {
+		const request = await getRequest({ maxTokens: 2000, temperature: 0.5, topP: 0.9 });
+		expect(request).toMatchObject({ top_p: 0.9 });
+		expect(request).not.toHaveProperty('temperature');
+	});
+
+	it('sends the thinking budget without the temperature', async () => {
+		const request = await getRequest({ maxTokens: 8000, temperature: 0.5, thinkingBudget: 4000 });
+		expect(request).toMatchObject({ max_tokens: 8000, thinking: { type: 'enabled', budget_tokens: 4000 } });
+		expect(request).not.toHaveProperty('temperature');
+	});
+
+	it('raises a small thinking budget to the minimum', async () => {
+		const request = await getRequest({ maxTokens: 8000, temperature: 0.5, thinkingBudget: 100 });
+		expect(request).toMatchObject({ thinking: { type: 'enabled', budget_tokens: 1024 } });
+	});
+
+	it.each([
+		['equal to', 4000],
+		['above', 2000],
+	])('leaves out a thinking budget %s the max tokens', async (_, maxTokens: number) => {
+		const request = await getRequest({ maxTokens, temperature: 0.5, thinkingBudget: 4000 });
+		expect(request).toMatchObject({ max_tokens: maxTokens, temperature: 0.5 });
+		expect(request).not.toHaveProperty('thinking');
+		expect(console.warn).toHaveBeenCalled();
+	});
+
+	it('leaves out the minimum thinking budget when the max tokens are below it', async () => {
+		const request = await getRequest({ maxTokens: 1000, temperature: 0.5, thinkingBudget: 100 });
+		expect(request).not.toHaveProperty('thinking');
+	});
+});
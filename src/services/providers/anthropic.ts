@@ -1,5 +1,9 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { AIModelProvider } from 'src/types';
+import { AIModelProvider, GenerationParameters, TokenUsage, UsageCallback } from 'src/types';
+import { ANTHROPIC_MIN_THINKING_BUDGET, RETRYABLE_STATUS_CODES, TRUNCATION_NOTICE } from 'src/constants';
+
+/** Generation parameters of a messages request */
+type MessageParameters = Pick<Anthropic.MessageCreateParams, 'max_tokens' | 'temperature' | 'top_p' | 'thinking'>;
 
 export class AnthropicProvider implements AIModelProvider {
     private client: Anthropic;
@@ -7,8 +11,7 @@ export class AnthropicProvider implements AIModelProvider {
     constructor(
         apiKey: string,
         private model: string,
-        private maxTokens: number,
-        private temperature: number,
+        private parameters: GenerationParameters,
         baseUrl: string | undefined
     ) {
         this.client = new Anthropic({
@@ -17,8 +20,7 @@ export class AnthropicProvider implements AIModelProvider {
             baseURL: baseUrl
         });
         this.model = model;
-        this.maxTokens = maxTokens;
-        this.temperature = temperature;
+        this.parameters = parameters;
     }
 
     async testConnection(): Promise<boolean> {
@@ -32,23 +34,32 @@ export class AnthropicProvider implements AIModelProvider {
             return true;
         } catch (error) {
             console.error('Anthropic connection test failed:', error);
-            return false;
+            throw error;
         }
     }
 
-    async summarizeVideo(videoId: string, prompt: string): Promise<string> {
+    isTransientError(error: unknown): boolean {
+        if (error instanceof Anthropic.APIUserAbortError) return false;
+        if (error instanceof Anthropic.APIConnectionError) return true;
+        return error instanceof Anthropic.APIError && RETRYABLE_STATUS_CODES.includes(error.status ?? 0);
+    }
+
+    async summarizeVideo(videoId: string, prompt: string, signal?: AbortSignal, onUsage?: UsageCallback): Promise<string> {
         try {
             const response = await this.client.messages.create({
                 model: this.model,
-                max_tokens: this.maxTokens,
-                temperature: this.temperature,
+                ...this.getMessageParameters(),
                 messages: [{ role: 'user', content: prompt }]
-            });
+            }, { signal });
+
+            onUsage?.(AnthropicProvider.toTokenUsage(response.usage, response.usage.output_tokens));
 
-            if (response.content[0].type === 'text') {
-                let text = response.content[0].text;
+            // With extended thinking, the text follows the thinking blocks
+            const block = response.content.find(content => content.type === 'text');
+            if (block && block.type === 'text') {
+                let text = block.text;
                 if (response.stop_reason === 'max_tokens') {
-                    text += '\n\n[Summary truncated due to max token limit. Please increase "Max Tokens" in settings.]';
+                    text += TRUNCATION_NOTICE;
                 }
                 return text;
             }
@@ -58,4 +69,83 @@ export class AnthropicProvider implements AIModelProvider {
             throw error;
         }
     }
+
+    async *streamSummary(videoId: string, prompt: string, signal?: AbortSignal, onUsage?: UsageCallback): AsyncGenerator<string> {
+        try {
+            const stream = await this.client.messages.create({
+                model: this.model,
+                ...this.getMessageParameters(),
+                messages: [{ role: 'user', content: prompt }],
+                stream: true
+            }, { signal });
+
+            // The input tokens come with the first event, the output tokens with the last ones
+            let inputUsage: Anthropic.Usage | undefined;
+            let outputTokens = 0;
+            for await (const event of stream) {
+                if (event.type === 'message_start') {
+                    inputUsage = event.message.usage;
+                } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+                    yield event.delta.text;
+                } else if (event.type === 'message_delta') {
+                    outputTokens = event.usage.output_tokens;
+                    if (event.delta.stop_reason === 'max_tokens') {
+                        yield TRUNCATION_NOTICE;
+                    }
+                }
+            }
+            if (inputUsage) {
+                onUsage?.(AnthropicProvider.toTokenUsage(inputUsage, outputTokens));
+            }
+        } catch (error) {
+            console.error('Error streaming summary with Anthropic:', error);
+            throw error;
+        }
+    }
+
+    private static toTokenUsage(usage: Anthropic.Usage, outputTokens: number): TokenUsage {
+        // The input tokens don't include the tokens read from or written to the prompt cache
+        const cachedInputTokens = usage.cache_read_input_tokens ?? 0;
+        return {
+            inputTokens: usage.input_tokens + cachedInputTokens + (usage.cache_creation_input_tokens ?? 0),
+            outputTokens,
+            cachedInputTokens
+        };
+    }
+
+    /**
+     * Gets the generation parameters supported by the request.
+     * Extended thinking doesn't allow changing the temperature, and recent models reject
+     * the temperature together with top_p, so only one of them is sent.
+     */
+    private getMessageParameters(): MessageParameters {
+        const { maxTokens, temperature, topP } = this.parameters;
+        const parameters: MessageParameters = { max_tokens: maxTokens };
+        const thinkingBudget = this.getThinkingBudget();
+        if (thinkingBudget !== null) {
+            parameters.thinking = { type: 'enabled', budget_tokens: thinkingBudget };
+        } else if (topP !== undefined) {
+            parameters.top_p = topP;
+        } else {
+            parameters.temperature = temperature;
+        }
+        return parameters;
+    }
+
+    /**
+     * Gets the thinking budget accepted by the API: at least 1024 tokens and less than the max tokens.
+     * A smaller budget is raised to the minimum, and thinking is left out when the max tokens leave no room for it.
+     * @returns The thinking budget, or null to send the request without thinking
+     */
+    private getThinkingBudget(): number | null {
+        const { maxTokens, thinkingBudget } = this.parameters;
+        if (!thinkingBudget) return null;
+
+        const budget = Math.max(thinkingBudget, ANTHROPIC_MIN_THINKING_BUDGET);
+        if (budget >= maxTokens) {
+            console.warn(`Thinking budget of ${budget} tokens is not below the max tokens (${maxTokens}), sending the request without thinking`);
+            return null;
+        }
+        return budget;
+    }
 }
@@ -0,0 +1,93 @@
+import { AIModelProvider, GenerationParameters, UsageCallback } from 'src/types';
+import { TRUNCATION_NOTICE } from 'src/constants';
+import { ResponseCache } from '../responseCache';
+
+/**
+ * Provider returning cached responses for prompts already sent to the same model with the same parameters,
+ * and caching the responses of the wrapped provider otherwise. Truncated responses are not cached,
+ * so that a new request after raising "Max Tokens" gets the complete response.
+ */
+export class CachedProvider implements AIModelProvider {
+    streamSummary?: (videoId: string, prompt: string, signal?: AbortSignal, onUsage?: UsageCallback) => AsyncGenerator<string>;
+
+    /**
+     * Creates an instance of CachedProvider.
+     * @param provider - The provider generating responses that are not cached.
+     * @param cache - The cache of responses.
+     * @param modelId - The model identifier, e.g. `OpenAI:gpt-4o-mini`.
+     * @param parameters - Generation parameters of the model.
+     * @param regenerate - Whether to ignore cached responses, the new responses are still cached.
+     */
+    constructor(
+        private provider: AIModelProvider,
+        private cache: ResponseCache,
+        private modelId: string,
+        private parameters: GenerationParameters,
+        private regenerate = false
+    ) {
+        if (provider.streamSummary) {
+            this.streamSummary = (videoId, prompt, signal, onUsage) => this.stream(videoId, prompt, signal, onUsage);
+        }
+    }
+
+    async testConnection(): Promise<boolean> {
+        return this.provider.testConnection();
+    }
+
+    isTransientError(error: unknown): boolean {
+        return this.provider.isTransientError?.(error) ?? false;
+    }
+
+    async hasCachedResponse(prompt: string): Promise<boolean> {
+        return await this.getCached(await this.getKey(prompt)) !== null;
+    }
+
+    /** Cached responses cost nothing, so only the responses of the wrapped provider report their usage */
+    async summarizeVideo(videoId: string, prompt: string, signal?: AbortSignal, onUsage?: UsageCallback): Promise<string> {
+        const key = await this.getKey(prompt);
+        const cached = await this.getCached(key);
+        if (cached !== null) return cached;
+
+        const response = await this.provider.summarizeVideo(videoId, prompt, signal, onUsage);
+        if (CachedProvider.isCacheable(response)) {
+            await this.cache.set(key, response);
+        }
+        return response;
+    }
+
+    private async *stream(videoId: string, prompt: string, signal?: AbortSignal, onUsage?: UsageCallback): AsyncGenerator<string> {
+        const key = await this.getKey(prompt);
+        const cached = await this.getCached(key);
+        if (cached !== null) {
+            yield cached;
+            return;
+        }
+
+        const upstream = this.provider.streamSummary?.(videoId, prompt, signal, onUsage);
+        if (!upstream) return;
+
+        let response = '';
+        for await (const delta of upstream) {
+            response += delta;
+            yield delta;
+        }
+        if (CachedProvider.isCacheable(response)) {
+            await this.cache.set(key, response);
+        }
+    }
+
+    private async getCached(key: string): Promise<string | null> {
+        if (this.regenerate) return null;
+        return this.cache.get(key);
+    }
+
+    /** Complete responses only: an empty stream is retried, a truncated response is generated again */
+    private static isCacheable(response: string): boolean {
+        return response !== '' && !response.endsWith(TRUNCATION_NOTICE);
+    }
+
+    /** The key covers the generation parameters, so changing "Max Tokens" or the temperature sends a new request */
+    private getKey(prompt: string): Promise<string> {
+        return ResponseCache.buildKey(prompt, this.modelId, this.parameters);
+    }
+}
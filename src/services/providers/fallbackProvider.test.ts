@@ -0,0 +1,168 @@
+import { TRUNCATION_NOTICE } from 'src/constants';
+import { AIModelProvider } from 'src/types';
+import { FallbackModel, FallbackProvider } from './fallbackProvider';
+
+const TRANSIENT = new Error('Overloaded');
+const PERMANENT = new Error('Invalid API key');
+
+/** Model whose requests return or throw the given results in order */
+function createModel(id: string, ...results: (string | Error)[]): FallbackModel & { provider: jest.Mocked<AIModelProvider> } {
+	const summarizeVideo = jest.fn();
+	results.forEach((result) => {
+		if (result instanceof Error) {
+			summarizeVideo.mockRejectedValueOnce(result);
+		} else {
+			summarizeVideo.mockResolvedValueOnce(result);
+		}
+	});
+	return {
+		id,
+		provider: {
+			testConnection: jest.fn(),
+			summarizeVideo,
+			isTransientError: jest.fn((error: unknown) => error === TRANSIENT),
+		},
+	};
+}
+
+/** Stream sending the given deltas, then failing */
+async function* failingStream(deltas: string[], error: Error): AsyncGenerator<string> {
+	for (const delta of deltas) {
+		yield delta;
+	}
+	throw error;
+}
+
+async function collect(stream: AsyncGenerator<string>): Promise<string[]> {
+	const deltas: string[] = [];
+	for await (const delta of stream) {
+		deltas.push(delta);
+	}
+	return deltas;
+}
+
+describe('FallbackProvider', () => {
+	beforeEach(() => {
+		jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+		jest.restoreAllMocks();
+	});
+
+	it('requires a model', () => {
+		expect(() => new FallbackProvider([], 0)).toThrow('No model to generate the summary with');
+	});
+
+	it('uses the selected model when it works', async () => {
+		const fallback = createModel('fallback', 'Fallback summary');
+		const provider = new FallbackProvider([createModel('selected', 'Summary'), fallback], 2);
+
+		await expect(provider.summarizeVideo('id', 'prompt')).resolves.toBe('Summary');
+		expect(provider.getLastModelId()).toBe('selected');
+		expect(fallback.provider.summarizeVideo).not.toHaveBeenCalled();
+	});
+
+	it('retries transient errors with backoff before falling back', async () => {
+		jest.useFakeTimers();
+		const selected = createModel('selected', TRANSIENT, TRANSIENT, 'Summary');
+		const provider = new FallbackProvider([selected, createModel('fallback', 'Fallback summary')], 2);
+
+		const summary = provider.summarizeVideo('id', 'prompt');
+		await jest.advanceTimersByTimeAsync(1000);
+		expect(selected.provider.summarizeVideo).toHaveBeenCalledTimes(2);
+		await jest.advanceTimersByTimeAsync(2000);
+
+		await expect(summary).resolves.toBe('Summary');
+		expect(selected.provider.summarizeVideo).toHaveBeenCalledTimes(3);
+	});
+
+	it('falls through to the next model once the retries of a transient error are exhausted', async () => {
+		const onFallback = jest.fn();
+		const selected = createModel('selected', TRANSIENT);
+		const provider = new FallbackProvider([selected, createModel('fallback', 'Fallback summary')], 0, onFallback);
+
+		await expect(provider.summarizeVideo('id', 'prompt')).resolves.toBe('Fallback summary');
+		expect(provider.getLastModelId()).toBe('fallback');
+		expect(onFallback).toHaveBeenCalledWith('selected', 'fallback', TRANSIENT);
+	});
+
+	it('falls through without retrying other errors', async () => {
+		const selected = createModel('selected', PERMANENT);
+		const provider = new FallbackProvider([selected, createModel('fallback', 'Fallback summary')], 2);
+
+		await expect(provider.summarizeVideo('id', 'prompt')).resolves.toBe('Fallback summary');
+		expect(selected.provider.summarizeVideo).toHaveBeenCalledTimes(1);
+	});
+
+	it('falls through on truncated responses, except from the last model', async () => {
+		const provider = new FallbackProvider([
+			createModel('selected', `Summary${TRUNCATION_NOTICE}`),
+			createModel('fallback', `Fallback summary${TRUNCATION_NOTICE}`),
+		], 0);
+
+		await expect(provider.summarizeVideo('id', 'prompt')).resolves.toBe(`Fallback summary${TRUNCATION_NOTICE}`);
+	});
+
+	it('throws the error of the last model when every model fails', async () => {
+		const provider = new FallbackProvider([createModel('selected', TRANSIENT), createModel('fallback', PERMANENT)], 0);
+		await expect(provider.summarizeVideo('id', 'prompt')).rejects.toBe(PERMANENT);
+	});
+
+	it('does not fall through once cancelled', async () => {
+		const controller = new AbortController();
+		const selected = createModel('selected');
+		selected.provider.summarizeVideo.mockImplementation(async () => {
+			controller.abort();
+			throw new Error('Aborted');
+		});
+		const fallback = createModel('fallback', 'Fallback summary');
+		const provider = new FallbackProvider([selected, fallback], 2);
+
+		await expect(provider.summarizeVideo('id', 'prompt', controller.signal)).rejects.toThrow('Aborted');
+		expect(fallback.provider.summarizeVideo).not.toHaveBeenCalled();
+	});
+
+	it('tags the usage with the model that reported it', async () => {
+		const onUsage = jest.fn();
+		const selected = createModel('selected');
+		selected.provider.summarizeVideo.mockImplementation(async (videoId, prompt, signal, report) => {
+			report?.({ inputTokens: 10, outputTokens: 1 });
+			throw PERMANENT;
+		});
+		const provider = new FallbackProvider([selected, createModel('fallback', 'Fallback summary')], 0);
+
+		await provider.summarizeVideo('id', 'prompt', undefined, onUsage);
+		expect(onUsage).toHaveBeenCalledWith({ inputTokens: 10, outputTokens: 1, modelId: 'selected' });
+	});
+
+	it('asks the selected model for cached responses', async () => {
+		const selected = createModel('selected');
+		selected.provider.hasCachedResponse = jest.fn().mockResolvedValue(true);
+		const provider = new FallbackProvider([selected, createModel('fallback')], 0);
+
+		await expect(provider.hasCachedResponse('prompt')).resolves.toBe(true);
+	});
+
+	describe('streaming', () => {
+		it('falls through before the first delta', async () => {
+			const selected = createModel('selected');
+			selected.provider.streamSummary = () => failingStream([], TRANSIENT);
+			const provider = new FallbackProvider([selected, createModel('fallback', 'Fallback summary')], 0);
+
+			await expect(collect(provider.streamSummary?.('id', 'prompt') as AsyncGenerator<string>)).resolves.toEqual(['Fallback summary']);
+			expect(provider.getLastModelId()).toBe('fallback');
+		});
+
+		it('fails once a delta was streamed', async () => {
+			const selected = createModel('selected');
+			selected.provider.streamSummary = () => failingStream(['Sum'], TRANSIENT);
+			const fallback = createModel('fallback', 'Fallback summary');
+			const provider = new FallbackProvider([selected, fallback], 2);
+
+			await expect(collect(provider.streamSummary?.('id', 'prompt') as AsyncGenerator<string>)).rejects.toBe(TRANSIENT);
+			expect(fallback.provider.summarizeVideo).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,177 @@
+import { AIModelProvider, UsageCallback } from 'src/types';
+import { TRUNCATION_NOTICE } from 'src/constants';
+
+/** A model of a fallback chain */
+export interface FallbackModel {
+    /** The model identifier, e.g. `OpenAI:gpt-4o-mini` */
+    id: string;
+    provider: AIModelProvider;
+}
+
+/**
+ * Provider trying an ordered chain of models: transient errors are retried with exponential backoff,
+ * then failed or truncated responses make it switch to the next model.
+ */
+export class FallbackProvider implements AIModelProvider {
+    private static readonly BASE_DELAY_MS = 1000;
+
+    streamSummary?: (videoId: string, prompt: string, signal?: AbortSignal, onUsage?: UsageCallback) => AsyncGenerator<string>;
+    private lastModelId: string | null = null;
+
+    /**
+     * Creates an instance of FallbackProvider.
+     * @param models - The models to try, in order. The first one is the selected model.
+     * @param maxRetries - How many times a transient error is retried before switching to the next model.
+     * @param onFallback - Callback called when switching to the next model.
+     */
+    constructor(
+        private models: FallbackModel[],
+        private maxRetries: number,
+        private onFallback?: (failedId: string, nextId: string, error: Error) => void
+    ) {
+        if (models.length === 0) {
+            throw new Error('No model to generate the summary with');
+        }
+        if (models.some(model => model.provider.streamSummary)) {
+            this.streamSummary = (videoId, prompt, signal, onUsage) => this.stream(videoId, prompt, signal, onUsage);
+        }
+    }
+
+    /** Gets the identifier of the model that produced the last response, null before any response */
+    getLastModelId(): string | null {
+        return this.lastModelId;
+    }
+
+    async testConnection(): Promise<boolean> {
+        return this.models[0].provider.testConnection();
+    }
+
+    isTransientError(error: unknown): boolean {
+        return this.models.some(model => model.provider.isTransientError?.(error));
+    }
+
+    /** Only the selected model counts, the fallback models are asked when it fails */
+    async hasCachedResponse(prompt: string): Promise<boolean> {
+        return this.models[0].provider.hasCachedResponse?.(prompt) ?? false;
+    }
+
+    /** Reports the usage of every model tried, including discarded truncated responses, tagged with the model identifier */
+    async summarizeVideo(videoId: string, prompt: string, signal?: AbortSignal, onUsage?: UsageCallback): Promise<string> {
+        let lastError: unknown;
+        for (const [index, model] of this.models.entries()) {
+            try {
+                const response = await this.withRetries(
+                    model,
+                    () => model.provider.summarizeVideo(videoId, prompt, signal, FallbackProvider.tagUsage(model, onUsage)),
+                    signal
+                );
+                // The last model's truncated response is still better than none
+                if (response.endsWith(TRUNCATION_NOTICE) && index < this.models.length - 1) {
+                    throw new Error('Summary truncated due to max token limit');
+                }
+                this.lastModelId = model.id;
+                return response;
+            } catch (error) {
+                if (signal?.aborted) throw error;
+                lastError = error;
+                this.notifyFallback(index, error);
+            }
+        }
+        throw lastError;
+    }
+
+    /**
+     * Streams the summary of the first model that works. Switching to the next model is only possible
+     * until the first delta, a stream failing afterwards is failing the whole summary.
+     */
+    private async *stream(videoId: string, prompt: string, signal?: AbortSignal, onUsage?: UsageCallback): AsyncGenerator<string> {
+        let lastError: unknown;
+        for (const [index, model] of this.models.entries()) {
+            const upstream = model.provider.streamSummary;
+            let emitted = false;
+            try {
+                if (!upstream) {
+                    const response = await this.withRetries(
+                        model,
+                        () => model.provider.summarizeVideo(videoId, prompt, signal, FallbackProvider.tagUsage(model, onUsage)),
+                        signal
+                    );
+                    if (response.endsWith(TRUNCATION_NOTICE) && index < this.models.length - 1) {
+                        throw new Error('Summary truncated due to max token limit');
+                    }
+                    this.lastModelId = model.id;
+                    yield response;
+                    return;
+                }
+
+                for (let attempt = 0; ; attempt++) {
+                    try {
+                        for await (const delta of upstream.call(model.provider, videoId, prompt, signal, FallbackProvider.tagUsage(model, onUsage))) {
+                            emitted = true;
+                            this.lastModelId = model.id;
+                            yield delta;
+                        }
+                        return;
+                    } catch (error) {
+                        if (emitted || attempt >= this.maxRetries || !this.isRetryable(model, error, signal)) {
+                            throw error;
+                        }
+                        await this.backoff(model, attempt, error, signal);
+                    }
+                }
+            } catch (error) {
+                if (signal?.aborted || emitted) throw error;
+                lastError = error;
+                this.notifyFallback(index, error);
+            }
+        }
+        throw lastError;
+    }
+
+    private async withRetries<T>(model: FallbackModel, request: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await request();
+            } catch (error) {
+                if (attempt >= this.maxRetries || !this.isRetryable(model, error, signal)) {
+                    throw error;
+                }
+                await this.backoff(model, attempt, error, signal);
+            }
+        }
+    }
+
+    private static tagUsage(model: FallbackModel, onUsage?: UsageCallback): UsageCallback | undefined {
+        return onUsage && (usage => onUsage({ ...usage, modelId: model.id }));
+    }
+
+    private isRetryable(model: FallbackModel, error: unknown, signal?: AbortSignal): boolean {
+        return !signal?.aborted && (model.provider.isTransientError?.(error) ?? false);
+    }
+
+    /** Waits 1, 2, 4... seconds before the next attempt, or until the signal is aborted */
+    private backoff(model: FallbackModel, attempt: number, error: unknown, signal?: AbortSignal): Promise<void> {
+        const delay = FallbackProvider.BASE_DELAY_MS * 2 ** attempt;
+        console.warn(`${model.id} failed, retrying in ${delay / 1000}s:`, error);
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(new Error('Aborted'));
+            };
+            const timer = setTimeout(() => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            }, delay);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    private notifyFallback(index: number, error: unknown): void {
+        const next = this.models[index + 1];
+        if (!next) return;
+
+        const failed = this.models[index];
+        console.warn(`${failed.id} failed, falling back to ${next.id}:`, error);
+        this.onFallback?.(failed.id, next.id, error instanceof Error ? error : new Error(String(error)));
+    }
+}
@@ -1,22 +1,20 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { AIModelProvider } from 'src/types';
+import { GenerationConfig, GenerativeModel, GoogleGenerativeAI, GoogleGenerativeAIFetchError, UsageMetadata } from '@google/generative-ai';
+import { AIModelProvider, GenerationParameters, TokenUsage, UsageCallback } from 'src/types';
+import { RETRYABLE_STATUS_CODES, TRUNCATION_NOTICE } from 'src/constants';
 
 export class GeminiProvider implements AIModelProvider {
     private client: GoogleGenerativeAI;
     private model: string;
-    private maxTokens: number;
-    private temperature: number;
+    private parameters: GenerationParameters;
 
     constructor(
         apiKey: string,
         model: string,
-        maxTokens: number,
-        temperature: number
+        parameters: GenerationParameters
     ) {
         this.client = new GoogleGenerativeAI(apiKey);
         this.model = model;
-        this.maxTokens = maxTokens;
-        this.temperature = temperature;
+        this.parameters = parameters;
     }
 
     async testConnection(): Promise<boolean> {
@@ -26,26 +24,31 @@ export class GeminiProvider implements AIModelProvider {
             return true;
         } catch (error) {
             console.error('Gemini connection test failed:', error);
-            return false;
+            throw error;
         }
     }
 
-    async summarizeVideo(videoId: string, prompt: string): Promise<string> {
-        const model = this.client.getGenerativeModel({
-            model: this.model,
-            generationConfig: {
-                maxOutputTokens: this.maxTokens,
-                temperature: this.temperature
-            }
-        });
+    isTransientError(error: unknown): boolean {
+        if (error instanceof GoogleGenerativeAIFetchError) {
+            return RETRYABLE_STATUS_CODES.includes(error.status ?? 0);
+        }
+        // fetch rejects with a TypeError when the network request fails
+        return error instanceof TypeError;
+    }
+
+    async summarizeVideo(videoId: string, prompt: string, signal?: AbortSignal, onUsage?: UsageCallback): Promise<string> {
+        const model = this.getGenerativeModel();
 
         try {
-            const result = await model.generateContent(prompt);
+            const result = await model.generateContent(prompt, { signal });
             const response = await result.response;
+            if (response.usageMetadata) {
+                onUsage?.(GeminiProvider.toTokenUsage(response.usageMetadata));
+            }
             let text = response.text();
             
             if (response.candidates && response.candidates[0] && response.candidates[0].finishReason === 'MAX_TOKENS') {
-                text += '\n\n[Summary truncated due to max token limit. Please increase "Max Tokens" in settings.]';
+                text += TRUNCATION_NOTICE;
             }
             
             return text;
@@ -54,4 +57,58 @@ export class GeminiProvider implements AIModelProvider {
             throw error;
         }
     }
+
+    async *streamSummary(videoId: string, prompt: string, signal?: AbortSignal, onUsage?: UsageCallback): AsyncGenerator<string> {
+        const model = this.getGenerativeModel();
+
+        try {
+            const result = await model.generateContentStream(prompt, { signal });
+            // Every chunk carries the usage so far, the last one the total
+            let usageMetadata: UsageMetadata | undefined;
+            for await (const chunk of result.stream) {
+                usageMetadata = chunk.usageMetadata ?? usageMetadata;
+                const text = chunk.text();
+                if (text) {
+                    yield text;
+                }
+                if (chunk.candidates && chunk.candidates[0] && chunk.candidates[0].finishReason === 'MAX_TOKENS') {
+                    yield TRUNCATION_NOTICE;
+                }
+            }
+            if (usageMetadata) {
+                onUsage?.(GeminiProvider.toTokenUsage(usageMetadata));
+            }
+        } catch (error) {
+            console.error('Error streaming summary with Gemini:', error);
+            throw error;
+        }
+    }
+
+    private static toTokenUsage(usage: UsageMetadata & { thoughtsTokenCount?: number }): TokenUsage {
+        return {
+            inputTokens: usage.promptTokenCount,
+            // Thinking tokens are billed as output, but not typed by this version of the SDK
+            outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+            cachedInputTokens: usage.cachedContentTokenCount
+        };
+    }
+
+    private getGenerativeModel(): GenerativeModel {
+        const { maxTokens, temperature, topP, thinkingBudget } = this.parameters;
+        const generationConfig: GenerationConfig & { thinkingConfig?: { thinkingBudget: number } } = {
+            maxOutputTokens: maxTokens,
+            temperature
+        };
+        if (topP !== undefined) {
+            generationConfig.topP = topP;
+        }
+        // Not typed by this version of the SDK, but passed to the API as is; 0 turns thinking off on Flash models
+        if (thinkingBudget !== undefined) {
+            generationConfig.thinkingConfig = { thinkingBudget };
+        }
+        return this.client.getGenerativeModel({
+            model: this.model,
+            generationConfig
+        });
+    }
 }
@@ -0,0 +1,176 @@
+import { AIModelProvider, GenerationParameters, UsageCallback } from 'src/types';
+import { RETRYABLE_STATUS_CODES, TRUNCATION_NOTICE } from 'src/constants';
+import { DEFAULT_OLLAMA_URL } from 'src/defaults';
+
+/** A chunk of an Ollama chat response, the whole response when not streamed */
+interface OllamaChatResponse {
+    message?: { content?: string };
+    done?: boolean;
+    done_reason?: string;
+    /** Number of prompt tokens, in the last chunk */
+    prompt_eval_count?: number;
+    /** Number of generated tokens, in the last chunk */
+    eval_count?: number;
+    error?: string;
+}
+
+/** Error response of the Ollama server */
+class OllamaError extends Error {
+    constructor(message: string, public status: number) {
+        super(message);
+        this.name = 'OllamaError';
+    }
+}
+
+/**
+ * Provider for models running locally with Ollama, using its native chat API.
+ * No API key is required.
+ */
+export class OllamaProvider implements AIModelProvider {
+    private baseUrl: string;
+
+    /**
+     * Creates an instance of OllamaProvider.
+     * @param model - Name of the installed model, e.g. `llama3.1:8b`.
+     * @param parameters - Generation parameters; the maximum number of tokens is sent as `num_predict`.
+     * @param baseUrl - URL of the Ollama server, defaults to `http://localhost:11434`.
+     * @param contextWindow - Context window in tokens (`num_ctx`), Ollama's default when not set.
+     */
+    constructor(
+        private model: string,
+        private parameters: GenerationParameters,
+        baseUrl?: string,
+        private contextWindow?: number
+    ) {
+        this.baseUrl = OllamaProvider.normalizeUrl(baseUrl);
+    }
+
+    /**
+     * Lists the models installed on an Ollama server
+     * @param baseUrl - URL of the Ollama server, defaults to `http://localhost:11434`
+     * @returns The names of the installed models
+     * @throws Error if the server can't be reached
+     */
+    static async listModels(baseUrl?: string): Promise<string[]> {
+        const response = await fetch(`${OllamaProvider.normalizeUrl(baseUrl)}/api/tags`);
+        if (!response.ok) {
+            throw new OllamaError(`Ollama returned status ${response.status}`, response.status);
+        }
+        const data = await response.json();
+        return (data.models ?? []).map((model: { name: string }) => model.name);
+    }
+
+    async testConnection(): Promise<boolean> {
+        try {
+            // Models pulled without a tag are listed with the `latest` tag
+            const models = await OllamaProvider.listModels(this.baseUrl);
+            return models.includes(this.model) || models.includes(`${this.model}:latest`);
+        } catch (error) {
+            console.error('Ollama connection test failed:', error);
+            throw error;
+        }
+    }
+
+    isTransientError(error: unknown): boolean {
+        // A server that is not running is not retried, it won't start by itself
+        return error instanceof OllamaError && RETRYABLE_STATUS_CODES.includes(error.status);
+    }
+
+    async summarizeVideo(videoId: string, prompt: string, signal?: AbortSignal, onUsage?: UsageCallback): Promise<string> {
+        try {
+            const response = await this.chat(prompt, false, signal);
+            const data: OllamaChatResponse = await response.json();
+            OllamaProvider.reportUsage(data, onUsage);
+
+            let text = data.message?.content || '';
+            if (data.done_reason === 'length') {
+                text += TRUNCATION_NOTICE;
+            }
+            return text;
+        } catch (error) {
+            console.error('Error generating summary with Ollama:', error);
+            throw error;
+        }
+    }
+
+    async *streamSummary(videoId: string, prompt: string, signal?: AbortSignal, onUsage?: UsageCallback): AsyncGenerator<string> {
+        try {
+            const response = await this.chat(prompt, true, signal);
+            if (!response.body) {
+                throw new Error('Ollama returned an empty response');
+            }
+
+            // The response is a stream of JSON objects, one per line
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+            for (;;) {
+                const { done, value } = await reader.read();
+                buffer += decoder.decode(value, { stream: !done });
+
+                const lines = buffer.split('\n');
+                buffer = done ? '' : lines.pop() ?? '';
+                for (const line of lines.filter(line => line.trim())) {
+                    const chunk: OllamaChatResponse = JSON.parse(line);
+                    if (chunk.error) {
+                        throw new Error(chunk.error);
+                    }
+                    if (chunk.message?.content) {
+                        yield chunk.message.content;
+                    }
+                    if (chunk.done_reason === 'length') {
+                        yield TRUNCATION_NOTICE;
+                    }
+                    if (chunk.done) {
+                        OllamaProvider.reportUsage(chunk, onUsage);
+                    }
+                }
+                if (done) break;
+            }
+        } catch (error) {
+            console.error('Error streaming summary with Ollama:', error);
+            throw error;
+        }
+    }
+
+    private async chat(prompt: string, stream: boolean, signal?: AbortSignal): Promise<Response> {
+        const options: Record<string, number> = {
+            temperature: this.parameters.temperature,
+            num_predict: this.parameters.maxTokens
+        };
+        if (this.parameters.topP !== undefined) {
+            options.top_p = this.parameters.topP;
+        }
+        if (this.contextWindow) {
+            options.num_ctx = this.contextWindow;
+        }
+
+        const response = await fetch(`${this.baseUrl}/api/chat`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                model: this.model,
+                messages: [{ role: 'user', content: prompt }],
+                stream,
+                options
+            }),
+            signal
+        });
+        if (!response.ok) {
+            const data: OllamaChatResponse = await response.json().catch(() => ({}));
+            throw new OllamaError(data.error || `Ollama returned status ${response.status}`, response.status);
+        }
+        return response;
+    }
+
+    private static reportUsage(response: OllamaChatResponse, onUsage?: UsageCallback): void {
+        // The prompt is not counted again when Ollama reuses it from a previous request
+        if (response.eval_count !== undefined) {
+            onUsage?.({ inputTokens: response.prompt_eval_count ?? 0, outputTokens: response.eval_count });
+        }
+    }
+
+    private static normalizeUrl(baseUrl?: string): string {
+        return (baseUrl?.trim() || DEFAULT_OLLAMA_URL).replace(/\/+$/, '');
+    }
+}
@@ -1,17 +1,25 @@
 import OpenAI from 'openai';
-import { AIModelProvider } from 'src/types';
+import { AIModelProvider, GenerationParameters, TokenUsage, UsageCallback } from 'src/types';
+import { RETRYABLE_STATUS_CODES, TRUNCATION_NOTICE } from 'src/constants';
+
+/** Generation parameters of a chat completion request */
+type CompletionParameters = Pick<
+    OpenAI.Chat.ChatCompletionCreateParams,
+    'max_tokens' | 'max_completion_tokens' | 'temperature' | 'top_p' | 'reasoning_effort'
+>;
 
 export class OpenAIProvider implements AIModelProvider {
+    // Reasoning models reject the temperature and require max_completion_tokens, also behind compatible endpoints like OpenRouter
+    private static readonly REASONING_MODELS = /(^|\/)(o\d|gpt-5)/i;
+
     private client: OpenAI;
     private model: string;
-    private maxTokens: number;
-    private temperature: number;
+    private parameters: GenerationParameters;
 
     constructor(
         apiKey: string,
         model: string,
-        maxTokens: number,
-        temperature: number,
+        parameters: GenerationParameters,
         baseUrl?: string
     ) {
         this.client = new OpenAI({
@@ -20,8 +28,7 @@ export class OpenAIProvider implements AIModelProvider {
             dangerouslyAllowBrowser: true // required to run inside the browser-like Obsidian
         });
         this.model = model;
-        this.maxTokens = maxTokens;
-        this.temperature = temperature;
+        this.parameters = parameters;
     }
 
     async testConnection(): Promise<boolean> {
@@ -30,23 +37,32 @@ export class OpenAIProvider implements AIModelProvider {
             return true;
         } catch (error) {
             console.error('OpenAI connection test failed:', error);
-            return false;
+            throw error;
         }
     }
 
-    async summarizeVideo(videoId: string, prompt: string): Promise<string> {
+    isTransientError(error: unknown): boolean {
+        if (error instanceof OpenAI.APIUserAbortError) return false;
+        if (error instanceof OpenAI.APIConnectionError) return true;
+        return error instanceof OpenAI.APIError && RETRYABLE_STATUS_CODES.includes(error.status ?? 0);
+    }
+
+    async summarizeVideo(videoId: string, prompt: string, signal?: AbortSignal, onUsage?: UsageCallback): Promise<string> {
         try {
             const completion = await this.client.chat.completions.create({
                 model: this.model,
                 messages: [{ role: 'user', content: prompt }],
-                max_tokens: this.maxTokens,
-                temperature: this.temperature
-            });
+                ...this.getCompletionParameters()
+            }, { signal });
+
+            if (completion.usage) {
+                onUsage?.(OpenAIProvider.toTokenUsage(completion.usage));
+            }
 
             let text = completion.choices[0]?.message?.content || '';
             
             if (completion.choices[0]?.finish_reason === 'length') {
-                text += '\n\n[Summary truncated due to max token limit. Please increase "Max Tokens" in settings.]';
+                text += TRUNCATION_NOTICE;
             }
 
             return text;
@@ -55,4 +71,64 @@ export class OpenAIProvider implements AIModelProvider {
             throw error;
         }
     }
+
+    async *streamSummary(videoId: string, prompt: string, signal?: AbortSignal, onUsage?: UsageCallback): AsyncGenerator<string> {
+        try {
+            const stream = await this.client.chat.completions.create({
+                model: this.model,
+                messages: [{ role: 'user', content: prompt }],
+                ...this.getCompletionParameters(),
+                stream: true,
+                // The usage is sent in a last chunk without choices
+                stream_options: { include_usage: true }
+            }, { signal });
+
+            for await (const chunk of stream) {
+                if (chunk.usage) {
+                    onUsage?.(OpenAIProvider.toTokenUsage(chunk.usage));
+                }
+                const choice = chunk.choices[0];
+                if (choice?.delta?.content) {
+                    yield choice.delta.content;
+                }
+                if (choice?.finish_reason === 'length') {
+                    yield TRUNCATION_NOTICE;
+                }
+            }
+        } catch (error) {
+            console.error('Error streaming summary with OpenAI:', error);
+            throw error;
+        }
+    }
+
+    private static toTokenUsage(usage: OpenAI.CompletionUsage): TokenUsage {
+        return {
+            inputTokens: usage.prompt_tokens,
+            // Reasoning tokens are counted in the completion tokens
+            outputTokens: usage.completion_tokens,
+            cachedInputTokens: usage.prompt_tokens_details?.cached_tokens
+        };
+    }
+
+    /**
+     * Gets the generation parameters supported by the model.
+     * Reasoning models get the reasoning effort instead of the temperature and top_p.
+     */
+    private getCompletionParameters(): CompletionParameters {
+        const { maxTokens, temperature, topP, reasoningEffort } = this.parameters;
+        if (reasoningEffort || OpenAIProvider.REASONING_MODELS.test(this.model)) {
+            const parameters: CompletionParameters = { max_completion_tokens: maxTokens };
+            if (reasoningEffort) {
+                // 'minimal' is only known to newer versions of the SDK
+                parameters.reasoning_effort = reasoningEffort as CompletionParameters['reasoning_effort'];
+            }
+            return parameters;
+        }
+
+        const parameters: CompletionParameters = { max_tokens: maxTokens, temperature };
+        if (topP !== undefined) {
+            parameters.top_p = topP;
+        }
+        return parameters;
+    }
 }
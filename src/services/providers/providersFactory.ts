@@ -1,39 +1,60 @@
-import { AIModelProvider, ModelConfig } from 'src/types';
+import { AIModelProvider, GenerationParameters, ModelConfig } from 'src/types';
 import { AnthropicProvider } from './anthropic';
 import { GeminiProvider } from './gemini';
 import { OpenAIProvider } from './openai';
+import { OllamaProvider } from './ollama';
 
 export class ProvidersFactory {
     static createProvider(config: ModelConfig, maxTokens: number, temperature: number): AIModelProvider {
         const { type, apiKey } = config.provider;
         const { name: model } = config;
+        const parameters = ProvidersFactory.resolveParameters(config, maxTokens, temperature);
 
         switch (type) {
             case 'anthropic':
                 return new AnthropicProvider(
                     apiKey,
                     model,
-                    maxTokens,
-                    temperature,
+                    parameters,
                     config.provider.url
                 );
             case 'openai':
                 return new OpenAIProvider(
                     apiKey,
                     model,
-                    maxTokens,
-                    temperature,
+                    parameters,
                     config.provider.url
                 );
             case 'gemini':
                 return new GeminiProvider(
                     apiKey,
                     model,
-                    maxTokens,
-                    temperature
+                    parameters
+                );
+            case 'ollama':
+                return new OllamaProvider(
+                    model,
+                    parameters,
+                    config.provider.url,
+                    config.contextWindow
                 );
             default:
                 throw new Error(`Unsupported provider type: ${type}`);
         }
     }
+
+    /**
+     * Resolves the generation parameters of a model, its own parameters overriding the global settings
+     * @param config - The model configuration
+     * @param maxTokens - The global maximum number of tokens
+     * @param temperature - The global temperature
+     * @returns The parameters sent by the provider, as far as the model supports them
+     */
+    static resolveParameters(config: ModelConfig, maxTokens: number, temperature: number): GenerationParameters {
+        return {
+            ...config.parameters,
+            maxTokens: config.parameters?.maxTokens ?? maxTokens,
+            temperature: config.parameters?.temperature ?? temperature
+        };
+    }
 } 
\ No newline at end of file
@@ -0,0 +1,151 @@
+import { DataAdapter } from 'obsidian';
+import { TRUNCATION_NOTICE } from 'src/constants';
+import { AIModelProvider, GenerationParameters } from 'src/types';
+import { CachedProvider } from './providers/cachedProvider';
+import { ResponseCache } from './responseCache';
+
+const FOLDER = '.obsidian/plugins/yt-video-summarizer/cache/responses';
+const MODEL_ID = 'OpenAI:gpt-4o-mini';
+const PARAMETERS: GenerationParameters = { maxTokens: 1000, temperature: 0.7 };
+
+/** Vault adapter keeping the files in memory */
+function createAdapter(): DataAdapter {
+	const files = new Map<string, string>();
+	return {
+		exists: async (path: string) => files.has(path) || [...files.keys()].some((file) => file.startsWith(`${path}/`)),
+		mkdir: async () => undefined,
+		read: async (path: string) => files.get(path) ?? '',
+		write: async (path: string, data: string) => {
+			files.set(path, data);
+		},
+		remove: async (path: string) => {
+			files.delete(path);
+		},
+		rmdir: async (path: string) => {
+			[...files.keys()].filter((file) => file.startsWith(`${path}/`)).forEach((file) => files.delete(file));
+		},
+		list: async (path: string) => ({ files: [...files.keys()].filter((file) => file.startsWith(`${path}/`)), folders: [] }),
+		stat: async (path: string) => ({ type: 'file', ctime: 0, mtime: 0, size: files.get(path)?.length ?? 0 }),
+	} as unknown as DataAdapter;
+}
+
+function createProvider(response: string): jest.Mocked<AIModelProvider> {
+	return {
+		testConnection: jest.fn(),
+		summarizeVideo: jest.fn().mockResolvedValue(response),
+	};
+}
+
+describe('ResponseCache.buildKey', () => {
+	it('builds a SHA-256 hash', async () => {
+		await expect(ResponseCache.buildKey('prompt', MODEL_ID, PARAMETERS)).resolves.toMatch(/^[0-9a-f]{64}$/);
+	});
+
+	it('does not depend on the order of the parameters', async () => {
+		const key = await ResponseCache.buildKey('prompt', MODEL_ID, { maxTokens: 1000, temperature: 0.7 });
+		await expect(ResponseCache.buildKey('prompt', MODEL_ID, { temperature: 0.7, maxTokens: 1000 })).resolves.toBe(key);
+	});
+
+	it.each([
+		['the prompt', 'other prompt', MODEL_ID, PARAMETERS],
+		['the model', 'prompt', 'OpenAI:gpt-4o', PARAMETERS],
+		['the max tokens', 'prompt', MODEL_ID, { ...PARAMETERS, maxTokens: 2000 }],
+		['the temperature', 'prompt', MODEL_ID, { ...PARAMETERS, temperature: 0.2 }],
+		['the thinking budget', 'prompt', MODEL_ID, { ...PARAMETERS, thinkingBudget: 1024 }],
+	])('depends on %s', async (_, prompt: string, modelId: string, parameters: GenerationParameters) => {
+		const key = await ResponseCache.buildKey('prompt', MODEL_ID, PARAMETERS);
+		await expect(ResponseCache.buildKey(prompt, modelId, parameters)).resolves.not.toBe(key);
+	});
+});
+
+describe('CachedProvider', () => {
+	let cache: ResponseCache;
+
+	beforeEach(() => {
+		cache = new ResponseCache(createAdapter(), FOLDER, 0, 50);
+	});
+
+	it('caches responses', async () => {
+		const provider = createProvider('Summary');
+		const cached = new CachedProvider(provider, cache, MODEL_ID, PARAMETERS);
+
+		await expect(cached.hasCachedResponse('prompt')).resolves.toBe(false);
+		await expect(cached.summarizeVideo('id', 'prompt')).resolves.toBe('Summary');
+		await expect(cached.summarizeVideo('id', 'prompt')).resolves.toBe('Summary');
+
+		expect(provider.summarizeVideo).toHaveBeenCalledTimes(1);
+		await expect(cached.hasCachedResponse('prompt')).resolves.toBe(true);
+	});
+
+	it('does not share responses between generation parameters', async () => {
+		const provider = createProvider('Summary');
+		await new CachedProvider(provider, cache, MODEL_ID, PARAMETERS).summarizeVideo('id', 'prompt');
+		await new CachedProvider(provider, cache, MODEL_ID, { ...PARAMETERS, maxTokens: 2000 }).summarizeVideo('id', 'prompt');
+
+		expect(provider.summarizeVideo).toHaveBeenCalledTimes(2);
+	});
+
+	it('does not cache truncated responses', async () => {
+		const provider = createProvider(`Summary${TRUNCATION_NOTICE}`);
+		const cached = new CachedProvider(provider, cache, MODEL_ID, PARAMETERS);
+
+		await cached.summarizeVideo('id', 'prompt');
+		await cached.summarizeVideo('id', 'prompt');
+
+		expect(provider.summarizeVideo).toHaveBeenCalledTimes(2);
+		await expect(cached.hasCachedResponse('prompt')).resolves.toBe(false);
+	});
+
+	it('does not cache empty responses', async () => {
+		const provider = createProvider('');
+		const cached = new CachedProvider(provider, cache, MODEL_ID, PARAMETERS);
+
+		await cached.summarizeVideo('id', 'prompt');
+		await expect(cached.hasCachedResponse('prompt')).resolves.toBe(false);
+	});
+
+	it('regenerates cached responses and caches the new ones', async () => {
+		await new CachedProvider(createProvider('Old summary'), cache, MODEL_ID, PARAMETERS).summarizeVideo('id', 'prompt');
+
+		const provider = createProvider('New summary');
+		const regenerated = new CachedProvider(provider, cache, MODEL_ID, PARAMETERS, true);
+		await expect(regenerated.hasCachedResponse('prompt')).resolves.toBe(false);
+		await expect(regenerated.summarizeVideo('id', 'prompt')).resolves.toBe('New summary');
+		await expect(new CachedProvider(provider, cache, MODEL_ID, PARAMETERS).summarizeVideo('id', 'prompt')).resolves.toBe(
+			'New summary'
+		);
+		expect(provider.summarizeVideo).toHaveBeenCalledTimes(1);
+	});
+
+	it('streams cached responses at once', async () => {
+		const provider: AIModelProvider = {
+			...createProvider(''),
+			streamSummary: async function* () {
+				yield 'Sum';
+				yield 'mary';
+			},
+		};
+		const cached = new CachedProvider(provider, cache, MODEL_ID, PARAMETERS);
+		const collect = async () => {
+			const deltas: string[] = [];
+			for await (const delta of cached.streamSummary?.('id', 'prompt') ?? []) {
+				deltas.push(delta);
+			}
+			return deltas;
+		};
+
+		await expect(collect()).resolves.toEqual(['Sum', 'mary']);
+		await expect(collect()).resolves.toEqual(['Summary']);
+	});
+
+	it('does not log cache hits', async () => {
+		const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+		const cached = new CachedProvider(createProvider('Summary'), cache, MODEL_ID, PARAMETERS);
+
+		await cached.summarizeVideo('id', 'prompt');
+		await cached.summarizeVideo('id', 'prompt');
+
+		expect(log).not.toHaveBeenCalled();
+		log.mockRestore();
+	});
+});
@@ -0,0 +1,44 @@
+import { GenerationParameters } from 'src/types';
+import { FileCache } from './fileCache';
+
+/**
+ * Persistent cache of generated summaries, stored as one file per request in a folder of the plugin directory.
+ * Entries are keyed by a hash of everything that determines the response: the final prompt, the model
+ * and its generation parameters. Summaries don't expire; the oldest ones are evicted beyond the size limit.
+ */
+export class ResponseCache extends FileCache<string> {
+	/**
+	 * Gets the cached response of a request
+	 * @param key - Key of the request, see `buildKey`
+	 * @returns The response, or null when it is not cached
+	 */
+	async get(key: string): Promise<string | null> {
+		return this.read(key);
+	}
+
+	/**
+	 * Stores the response of a request
+	 * @param key - Key of the request, see `buildKey`
+	 * @param response - The generated text
+	 */
+	async set(key: string, response: string): Promise<void> {
+		await this.write(key, response);
+	}
+
+	/**
+	 * Builds the key of a request
+	 * @param prompt - The final prompt sent to the model
+	 * @param modelId - The model identifier, e.g. `OpenAI:gpt-4o-mini`
+	 * @param parameters - Generation parameters of the model, such as max tokens and temperature
+	 * @returns The SHA-256 hash of the request, as hexadecimal string
+	 */
+	static async buildKey(prompt: string, modelId: string, parameters: GenerationParameters): Promise<string> {
+		// Sorted keys, so that the key doesn't depend on the order the parameters were set in
+		const sorted = Object.keys(parameters).sort().map((key) => [key, parameters[key as keyof GenerationParameters]]);
+		const data = new TextEncoder().encode(JSON.stringify([modelId, sorted, prompt]));
+		const digest = await crypto.subtle.digest('SHA-256', data);
+		return Array.from(new Uint8Array(digest))
+			.map((byte) => byte.toString(16).padStart(2, '0'))
+			.join('');
+	}
+}
@@ -0,0 +1,135 @@
+import { App } from 'obsidian';
+import YouTubeSummarizerPlugin from 'src/main';
+import { StoredSettings } from 'src/types';
+import { KeyStore } from './keyStore';
+import { SettingsManager } from './settingsManager';
+
+/** Plugin keeping its data and Obsidian's secret storage in memory */
+function createPlugin() {
+	const secrets = new Map<string, string>();
+	const app = {
+		secretStorage: {
+			getSecret: (id: string) => secrets.get(id) ?? null,
+			setSecret: (id: string, secret: string) => secrets.set(id, secret),
+		},
+	} as unknown as App;
+	let data: { settings: StoredSettings } | null = null;
+	const plugin = {
+		keyStore: new KeyStore(app),
+		pendingApiKeys: new Map<string, string>(),
+		loadData: async () => data && JSON.parse(JSON.stringify(data)),
+		saveData: jest.fn(async (saved: { settings: StoredSettings }) => {
+			data = JSON.parse(JSON.stringify(saved));
+		}),
+	};
+	return {
+		plugin,
+		secrets,
+		getData: () => data,
+		/** Builds a settings manager, like the plugin does again after each save */
+		load: async (): Promise<SettingsManager> => {
+			const manager = new SettingsManager(plugin as unknown as YouTubeSummarizerPlugin);
+			await manager.loadSettings();
+			return manager;
+		},
+	};
+}
+
+function getProvider(data: { settings: StoredSettings } | null, name: string) {
+	return data?.settings.providers.find((provider) => provider.name === name);
+}
+
+describe('SettingsManager API keys', () => {
+	it('keeps keys in the secret storage without a passphrase', async () => {
+		const { load, secrets, getData } = createPlugin();
+		const manager = await load();
+
+		await manager.saveProviderKey('OpenAI', 'sk-secret');
+
+		expect(getProvider(getData(), 'OpenAI')).toMatchObject({ apiKeyRef: { type: 'secret' } });
+		expect([...secrets.values()]).toContain('sk-secret');
+		expect((await load()).getApiKeyInput('OpenAI')).toBe('sk-secret');
+	});
+
+	it('encrypts keys of the secret storage once a passphrase is set', async () => {
+		const { load, secrets, getData } = createPlugin();
+		const manager = await load();
+		await manager.saveProviderKey('OpenAI', 'sk-secret');
+
+		await manager.setPassphrase('passphrase');
+
+		expect(getProvider(getData(), 'OpenAI')).toMatchObject({ apiKeyRef: { type: 'encrypted' } });
+		expect([...secrets.values()]).not.toContain('sk-secret');
+		expect(manager.getApiKeyStorage('OpenAI')).toBe('encrypted');
+	});
+
+	it('encrypts new keys rather than using the secret storage once unlocked', async () => {
+		const { load, secrets, getData } = createPlugin();
+		await (await load()).setPassphrase('passphrase');
+
+		await (await load()).saveProviderKey('OpenAI', 'sk-secret');
+
+		expect(getProvider(getData(), 'OpenAI')).toMatchObject({ apiKeyRef: { type: 'encrypted' } });
+		expect(secrets.size).toBe(0);
+		expect(JSON.stringify(getData())).not.toContain('sk-secret');
+	});
+
+	describe('while locked', () => {
+		async function createLockedPlugin() {
+			const locked = createPlugin();
+			await (await locked.load()).setPassphrase('passphrase');
+			// A new session, without the passphrase key
+			locked.plugin.keyStore = new KeyStore({} as App);
+			return locked;
+		}
+
+		it('refuses new keys', async () => {
+			const { load, getData } = await createLockedPlugin();
+			const manager = await load();
+			expect(manager.isLocked()).toBe(true);
+
+			await expect(manager.saveProviderKey('OpenAI', 'sk-plain')).rejects.toThrow(
+				'API keys are locked, unlock them with your passphrase first'
+			);
+			expect(JSON.stringify(getData())).not.toContain('sk-plain');
+		});
+
+		it('accepts references to environment variables', async () => {
+			const { load, getData } = await createLockedPlugin();
+
+			await (await load()).saveProviderKey('OpenAI', 'env:OPENAI_API_KEY');
+
+			expect(getProvider(getData(), 'OpenAI')).toMatchObject({ apiKeyRef: { type: 'env', variable: 'OPENAI_API_KEY' } });
+		});
+
+		it('accepts keys once unlocked', async () => {
+			const { load, getData } = await createLockedPlugin();
+			const manager = await load();
+
+			await expect(manager.unlockApiKeys('wrong')).resolves.toBe(false);
+			await expect(manager.unlockApiKeys('passphrase')).resolves.toBe(true);
+			await manager.saveProviderKey('OpenAI', 'sk-secret');
+
+			expect(getProvider(getData(), 'OpenAI')).toMatchObject({ apiKeyRef: { type: 'encrypted' } });
+		});
+	});
+
+	it('keeps the latest key when the settings are rebuilt while an earlier key is being stored', async () => {
+		const { plugin, load, getData } = createPlugin();
+		const store = jest.spyOn(plugin.keyStore, 'store');
+		let storeFirst: () => void = () => undefined;
+		store.mockImplementationOnce((id) => new Promise((resolve) => {
+			storeFirst = () => resolve({ type: 'secret', id });
+		}));
+
+		// Each keystroke saves the key, and each save rebuilds the settings manager
+		const first = (await load()).saveProviderKey('OpenAI', 'sk-a');
+		await (await load()).saveProviderKey('OpenAI', 'sk-ab');
+		storeFirst();
+		await first;
+
+		expect(plugin.pendingApiKeys.get('OpenAI')).toBe('sk-ab');
+		expect((await load()).getApiKeyInput('OpenAI')).toBe('sk-ab');
+		expect(getProvider(getData(), 'OpenAI')).toMatchObject({ apiKeyRef: { type: 'secret' } });
+	});
+});
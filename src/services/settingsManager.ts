@@ -1,23 +1,55 @@
 import YouTubeSummarizerPlugin from "src/main";
 import { Notice } from "obsidian";
-import { ModelConfig, PluginSettings, ProviderConfig, StoredModel, StoredProvider, StoredSettings } from "src/types";
-import { DEFAULT_PROVIDERS, DEFAULT_SELECTED_MODEL, DEFAULT_PROMPT, DEFAULT_MAX_TOKENS, DEFAULT_TEMPERATURE } from "src/defaults";
+import { ModelConfig, PluginSettings, ProviderConfig, StoredModel, StoredProvider, StoredSettings, TranscriptFormat, CaptionKind, PromptPreset, ModelParameters, ApiKeyStorage, ModelPricing, BudgetAction } from "src/types";
+import { KeyStore } from "src/services/keyStore";
+import { PricingService } from "src/services/pricing";
+import { DEFAULT_PROVIDERS, DEFAULT_SELECTED_MODEL, DEFAULT_PROMPT, DEFAULT_MAX_TOKENS, DEFAULT_TEMPERATURE, DEFAULT_NOTE_FOLDER, DEFAULT_NOTE_FILENAME_PATTERN, DEFAULT_ADD_FRONTMATTER, DEFAULT_NOTE_TEMPLATE, DEFAULT_NOTE_TEMPLATE_PATH, DEFAULT_TIMESTAMP_LINKS, DEFAULT_APPEND_TRANSCRIPT, DEFAULT_TRANSCRIPT_FORMAT, DEFAULT_CAPTION_LANGUAGES, DEFAULT_CAPTION_KIND, DEFAULT_TRANSLATE_CAPTIONS, DEFAULT_SUMMARY_LANGUAGE, DEFAULT_PROMPT_PRESETS, DEFAULT_PROMPT_NAME, DEFAULT_STREAM_OUTPUT, DEFAULT_CONCURRENT_JOBS, DEFAULT_CACHE_TRANSCRIPTS, DEFAULT_TRANSCRIPT_CACHE_TTL_DAYS, DEFAULT_TRANSCRIPT_CACHE_MAX_SIZE_MB, DEFAULT_CACHE_SUMMARIES, DEFAULT_FALLBACK_MODEL_IDS, DEFAULT_MAX_RETRIES, DEFAULT_CONFIRM_COST, DEFAULT_COST_CONFIRMATION_THRESHOLD, DEFAULT_MONTHLY_BUDGET, DEFAULT_BUDGET_ACTION } from "src/defaults";
 
 /** Manages plugin settings and provides methods to interact with them */
 export class SettingsManager implements PluginSettings {
     private plugin: YouTubeSummarizerPlugin;
     private settings: StoredSettings;
+    private keyStore: KeyStore;
+    // API keys read from the key storage, by provider name
+    private apiKeys = new Map<string, string>();
 
     /** Creates a new instance of SettingsManager */
     public constructor(plugin: YouTubeSummarizerPlugin) {
         this.plugin = plugin;
+        this.keyStore = plugin.keyStore;
         // loading default settings
         this.settings = {
             providers: this.cloneProviders(DEFAULT_PROVIDERS),
             selectedModelId: DEFAULT_SELECTED_MODEL,
             customPrompt: DEFAULT_PROMPT,
             maxTokens: DEFAULT_MAX_TOKENS,
-            temperature: DEFAULT_TEMPERATURE
+            temperature: DEFAULT_TEMPERATURE,
+            fallbackModelIds: DEFAULT_FALLBACK_MODEL_IDS,
+            maxRetries: DEFAULT_MAX_RETRIES,
+            confirmCost: DEFAULT_CONFIRM_COST,
+            costConfirmationThreshold: DEFAULT_COST_CONFIRMATION_THRESHOLD,
+            monthlyBudget: DEFAULT_MONTHLY_BUDGET,
+            budgetAction: DEFAULT_BUDGET_ACTION,
+            noteFolder: DEFAULT_NOTE_FOLDER,
+            noteFilenamePattern: DEFAULT_NOTE_FILENAME_PATTERN,
+            addFrontmatter: DEFAULT_ADD_FRONTMATTER,
+            noteTemplate: DEFAULT_NOTE_TEMPLATE,
+            noteTemplatePath: DEFAULT_NOTE_TEMPLATE_PATH,
+            timestampLinks: DEFAULT_TIMESTAMP_LINKS,
+            appendTranscript: DEFAULT_APPEND_TRANSCRIPT,
+            transcriptFormat: DEFAULT_TRANSCRIPT_FORMAT,
+            captionLanguages: DEFAULT_CAPTION_LANGUAGES,
+            captionKind: DEFAULT_CAPTION_KIND,
+            translateCaptions: DEFAULT_TRANSLATE_CAPTIONS,
+            summaryLanguage: DEFAULT_SUMMARY_LANGUAGE,
+            streamOutput: DEFAULT_STREAM_OUTPUT,
+            concurrentJobs: DEFAULT_CONCURRENT_JOBS,
+            cacheTranscripts: DEFAULT_CACHE_TRANSCRIPTS,
+            transcriptCacheTtlDays: DEFAULT_TRANSCRIPT_CACHE_TTL_DAYS,
+            transcriptCacheMaxSizeMb: DEFAULT_TRANSCRIPT_CACHE_MAX_SIZE_MB,
+            cacheSummaries: DEFAULT_CACHE_SUMMARIES,
+            promptPresets: DEFAULT_PROMPT_PRESETS.map(preset => ({ ...preset })),
+            keyEncryption: null
         };
     }
 
@@ -48,7 +80,33 @@ export class SettingsManager implements PluginSettings {
                 selectedModelId: oldSettings.selectedModel,
                 customPrompt: oldSettings.customPrompt,
                 maxTokens: oldSettings.maxTokens,
-                temperature: oldSettings.temperature
+                temperature: oldSettings.temperature,
+                fallbackModelIds: this.settings.fallbackModelIds,
+                maxRetries: this.settings.maxRetries,
+                confirmCost: this.settings.confirmCost,
+                costConfirmationThreshold: this.settings.costConfirmationThreshold,
+                monthlyBudget: this.settings.monthlyBudget,
+                budgetAction: this.settings.budgetAction,
+                noteFolder: this.settings.noteFolder,
+                noteFilenamePattern: this.settings.noteFilenamePattern,
+                addFrontmatter: this.settings.addFrontmatter,
+                noteTemplate: this.settings.noteTemplate,
+                noteTemplatePath: this.settings.noteTemplatePath,
+                timestampLinks: this.settings.timestampLinks,
+                appendTranscript: this.settings.appendTranscript,
+                transcriptFormat: this.settings.transcriptFormat,
+                captionLanguages: this.settings.captionLanguages,
+                captionKind: this.settings.captionKind,
+                translateCaptions: this.settings.translateCaptions,
+                summaryLanguage: this.settings.summaryLanguage,
+                streamOutput: this.settings.streamOutput,
+                concurrentJobs: this.settings.concurrentJobs,
+                cacheTranscripts: this.settings.cacheTranscripts,
+                transcriptCacheTtlDays: this.settings.transcriptCacheTtlDays,
+                transcriptCacheMaxSizeMb: this.settings.transcriptCacheMaxSizeMb,
+                cacheSummaries: this.settings.cacheSummaries,
+                promptPresets: this.settings.promptPresets,
+                keyEncryption: this.settings.keyEncryption
             };
 
             // Save in new format
@@ -60,12 +118,41 @@ export class SettingsManager implements PluginSettings {
                 selectedModelId: loaded?.settings.selectedModelId ?? this.settings.selectedModelId,
                 customPrompt: loaded?.settings.customPrompt ?? this.settings.customPrompt,
                 maxTokens: loaded?.settings.maxTokens ?? this.settings.maxTokens,
-                temperature: loaded?.settings.temperature ?? this.settings.temperature
+                temperature: loaded?.settings.temperature ?? this.settings.temperature,
+                fallbackModelIds: loaded?.settings.fallbackModelIds ?? this.settings.fallbackModelIds,
+                maxRetries: loaded?.settings.maxRetries ?? this.settings.maxRetries,
+                confirmCost: loaded?.settings.confirmCost ?? this.settings.confirmCost,
+                costConfirmationThreshold: loaded?.settings.costConfirmationThreshold ?? this.settings.costConfirmationThreshold,
+                monthlyBudget: loaded?.settings.monthlyBudget ?? this.settings.monthlyBudget,
+                budgetAction: loaded?.settings.budgetAction ?? this.settings.budgetAction,
+                noteFolder: loaded?.settings.noteFolder ?? this.settings.noteFolder,
+                noteFilenamePattern: loaded?.settings.noteFilenamePattern ?? this.settings.noteFilenamePattern,
+                addFrontmatter: loaded?.settings.addFrontmatter ?? this.settings.addFrontmatter,
+                noteTemplate: loaded?.settings.noteTemplate ?? this.settings.noteTemplate,
+                noteTemplatePath: loaded?.settings.noteTemplatePath ?? this.settings.noteTemplatePath,
+                timestampLinks: loaded?.settings.timestampLinks ?? this.settings.timestampLinks,
+                appendTranscript: loaded?.settings.appendTranscript ?? this.settings.appendTranscript,
+                transcriptFormat: loaded?.settings.transcriptFormat ?? this.settings.transcriptFormat,
+                captionLanguages: loaded?.settings.captionLanguages ?? this.settings.captionLanguages,
+                captionKind: loaded?.settings.captionKind ?? this.settings.captionKind,
+                translateCaptions: loaded?.settings.translateCaptions ?? this.settings.translateCaptions,
+                summaryLanguage: loaded?.settings.summaryLanguage ?? this.settings.summaryLanguage,
+                streamOutput: loaded?.settings.streamOutput ?? this.settings.streamOutput,
+                concurrentJobs: loaded?.settings.concurrentJobs ?? this.settings.concurrentJobs,
+                cacheTranscripts: loaded?.settings.cacheTranscripts ?? this.settings.cacheTranscripts,
+                transcriptCacheTtlDays: loaded?.settings.transcriptCacheTtlDays ?? this.settings.transcriptCacheTtlDays,
+                transcriptCacheMaxSizeMb: loaded?.settings.transcriptCacheMaxSizeMb ?? this.settings.transcriptCacheMaxSizeMb,
+                cacheSummaries: loaded?.settings.cacheSummaries ?? this.settings.cacheSummaries,
+                promptPresets: loaded?.settings.promptPresets ?? this.settings.promptPresets,
+                keyEncryption: loaded?.settings.keyEncryption ?? this.settings.keyEncryption
             };
         }
 
         const syncedBuiltIns = this.syncBuiltInProviders();
-        if (syncedBuiltIns) {
+        const migratedPricing = this.migratePricing();
+        const migratedKeys = await this.migrateApiKeys();
+        await this.readApiKeys();
+        if (syncedBuiltIns || migratedPricing || migratedKeys) {
             await this.saveData();
         }
     }
@@ -80,13 +167,21 @@ export class SettingsManager implements PluginSettings {
         return this.convertToModelConfig(found.model, found.provider);
     }
 
+    /** Gets the fallback models in order, skipping the ones that were deleted */
+    getFallbackModels(): ModelConfig[] {
+        return this.settings.fallbackModelIds.flatMap(modelId => {
+            const found = this.findModelAndProvider(modelId);
+            return found ? [this.convertToModelConfig(found.model, found.provider)] : [];
+        });
+    }
+
     /** Gets all available providers */
     getProviders(): ProviderConfig[] {
         return this.settings.providers.map(provider => ({
             name: provider.name,
             type: provider.type,
             isBuiltIn: provider.isBuiltIn,
-            apiKey: provider.apiKey,
+            apiKey: this.apiKeys.get(provider.name) ?? '',
             url: provider.url,
             models: provider.models.map(model => this.convertToModelConfig(model, provider))
         }));
@@ -114,10 +209,136 @@ export class SettingsManager implements PluginSettings {
         return this.settings.temperature;
     }
 
+    /** Gets the ids of the models tried in order when the selected model fails */
+    getFallbackModelIds(): string[] {
+        return this.settings.fallbackModelIds;
+    }
+
+    /** Gets how many times a transient error is retried before falling back */
+    getMaxRetries(): number {
+        return this.settings.maxRetries;
+    }
+
+    /** Gets whether the estimated cost of a summary is confirmed before sending the transcript */
+    getConfirmCost(): boolean {
+        return this.settings.confirmCost;
+    }
+
+    /** Gets the estimated cost in US dollars above which a summary is confirmed */
+    getCostConfirmationThreshold(): number {
+        return this.settings.costConfirmationThreshold;
+    }
+
+    /** Gets the monthly budget in US dollars (0 for no budget) */
+    getMonthlyBudget(): number {
+        return this.settings.monthlyBudget;
+    }
+
+    /** Gets whether summaries are only warned about or blocked once the monthly budget is spent */
+    getBudgetAction(): BudgetAction {
+        return this.settings.budgetAction;
+    }
+
+    /** Gets the folder where new summary notes are created */
+    getNoteFolder(): string {
+        return this.settings.noteFolder;
+    }
+
+    /** Gets the filename pattern for new summary notes */
+    getNoteFilenamePattern(): string {
+        return this.settings.noteFilenamePattern;
+    }
+
+    /** Gets whether video metadata is added to the note frontmatter */
+    getAddFrontmatter(): boolean {
+        return this.settings.addFrontmatter;
+    }
+
+    /** Gets the output note template */
+    getNoteTemplate(): string {
+        return this.settings.noteTemplate;
+    }
+
+    /** Gets the path of the template note in the vault */
+    getNoteTemplatePath(): string {
+        return this.settings.noteTemplatePath;
+    }
+
+    /** Gets whether the summary includes timestamped chapter links */
+    getTimestampLinks(): boolean {
+        return this.settings.timestampLinks;
+    }
+
+    /** Gets whether the transcript is appended to summaries */
+    getAppendTranscript(): boolean {
+        return this.settings.appendTranscript;
+    }
+
+    /** Gets the format of inserted transcripts */
+    getTranscriptFormat(): TranscriptFormat {
+        return this.settings.transcriptFormat;
+    }
+
+    /** Gets the preferred caption languages, in priority order */
+    getCaptionLanguages(): string[] {
+        return this.settings.captionLanguages;
+    }
+
+    /** Gets the preferred kind of caption track */
+    getCaptionKind(): CaptionKind {
+        return this.settings.captionKind;
+    }
+
+    /** Gets whether translated caption tracks are requested when no preferred language is available */
+    getTranslateCaptions(): boolean {
+        return this.settings.translateCaptions;
+    }
+
+    /** Gets the language of generated summaries (empty for the language of the video) */
+    getSummaryLanguage(): string {
+        return this.settings.summaryLanguage;
+    }
+
+    /** Gets whether summaries are written into the note while they are generated */
+    getStreamOutput(): boolean {
+        return this.settings.streamOutput;
+    }
+
+    /** Gets the maximum number of videos processed at the same time */
+    getConcurrentJobs(): number {
+        return this.settings.concurrentJobs;
+    }
+
+    /** Gets whether fetched transcripts are cached in the plugin folder */
+    getCacheTranscripts(): boolean {
+        return this.settings.cacheTranscripts;
+    }
+
+    /** Gets the number of days cached transcripts are used (0 to keep them until evicted) */
+    getTranscriptCacheTtlDays(): number {
+        return this.settings.transcriptCacheTtlDays;
+    }
+
+    /** Gets the maximum size of the transcript cache in megabytes */
+    getTranscriptCacheMaxSizeMb(): number {
+        return this.settings.transcriptCacheMaxSizeMb;
+    }
+
+    /** Gets whether generated summaries are cached and reused for identical requests */
+    getCacheSummaries(): boolean {
+        return this.settings.cacheSummaries;
+    }
+
+    /** Gets the named prompt presets */
+    getPromptPresets(): PromptPreset[] {
+        return this.settings.promptPresets.map(preset => ({ ...preset }));
+    }
+
     /** Adds a new provider */
-    addProvider(provider: ProviderConfig): void {
+    async addProvider(provider: ProviderConfig): Promise<void> {
+        const { apiKey, ...config } = provider;
         const storedProvider: StoredProvider = {
-            ...provider,
+            ...config,
             models: []
         };
 
@@ -125,8 +346,10 @@ export class SettingsManager implements PluginSettings {
             throw new Error('Invalid provider configuration');
         }
 
+        // The key is stored first, so a provider whose key can't be stored isn't added
+        await this.storeApiKey(storedProvider, apiKey);
         this.settings.providers.push(storedProvider);
-        this.saveData();
+        await this.saveData();
     }
 
     /** Adds a new model to a provider */
@@ -139,7 +362,9 @@ export class SettingsManager implements PluginSettings {
         const storedModel: StoredModel = {
             name: model.name,
             displayName: model.displayName || model.name,
-            pricing: model.pricing
+            pricing: model.pricing,
+            contextWindow: model.contextWindow,
+            parameters: model.parameters
         };
 
         if (!this.validateModel(storedModel, provider)) {
@@ -157,8 +382,12 @@ export class SettingsManager implements PluginSettings {
             throw new Error('Provider not found');
         }
 
+        // The key is changed with saveProviderKey, the provider config only carries the decrypted key
+        const { apiKey, ...config } = provider;
         const updatedProvider: StoredProvider = {
-            ...provider,
+            ...config,
+            apiKey: storedProvider.apiKey,
+            apiKeyRef: storedProvider.apiKeyRef,
             models: storedProvider.models
         };
 
@@ -168,11 +397,19 @@ export class SettingsManager implements PluginSettings {
 
         const index = this.settings.providers.indexOf(storedProvider);
         this.settings.providers[index] = updatedProvider;
+        this.apiKeys.set(updatedProvider.name, apiKey);
         this.saveData();
     }
 
     /** Updates an existing model */
-    updateModel(modelName: string, modelDisplayName: string, providerName: string): void {
+    updateModel(
+        modelName: string,
+        modelDisplayName: string,
+        providerName: string,
+        contextWindow?: number,
+        parameters?: ModelParameters,
+        pricing?: ModelPricing
+    ): void {
         const provider = this.settings.providers.find(p => p.name === providerName);
         if (!provider) {
             throw new Error('Provider not found');
@@ -186,7 +423,9 @@ export class SettingsManager implements PluginSettings {
         const storedModel: StoredModel = {
             name: modelName,
             displayName: modelDisplayName,
-            pricing: model.pricing
+            pricing,
+            contextWindow,
+            parameters
         };
 
         if (!this.validateModel(storedModel, provider, modelName)) {
@@ -195,9 +434,24 @@ export class SettingsManager implements PluginSettings {
 
         // Update the model
         model.displayName = modelDisplayName;
+        model.contextWindow = contextWindow;
+        model.parameters = parameters;
+        // The pricing of built-in models follows the defaults
+        if (!this.isBuiltInModel(providerName, modelName)) {
+            model.pricing = pricing;
+        }
         this.saveData();
     }
 
+    /** Tells whether a model is a default model of a built-in provider */
+    isBuiltInModel(providerName: string, modelName: string): boolean {
+        return DEFAULT_PROVIDERS.some(provider =>
+            provider.isBuiltIn
+            && provider.name === providerName
+            && provider.models.some(model => model.name === modelName)
+        );
+    }
+
     /** Deletes a provider */
     deleteProvider(provider: ProviderConfig): void {
         const storedProvider = this.settings.providers.find(p => p.name === provider.name);
@@ -212,6 +466,10 @@ export class SettingsManager implements PluginSettings {
             });
         }
 
+        if (storedProvider.apiKeyRef) {
+            this.keyStore.remove(storedProvider.apiKeyRef);
+        }
+
         const index = this.settings.providers.indexOf(storedProvider);
         this.settings.providers.splice(index, 1);
         this.saveData();
@@ -237,6 +495,9 @@ export class SettingsManager implements PluginSettings {
         if (this.settings.selectedModelId === this.makeModelId(providerName, modelName)) {
             this.settings.selectedModelId = null;
         }
+        this.settings.fallbackModelIds = this.settings.fallbackModelIds.filter(
+            modelId => modelId !== this.makeModelId(providerName, modelName)
+        );
 
         // Удалим модель из списка
         provider.models.splice(index, 1);
@@ -261,12 +522,192 @@ export class SettingsManager implements PluginSettings {
         this.saveData();
     }
 
+    /** Updates the ids of the fallback models */
+    updateFallbackModelIds(modelIds: string[]): void {
+        this.settings.fallbackModelIds = modelIds;
+        this.saveData();
+    }
+
+    /** Updates the number of retries of transient errors */
+    updateMaxRetries(retries: number): void {
+        this.settings.maxRetries = retries;
+        this.saveData();
+    }
+
+    /** Updates whether the estimated cost of a summary is confirmed */
+    updateConfirmCost(enabled: boolean): void {
+        this.settings.confirmCost = enabled;
+        this.saveData();
+    }
+
+    /** Updates the estimated cost in US dollars above which a summary is confirmed */
+    updateCostConfirmationThreshold(threshold: number): void {
+        this.settings.costConfirmationThreshold = threshold;
+        this.saveData();
+    }
+
+    /** Updates the monthly budget in US dollars */
+    updateMonthlyBudget(budget: number): void {
+        this.settings.monthlyBudget = budget;
+        this.saveData();
+    }
+
+    /** Updates whether summaries are warned about or blocked once the monthly budget is spent */
+    updateBudgetAction(action: BudgetAction): void {
+        this.settings.budgetAction = action;
+        this.saveData();
+    }
+
+    /** Updates the folder where new summary notes are created */
+    updateNoteFolder(folder: string): void {
+        this.settings.noteFolder = folder;
+        this.saveData();
+    }
+
+    /** Updates the filename pattern for new summary notes */
+    updateNoteFilenamePattern(pattern: string): void {
+        this.settings.noteFilenamePattern = pattern;
+        this.saveData();
+    }
+
+    /** Updates whether video metadata is added to the note frontmatter */
+    updateAddFrontmatter(enabled: boolean): void {
+        this.settings.addFrontmatter = enabled;
+        this.saveData();
+    }
+
+    /** Updates the output note template */
+    updateNoteTemplate(template: string): void {
+        this.settings.noteTemplate = template;
+        this.saveData();
+    }
+
+    /** Updates the path of the template note in the vault */
+    updateNoteTemplatePath(path: string): void {
+        this.settings.noteTemplatePath = path;
+        this.saveData();
+    }
+
+    /** Updates whether the summary includes timestamped chapter links */
+    updateTimestampLinks(enabled: boolean): void {
+        this.settings.timestampLinks = enabled;
+        this.saveData();
+    }
+
+    /** Updates whether the transcript is appended to summaries */
+    updateAppendTranscript(enabled: boolean): void {
+        this.settings.appendTranscript = enabled;
+        this.saveData();
+    }
+
+    /** Updates the format of inserted transcripts */
+    updateTranscriptFormat(format: TranscriptFormat): void {
+        this.settings.transcriptFormat = format;
+        this.saveData();
+    }
+
+    /** Updates the preferred caption languages */
+    updateCaptionLanguages(languages: string[]): void {
+        this.settings.captionLanguages = languages;
+        this.saveData();
+    }
+
+    /** Updates the preferred kind of caption track */
+    updateCaptionKind(kind: CaptionKind): void {
+        this.settings.captionKind = kind;
+        this.saveData();
+    }
+
+    /** Updates whether translated caption tracks are requested */
+    updateTranslateCaptions(enabled: boolean): void {
+        this.settings.translateCaptions = enabled;
+        this.saveData();
+    }
+
+    /** Updates the language of generated summaries */
+    updateSummaryLanguage(language: string): void {
+        this.settings.summaryLanguage = language;
+        this.saveData();
+    }
+
+    /** Updates whether summaries are written into the note while they are generated */
+    updateStreamOutput(enabled: boolean): void {
+        this.settings.streamOutput = enabled;
+        this.saveData();
+    }
+
+    /** Updates the maximum number of videos processed at the same time */
+    updateConcurrentJobs(count: number): void {
+        this.settings.concurrentJobs = count;
+        this.saveData();
+    }
+
+    /** Updates whether fetched transcripts are cached */
+    updateCacheTranscripts(enabled: boolean): void {
+        this.settings.cacheTranscripts = enabled;
+        this.saveData();
+    }
+
+    /** Updates the number of days cached transcripts are used */
+    updateTranscriptCacheTtlDays(days: number): void {
+        this.settings.transcriptCacheTtlDays = days;
+        this.saveData();
+    }
+
+    /** Updates the maximum size of the transcript cache */
+    updateTranscriptCacheMaxSizeMb(size: number): void {
+        this.settings.transcriptCacheMaxSizeMb = size;
+        this.saveData();
+    }
+
+    /** Updates whether generated summaries are cached */
+    updateCacheSummaries(enabled: boolean): void {
+        this.settings.cacheSummaries = enabled;
+        this.saveData();
+    }
+
 
     async updateActiveModel(modelId: string): Promise<void> {
         this.settings.selectedModelId = modelId;
         await this.saveData();
     }
 
+    /** Adds a new prompt preset */
+    addPromptPreset(preset: PromptPreset): void {
+        if (!this.validatePromptPreset(preset)) {
+            throw new Error('Invalid prompt configuration');
+        }
+
+        this.settings.promptPresets.push({ ...preset });
+        this.saveData();
+    }
+
+    /** Updates an existing prompt preset */
+    updatePromptPreset(preset: PromptPreset, originalName: string): void {
+        const index = this.settings.promptPresets.findIndex(p => p.name === originalName);
+        if (index === -1) {
+            throw new Error('Prompt not found');
+        }
+
+        if (!this.validatePromptPreset(preset, originalName)) {
+            throw new Error('Invalid prompt configuration');
+        }
+
+        this.settings.promptPresets[index] = { ...preset };
+        this.saveData();
+    }
+
+    /** Deletes a prompt preset */
+    deletePromptPreset(name: string): void {
+        const index = this.settings.promptPresets.findIndex(p => p.name === name);
+        if (index === -1) {
+            throw new Error(`Prompt not found: ${name}`);
+        }
+
+        this.settings.promptPresets.splice(index, 1);
+        this.saveData();
+    }
+
     /** Saves the API key for a provider without validation */
     async saveProviderKey(providerName: string, key: string): Promise<void> {
         const provider = this.settings.providers.find(p => p.name === providerName);
@@ -274,10 +715,159 @@ export class SettingsManager implements PluginSettings {
             throw new Error('Provider not found');
         }
 
-        provider.apiKey = key;
+        // A key replaced by a later keystroke while it was stored must not save the settings it was read with
+        if (await this.storeApiKey(provider, key)) {
+            await this.saveData();
+        }
+    }
+
+    /** Gets the API key of a provider as entered in the settings: the key, or the reference to an environment variable */
+    getApiKeyInput(providerName: string): string {
+        const provider = this.settings.providers.find(p => p.name === providerName);
+        if (provider?.apiKeyRef?.type === 'env') {
+            return `env:${provider.apiKeyRef.variable}`;
+        }
+        return this.apiKeys.get(providerName) ?? '';
+    }
+
+    /** Gets where the API key of a provider is kept */
+    getApiKeyStorage(providerName: string): ApiKeyStorage {
+        const provider = this.settings.providers.find(p => p.name === providerName);
+        if (provider?.apiKeyRef) {
+            return provider.apiKeyRef.type === 'encrypted' && !this.keyStore.isUnlocked() ? 'locked' : provider.apiKeyRef.type;
+        }
+        return provider?.apiKey ? 'plain' : 'none';
+    }
+
+    /** Tells whether Obsidian's secret storage is available to keep API keys */
+    hasSecretStorage(): boolean {
+        return this.keyStore.hasSecretStorage();
+    }
+
+    /** Tells whether a passphrase was set to encrypt API keys */
+    hasPassphrase(): boolean {
+        return this.settings.keyEncryption !== null;
+    }
+
+    /** Tells whether API keys are encrypted and the passphrase wasn't entered in this session */
+    isLocked(): boolean {
+        return this.hasPassphrase() && !this.keyStore.isUnlocked();
+    }
+
+    /** Sets the passphrase encrypting API keys, encrypting again the keys of all providers */
+    async setPassphrase(passphrase: string): Promise<void> {
+        if (this.isLocked()) {
+            throw new Error('Enter the current passphrase first');
+        }
+
+        this.settings.keyEncryption = await this.keyStore.createEncryption(passphrase);
+        for (const provider of this.settings.providers) {
+            // Keys of the secret storage are moved to the encrypted ones, the passphrase protecting all keys
+            if (provider.apiKey || provider.apiKeyRef?.type === 'encrypted' || provider.apiKeyRef?.type === 'secret') {
+                await this.storeApiKey(provider, this.apiKeys.get(provider.name) ?? '');
+            }
+        }
         await this.saveData();
     }
 
+    /** Decrypts the API keys with the passphrase, for the rest of the session */
+    async unlockApiKeys(passphrase: string): Promise<boolean> {
+        if (!this.settings.keyEncryption) return false;
+
+        const unlocked = await this.keyStore.unlock(passphrase, this.settings.keyEncryption);
+        if (unlocked) {
+            // Plain text keys, e.g. of older versions, are encrypted as well
+            await this.migrateApiKeys();
+            await this.saveData();
+        }
+        return unlocked;
+    }
+
+    /**
+     * Converts the free text pricing of older versions to prices, dropping the ones without prices.
+     * @returns Whether a pricing was converted.
+     */
+    private migratePricing(): boolean {
+        let migrated = false;
+        for (const provider of this.settings.providers) {
+            for (const model of provider.models) {
+                const pricing: unknown = model.pricing;
+                if (typeof pricing !== 'string') continue;
+
+                model.pricing = PricingService.parse(pricing);
+                migrated = true;
+            }
+        }
+        return migrated;
+    }
+
+    /**
+     * Moves plain text API keys, e.g. from older versions, to the key storage when one is available.
+     * @returns Whether a key was moved.
+     */
+    private async migrateApiKeys(): Promise<boolean> {
+        // Once unlocked, the keys are encrypted rather than moved to the secret storage
+        if (this.isLocked()) return false;
+
+        let migrated = false;
+        for (const provider of this.settings.providers) {
+            if (!provider.apiKey || provider.apiKeyRef) continue;
+
+            const ref = await this.keyStore.store(this.getSecretId(provider.name), provider.apiKey);
+            if (ref) {
+                provider.apiKeyRef = ref;
+                delete provider.apiKey;
+                migrated = true;
+            }
+        }
+        return migrated;
+    }
+
+    /** Reads the API keys of all providers from the key storage */
+    private async readApiKeys(): Promise<void> {
+        this.apiKeys.clear();
+        for (const provider of this.settings.providers) {
+            const apiKey = provider.apiKeyRef ? await this.keyStore.read(provider.apiKeyRef) : provider.apiKey;
+            this.apiKeys.set(provider.name, apiKey ?? '');
+        }
+    }
+
+    /**
+     * Keeps the API key of a provider in the key storage, in plain text only when no storage is available.
+     * @returns Whether the key was kept, false when a later key of the provider was entered while it was stored.
+     * @throws Error if a passphrase is set but wasn't entered, as the key couldn't be encrypted.
+     */
+    private async storeApiKey(provider: StoredProvider, apiKey: string): Promise<boolean> {
+        if (apiKey && this.isLocked() && !KeyStore.isEnvReference(apiKey)) {
+            throw new Error('API keys are locked, unlock them with your passphrase first');
+        }
+
+        const pendingKeys = this.plugin.pendingApiKeys;
+        pendingKeys.set(provider.name, apiKey);
+        const previousRef = provider.apiKeyRef;
+        const ref = apiKey ? await this.keyStore.store(this.getSecretId(provider.name), apiKey) : null;
+        if (pendingKeys.get(provider.name) !== apiKey) return false;
+        if (previousRef && previousRef.type === 'secret' && ref?.type !== 'secret') {
+            this.keyStore.remove(previousRef);
+        }
+
+        if (ref) {
+            provider.apiKeyRef = ref;
+            delete provider.apiKey;
+        } else {
+            provider.apiKey = apiKey;
+            delete provider.apiKeyRef;
+        }
+        this.apiKeys.set(provider.name, ref ? await this.keyStore.read(ref) ?? '' : apiKey);
+        return true;
+    }
+
+    /** Builds the identifier of the API key of a provider in the secret storage */
+    private getSecretId(providerName: string): string {
+        const slug = providerName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+        return `yt-video-summarizer-${slug || 'provider'}`;
+    }
+
     private async saveData(): Promise<void> {
         try {
             await this.plugin.saveData({
@@ -329,6 +919,27 @@ export class SettingsManager implements PluginSettings {
         return true;
     }
 
+    private validatePromptPreset(preset: PromptPreset, originalName?: string): boolean {
+        if (!preset.name.trim() || !preset.prompt.trim()) {
+            new Notice('Prompt validation failed: missing name or prompt');
+            return false;
+        }
+
+        // "Default" is reserved for the summary prompt
+        if (preset.name.trim().toLowerCase() === DEFAULT_PROMPT_NAME.toLowerCase()) {
+            new Notice(`Prompt validation failed: "${DEFAULT_PROMPT_NAME}" is reserved for the summary prompt`);
+            return false;
+        }
+
+        const existingPreset = this.settings.promptPresets.find(p => p.name === preset.name);
+        if (existingPreset && (!originalName || preset.name !== originalName)) {
+            new Notice('Prompt validation failed: name not unique');
+            return false;
+        }
+
+        return true;
+    }
+
     private findModelAndProvider(modelId: string): { model: StoredModel, provider: StoredProvider } | null {
         if (!modelId) {
             return null;
@@ -347,11 +958,13 @@ export class SettingsManager implements PluginSettings {
             name: model.name,
             displayName: model.displayName,
             pricing: model.pricing,
+            contextWindow: model.contextWindow,
+            parameters: model.parameters,
             provider: {
                 name: provider.name,
                 type: provider.type,
                 isBuiltIn: provider.isBuiltIn,
-                apiKey: provider.apiKey,
+                apiKey: this.apiKeys.get(provider.name) ?? '',
                 url: provider.url,
             }
         };
@@ -397,7 +1010,7 @@ export class SettingsManager implements PluginSettings {
                     return;
                 }
 
-                if (existingModel.pricing !== defaultModel.pricing) {
+                if (JSON.stringify(existingModel.pricing) !== JSON.stringify(defaultModel.pricing)) {
                     existingModel.pricing = defaultModel.pricing;
                     changed = true;
                 }
@@ -406,6 +1019,12 @@ export class SettingsManager implements PluginSettings {
                     existingModel.displayName = defaultModel.displayName;
                     changed = true;
                 }
+
+                // Keep context windows edited by the user
+                if (existingModel.contextWindow === undefined && defaultModel.contextWindow !== undefined) {
+                    existingModel.contextWindow = defaultModel.contextWindow;
+                    changed = true;
+                }
             });
         });
 
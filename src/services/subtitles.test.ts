@@ -0,0 +1,160 @@
+import { SubtitleParser } from './subtitles';
+
+const SRT = [
+	'1',
+	'00:00:01,000 --> 00:00:03,500',
+	'<i>Hello</i> and welcome.',
+	'',
+	'2',
+	'00:00:04,000 --> 00:00:06,000',
+	'{\\an8}Today we talk',
+	'about tests &amp; more.',
+	'',
+].join('\r\n');
+
+const VTT = [
+	'WEBVTT',
+	'Kind: captions',
+	'',
+	'NOTE Saved from YouTube',
+	'',
+	'00:01.000 --> 00:03.500 align:start position:0%',
+	'Hello and welcome.',
+	'',
+	'cue-2',
+	'01:00:04.000 --> 01:00:06.000',
+	'<v Speaker>Today we talk about tests.',
+].join('\n');
+
+const SBV = [
+	'0:00:01.000,0:00:03.500',
+	'Hello and welcome.',
+	'',
+	'0:00:04.000,0:00:06.000',
+	'Today we talk about tests.',
+].join('\n');
+
+// Automatic captions of YouTube: each cue repeats the previous line while the new one is spoken word by word
+const ROLLING_VTT = [
+	'WEBVTT',
+	'',
+	'00:00:00.000 --> 00:00:02.000 align:start position:0%',
+	'hello<00:00:00.500><c> and</c><00:00:01.000><c> welcome</c>',
+	'',
+	'00:00:02.000 --> 00:00:02.010 align:start position:0%',
+	'hello and welcome',
+	'',
+	'00:00:02.010 --> 00:00:04.000 align:start position:0%',
+	'hello and welcome',
+	'today<00:00:02.500><c> we</c><00:00:03.000><c> talk</c>',
+	'',
+	'00:00:04.000 --> 00:00:04.010 align:start position:0%',
+	'today we talk',
+	'',
+	'00:00:04.010 --> 00:00:06.000 align:start position:0%',
+	'today we talk',
+	'about<00:00:04.500><c> tests</c>',
+].join('\n');
+
+describe('SubtitleParser.detectFormat', () => {
+	it.each([
+		['SubRip', SRT, 'srt'],
+		['WebVTT', VTT, 'vtt'],
+		['WebVTT with a byte order mark', `\uFEFF${VTT}`, 'vtt'],
+		['SBV', SBV, 'sbv'],
+		['timedtext XML', '<?xml version="1.0" encoding="utf-8" ?><transcript><text start="0" dur="1">Hi</text></transcript>', 'xml'],
+		['timedtext XML without declaration', '<timedtext format="3"><body><p t="0" d="1000">Hi</p></body></timedtext>', 'xml'],
+		['plain text', 'Hello and welcome.\n\nToday we talk about tests.', null],
+	])('detects %s', (_, content, format) => {
+		expect(SubtitleParser.detectFormat(content)).toBe(format);
+	});
+
+	it('trusts the extension of the file', () => {
+		expect(SubtitleParser.detectFormat(SRT, '.VTT')).toBe('vtt');
+		expect(SubtitleParser.detectFormat(SRT, 'txt')).toBe('srt');
+	});
+});
+
+describe('SubtitleParser.parse', () => {
+	it('parses SubRip files', () => {
+		expect(SubtitleParser.parse(SRT, 'srt')).toEqual([
+			{ text: 'Hello and welcome.', offset: 1000, duration: 2500 },
+			{ text: 'Today we talk about tests & more.', offset: 4000, duration: 2000 },
+		]);
+	});
+
+	it('parses WebVTT files, skipping the header and notes', () => {
+		expect(SubtitleParser.parse(VTT, 'vtt')).toEqual([
+			{ text: 'Hello and welcome.', offset: 1000, duration: 2500 },
+			{ text: 'Today we talk about tests.', offset: 3604000, duration: 2000 },
+		]);
+	});
+
+	it('parses SBV files', () => {
+		expect(SubtitleParser.parse(SBV, 'sbv')).toEqual([
+			{ text: 'Hello and welcome.', offset: 1000, duration: 2500 },
+			{ text: 'Today we talk about tests.', offset: 4000, duration: 2000 },
+		]);
+	});
+
+	it('parses timedtext XML files', () => {
+		const xml = '<transcript><text start="1.5" dur="2">Hello &amp;#39;world&amp;#39;</text><text start="4" dur="1.25">Bye</text></transcript>';
+		expect(SubtitleParser.parse(xml, 'xml')).toEqual([
+			{ text: "Hello 'world'", offset: 1500, duration: 2000 },
+			{ text: 'Bye', offset: 4000, duration: 1250 },
+		]);
+	});
+
+	it('throws on files without cues', () => {
+		expect(() => SubtitleParser.parse('WEBVTT\n\nNOTE nothing here', 'vtt')).toThrow('No subtitles found in the VTT file');
+	});
+
+	describe('rolling captions', () => {
+		it('drops the lines repeated by automatic captions', () => {
+			expect(SubtitleParser.parse(ROLLING_VTT, 'vtt').map((line) => line.text)).toEqual([
+				'hello and welcome',
+				'today we talk',
+				'about tests',
+			]);
+		});
+
+		it('drops the lines repeated by overlapping cues', () => {
+			const srt = [
+				'1\n00:00:00,000 --> 00:00:03,000\nFirst line',
+				'2\n00:00:02,000 --> 00:00:05,000\nFirst line\nSecond line',
+			].join('\n\n');
+			expect(SubtitleParser.parse(srt, 'srt').map((line) => line.text)).toEqual(['First line', 'Second line']);
+		});
+
+		it('keeps lines repeated on purpose by hand-made subtitles', () => {
+			const srt = [
+				'1\n00:00:01,000 --> 00:00:02,000\nNo.',
+				'2\n00:00:02,500 --> 00:00:03,000\nNo.',
+				'3\n00:00:03,500 --> 00:00:05,000\nNo.\nI said no.',
+			].join('\n\n');
+			expect(SubtitleParser.parse(srt, 'srt').map((line) => line.text)).toEqual(['No.', 'No.', 'No. I said no.']);
+		});
+	});
+});
+
+describe('SubtitleParser.parsePlainText', () => {
+	it('splits the text into paragraphs without timings', () => {
+		const lines = SubtitleParser.parsePlainText('Hello and\nwelcome.\r\n\r\n  \n\nToday we talk about tests.');
+
+		expect(lines).toEqual([
+			{ text: 'Hello and welcome.', offset: 0, duration: 0 },
+			{ text: 'Today we talk about tests.', offset: 0, duration: 0 },
+		]);
+		expect(SubtitleParser.hasTimings(lines)).toBe(false);
+	});
+
+	it('throws on empty text', () => {
+		expect(() => SubtitleParser.parsePlainText(' \n\n ')).toThrow('The transcript is empty');
+	});
+});
+
+describe('SubtitleParser.hasTimings', () => {
+	it('tells parsed subtitles apart from plain text', () => {
+		expect(SubtitleParser.hasTimings(SubtitleParser.parse(SRT, 'srt'))).toBe(true);
+	});
+});
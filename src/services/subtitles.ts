@@ -0,0 +1,139 @@
+import { SubtitleFormat, TranscriptLine } from 'src/types';
+import { YouTubeService } from './youtube';
+
+/**
+ * Parser for subtitle files and pasted transcripts, producing the same lines as the captions fetched from YouTube.
+ * SubRip, WebVTT and SBV files are made of cues separated by blank lines, each with a timing line followed by its text.
+ */
+export class SubtitleParser {
+	/** File extensions of the supported formats */
+	static readonly EXTENSIONS: SubtitleFormat[] = ['srt', 'vtt', 'sbv', 'xml'];
+
+	// `00:01:02,500 --> 00:01:05,000` (SubRip) or `01:02.500 --> 01:05.000 align:start` (WebVTT, hours are optional)
+	private static readonly ARROW_TIMING = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+	// `0:01:02.500,0:01:05.000`
+	private static readonly SBV_TIMING = /^\s*(\d+:\d{2}:\d{2}\.\d{3}),(\d+:\d{2}:\d{2}\.\d{3})\s*$/;
+	// Word timings and class spans of the automatic captions of YouTube, e.g. `<00:00:01.500><c> word</c>`
+	private static readonly INLINE_TAGS = /<\d{2}:\d{2}:\d{2}\.\d{3}>|<c[.>]/;
+
+	/**
+	 * Detects the format of a subtitle text
+	 * @param content - The subtitle text
+	 * @param extension - Optional extension of the file, trusted when it is a supported format
+	 * @returns The format, or null for plain text
+	 */
+	static detectFormat(content: string, extension?: string): SubtitleFormat | null {
+		const normalized = extension?.toLowerCase().replace(/^\./, '');
+		const known = SubtitleParser.EXTENSIONS.find((format) => format === normalized);
+		if (known) return known;
+
+		const text = content.replace(/^\uFEFF/, '').trimStart();
+		if (/^WEBVTT\b/.test(text)) return 'vtt';
+		if (/^<\?xml|^<(transcript|timedtext)\b/.test(text)) return 'xml';
+
+		const lines = text.split(/\r?\n/);
+		if (lines.some((line) => SubtitleParser.ARROW_TIMING.test(line))) return 'srt';
+		if (lines.some((line) => SubtitleParser.SBV_TIMING.test(line))) return 'sbv';
+		return null;
+	}
+
+	/**
+	 * Parses a subtitle text
+	 * @param content - The subtitle text
+	 * @param format - The format of the text
+	 * @returns The transcript lines, times in milliseconds
+	 * @throws Error if the text has no cues
+	 */
+	static parse(content: string, format: SubtitleFormat): TranscriptLine[] {
+		if (format === 'xml') {
+			return YouTubeService.parseTranscriptXml(content);
+		}
+
+		const lines = SubtitleParser.parseCues(content, format === 'sbv' ? SubtitleParser.SBV_TIMING : SubtitleParser.ARROW_TIMING);
+		if (lines.length === 0) {
+			throw new Error(`No subtitles found in the ${format.toUpperCase()} file`);
+		}
+		return lines;
+	}
+
+	/**
+	 * Splits plain text into transcript lines without timing, one per paragraph
+	 * @param text - The transcript text
+	 * @returns The transcript lines, all starting at 0
+	 * @throws Error if the text is empty
+	 */
+	static parsePlainText(text: string): TranscriptLine[] {
+		const lines = text
+			.split(/\r?\n\s*\r?\n/)
+			.map((paragraph) => paragraph.replace(/\s+/g, ' ').trim())
+			.filter((paragraph) => paragraph)
+			.map((paragraph) => ({ text: paragraph, offset: 0, duration: 0 }));
+		if (lines.length === 0) {
+			throw new Error('The transcript is empty');
+		}
+		return lines;
+	}
+
+	/**
+	 * Checks if transcript lines have timings, as opposed to plain text
+	 * @param lines - The transcript lines
+	 * @returns True if any line ends after the start
+	 */
+	static hasTimings(lines: TranscriptLine[]): boolean {
+		return lines.some((line) => line.offset > 0 || line.duration > 0);
+	}
+
+	private static parseCues(content: string, timing: RegExp): TranscriptLine[] {
+		const cues: { start: number; end: number; texts: string[] }[] = [];
+		let hasInlineTags = false;
+
+		content
+			.replace(/^\uFEFF/, '')
+			.split(/\r?\n\s*\r?\n/)
+			.forEach((block) => {
+				const blockLines = block.split(/\r?\n/);
+				const timingIndex = blockLines.findIndex((line) => timing.test(line));
+				if (timingIndex === -1) return; // header, NOTE or STYLE block
+
+				const match = blockLines[timingIndex].match(timing);
+				if (!match) return;
+
+				const rawTexts = blockLines.slice(timingIndex + 1);
+				hasInlineTags = hasInlineTags || rawTexts.some((text) => SubtitleParser.INLINE_TAGS.test(text));
+				cues.push({
+					start: SubtitleParser.parseTime(match[1]),
+					end: SubtitleParser.parseTime(match[2]),
+					texts: rawTexts.map(SubtitleParser.cleanText).filter((text) => text),
+				});
+			});
+
+		// Only automatic captions scroll, hand-made subtitles may repeat a line on purpose ("No.", refrains)
+		const isRolling = hasInlineTags || cues.some((cue, index) => index > 0 && cue.start < cues[index - 1].end);
+		const lines: TranscriptLine[] = [];
+		let previousTexts: string[] = [];
+		cues.forEach(({ start, end, texts }) => {
+			// Rolling captions repeat the previous line at the top of each cue while it scrolls up
+			while (isRolling && texts.length > 0 && previousTexts.indexOf(texts[0]) !== -1) {
+				texts.shift();
+			}
+			if (texts.length === 0) return;
+
+			previousTexts = texts;
+			lines.push({ text: texts.join(' '), offset: start, duration: Math.max(0, end - start) });
+		});
+
+		return lines;
+	}
+
+	/** Strips the styling tags of a cue, e.g. `<i>`, `<c.colorE5E5E5>`, `<00:00:01.500>` or `{\an8}` */
+	private static cleanText(text: string): string {
+		return YouTubeService.decodeHTML(text.replace(/<[^>]*>/g, '').replace(/\{\\[^}]*\}/g, ''));
+	}
+
+	/** Parses a cue time such as `01:02:03,500` or `02:03.500` into milliseconds */
+	private static parseTime(time: string): number {
+		const [clock, fraction] = time.split(/[.,]/);
+		const seconds = clock.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+		return seconds * 1000 + parseInt(fraction.padEnd(3, '0'), 10);
+	}
+}
@@ -0,0 +1,116 @@
+import { AIModelProvider, TranscriptLine } from 'src/types';
+import { PromptService } from './prompt';
+import { SummarizerService } from './summarizer';
+
+const CONTEXT_WINDOW = 10000;
+const MAX_TOKENS = 1000;
+
+/** Creates lines of 100 tokens, one second long and separated by the given gap */
+function createLines(count: number, gapMs = 0): TranscriptLine[] {
+	return Array.from({ length: count }, (_, i) => ({
+		text: `${i}`.padEnd(399, '.'),
+		offset: i * (1000 + gapMs),
+		duration: 1000,
+	}));
+}
+
+function createProvider(isCached: (prompt: string) => boolean = () => false): AIModelProvider {
+	return {
+		testConnection: jest.fn(),
+		summarizeVideo: jest.fn(),
+		hasCachedResponse: jest.fn(async (prompt: string) => isCached(prompt)),
+	};
+}
+
+function createSummarizer(provider: AIModelProvider, contextWindow = CONTEXT_WINDOW): SummarizerService {
+	return new SummarizerService(provider, new PromptService('Summarize the video.'), contextWindow, MAX_TOKENS);
+}
+
+describe('SummarizerService.splitTranscript', () => {
+	it('keeps a transcript that fits in one part', () => {
+		const lines = createLines(5);
+		expect(SummarizerService.splitTranscript(lines, 500)).toEqual([lines]);
+	});
+
+	it('splits a transcript when a part is full', () => {
+		const lines = createLines(7);
+		expect(SummarizerService.splitTranscript(lines, 300)).toEqual([lines.slice(0, 3), lines.slice(3, 6), lines.slice(6)]);
+	});
+
+	it('closes a mostly full part at a pause in speech', () => {
+		const lines = createLines(10, 1000);
+		expect(SummarizerService.splitTranscript(lines, 1000).map((chunk) => chunk.length)).toEqual([8, 2]);
+	});
+
+	it('does not close a part at a pause before it is mostly full', () => {
+		const lines = createLines(7, 1000);
+		expect(SummarizerService.splitTranscript(lines, 1000)).toEqual([lines]);
+	});
+
+	it('keeps a line longer than a part on its own', () => {
+		const lines = createLines(2);
+		expect(SummarizerService.splitTranscript(lines, 50)).toEqual([[lines[0]], [lines[1]]]);
+	});
+
+	it('returns no part for an empty transcript', () => {
+		expect(SummarizerService.splitTranscript([], 100)).toEqual([]);
+	});
+});
+
+describe('SummarizerService.estimate', () => {
+	it('estimates a single request for a short transcript', async () => {
+		const lines = createLines(10);
+		const prompt = new PromptService('Summarize the video.').buildPrompt(SummarizerService.formatTranscript(lines, false));
+
+		await expect(createSummarizer(createProvider()).estimate(lines)).resolves.toEqual({
+			requests: [{ inputTokens: SummarizerService.estimateTokens(prompt), outputTokens: MAX_TOKENS }],
+			worstCase: [{ inputTokens: SummarizerService.estimateTokens(prompt), outputTokens: MAX_TOKENS }],
+		});
+	});
+
+	it('estimates a request per part and a merge for a long transcript', async () => {
+		const estimate = await createSummarizer(createProvider()).estimate(createLines(200));
+
+		// 20,000 tokens of transcript in parts of less than 8,000 tokens
+		expect(estimate.requests).toHaveLength(4);
+		expect(estimate.requests.slice(0, 3).every((request) => request.inputTokens <= 8000)).toBe(true);
+		expect(estimate.requests[3].inputTokens).toBeGreaterThan(3 * MAX_TOKENS);
+	});
+
+	it('uses a typical summary length for the output of large models', async () => {
+		const summarizer = new SummarizerService(createProvider(), new PromptService('Summarize the video.'), 200000, 8000);
+		const estimate = await summarizer.estimate(createLines(10));
+
+		expect(estimate.requests[0].outputTokens).toBe(1500);
+		expect(estimate.worstCase[0].outputTokens).toBe(8000);
+	});
+
+	it('leaves out a cached summary', async () => {
+		const estimate = await createSummarizer(createProvider(() => true)).estimate(createLines(10));
+		expect(estimate).toEqual({ requests: [], worstCase: [] });
+	});
+
+	it('leaves out cached parts but keeps the merge', async () => {
+		const provider = createProvider((prompt) => prompt.startsWith('You are processing part 1 of'));
+		const estimate = await createSummarizer(provider).estimate(createLines(200));
+
+		expect(estimate.requests).toHaveLength(3);
+		expect(provider.hasCachedResponse).toHaveBeenCalledTimes(3);
+	});
+
+	it('leaves out the merge when every part is cached', async () => {
+		const estimate = await createSummarizer(createProvider(() => true)).estimate(createLines(200));
+		expect(estimate.requests).toEqual([]);
+	});
+
+	it('estimates every request with providers without cache', async () => {
+		const provider: AIModelProvider = { testConnection: jest.fn(), summarizeVideo: jest.fn() };
+		await expect(createSummarizer(provider).estimate(createLines(10))).resolves.toHaveProperty('requests.length', 1);
+	});
+
+	it('throws when the context window is too small', async () => {
+		await expect(createSummarizer(createProvider(), 1000).estimate(createLines(1))).rejects.toThrow(
+			'Context window of the model (1000 tokens) is too small for "Max Tokens" (1000).'
+		);
+	});
+});
@@ -0,0 +1,344 @@
+import { AIModelProvider, TokenUsage, TranscriptLine, UsageCallback } from 'src/types';
+import { PromptService } from './prompt';
+import { YouTubeService } from './youtube';
+
+/** Callback used to report the progress of a summarization */
+export type SummaryProgressCallback = (message: string) => void;
+
+/** Callback receiving the text of the final summary as it is generated */
+export type SummaryTextCallback = (delta: string) => void;
+
+/** Estimated tokens of the requests of a summary */
+export interface SummaryEstimate {
+	/** Tokens of each request, with responses of a typical length */
+	requests: TokenUsage[];
+	/** Tokens of each request, with every response using the maximum number of tokens */
+	worstCase: TokenUsage[];
+}
+
+/**
+ * Service for summarizing transcripts with an AI provider.
+ * Transcripts that don't fit the context window of the model are split into parts on
+ * caption boundaries (map), each part is summarized, and the partial summaries are
+ * merged with a final prompt (reduce).
+ * Only the request producing the final summary is streamed; partial summaries are never shown.
+ */
+export class SummarizerService {
+	// Rough number of characters per token, used to estimate prompt sizes without a tokenizer
+	private static readonly CHARS_PER_TOKEN = 4;
+	// Share of the context window kept free to absorb estimation errors
+	private static readonly SAFETY_MARGIN = 0.1;
+	// Once a part is this full, it is closed at the next pause in speech
+	private static readonly SOFT_LIMIT = 0.8;
+	// Gap between two captions (in milliseconds) considered a pause in speech
+	private static readonly PAUSE_MS = 1000;
+	// Interval (in milliseconds) between two timestamp markers in the transcript
+	private static readonly TIMESTAMP_INTERVAL_MS = 30000;
+	// Typical length of a summary in tokens, used to estimate the output of a request
+	private static readonly TYPICAL_SUMMARY_TOKENS = 1500;
+
+	// Tokens used by each request sent to the provider, as reported by the provider
+	private usage: TokenUsage[] = [];
+	private recordUsage = (usage: TokenUsage): void => {
+		this.usage.push(usage);
+		this.onUsage?.(usage);
+	};
+
+	/**
+	 * Creates an instance of SummarizerService.
+	 * @param provider - The AI provider used to generate summaries.
+	 * @param promptService - The prompt service used to build the prompts.
+	 * @param contextWindow - Context window of the model in tokens.
+	 * @param maxTokens - Maximum number of tokens the model generates per request.
+	 * @param withTimestamps - Whether the transcript is sent with `[m:ss]` markers.
+	 * @param onUsage - Optional callback receiving the usage of each request as soon as the provider reports it.
+	 */
+	constructor(
+		private provider: AIModelProvider,
+		private promptService: PromptService,
+		private contextWindow: number,
+		private maxTokens: number,
+		private withTimestamps = false,
+		private onUsage?: UsageCallback
+	) {}
+
+	/**
+	 * Estimates the number of tokens of a text
+	 * @param text - The text to estimate
+	 * @returns The estimated number of tokens
+	 */
+	static estimateTokens(text: string): number {
+		return Math.ceil(text.length / SummarizerService.CHARS_PER_TOKEN);
+	}
+
+	/**
+	 * Gets the tokens used by the requests sent so far, when reported by the provider
+	 * @returns The usage of each request, in order
+	 */
+	getUsage(): TokenUsage[] {
+		return [...this.usage];
+	}
+
+	/**
+	 * Estimates the tokens of the requests summarizing a transcript, before sending them.
+	 * Requests whose response is cached by the provider cost nothing and are left out.
+	 * @param lines - The transcript lines
+	 * @returns The estimated tokens of each request to send, none when the whole summary is cached
+	 * @throws Error if the context window is too small for the configured max tokens
+	 */
+	async estimate(lines: TranscriptLine[]): Promise<SummaryEstimate> {
+		const budget = this.getInputBudget();
+		const prompt = this.promptService.buildPrompt(SummarizerService.formatTranscript(lines, this.withTimestamps));
+		const outputTokens = Math.min(this.maxTokens, SummarizerService.TYPICAL_SUMMARY_TOKENS);
+
+		const promptTokens = SummarizerService.estimateTokens(prompt);
+		let inputTokens: number[];
+		if (promptTokens <= budget) {
+			inputTokens = await this.isCached(prompt) ? [] : [promptTokens];
+		} else {
+			const chunkPrompts = this.buildChunkPrompts(lines, budget);
+			const uncached: string[] = [];
+			for (const chunkPrompt of chunkPrompts) {
+				if (!(await this.isCached(chunkPrompt))) uncached.push(chunkPrompt);
+			}
+			inputTokens = uncached.map(SummarizerService.estimateTokens);
+			// Partial summaries are merged by a last request, ignoring the rare merges in groups.
+			// When all parts are cached, so is the merge of their summaries
+			if (uncached.length > 0) {
+				const reduceOverhead = SummarizerService.estimateTokens(this.promptService.buildReducePrompt([]));
+				inputTokens.push(reduceOverhead + chunkPrompts.length * outputTokens);
+			}
+		}
+
+		return {
+			requests: inputTokens.map(tokens => ({ inputTokens: tokens, outputTokens })),
+			worstCase: inputTokens.map(tokens => ({ inputTokens: tokens, outputTokens: this.maxTokens }))
+		};
+	}
+
+	/**
+	 * Summarizes a transcript, splitting it into parts when it doesn't fit the context window
+	 * @param videoId - The YouTube video identifier
+	 * @param lines - The transcript lines
+	 * @param onProgress - Optional callback notified before each request
+	 * @param onText - Optional callback receiving the final summary as it is generated; the summary is streamed when given
+	 * @param signal - Optional signal that cancels the summarization
+	 * @returns The generated summary
+	 * @throws Error if the context window is too small for the configured max tokens
+	 */
+	async summarize(
+		videoId: string,
+		lines: TranscriptLine[],
+		onProgress?: SummaryProgressCallback,
+		onText?: SummaryTextCallback,
+		signal?: AbortSignal
+	): Promise<string> {
+		const budget = this.getInputBudget();
+		const prompt = this.promptService.buildPrompt(SummarizerService.formatTranscript(lines, this.withTimestamps));
+
+		if (SummarizerService.estimateTokens(prompt) <= budget) {
+			onProgress?.('Generating summary...');
+			return this.generate(videoId, prompt, onText, signal);
+		}
+
+		const chunkPrompts = this.buildChunkPrompts(lines, budget);
+		const partialSummaries: string[] = [];
+		for (let i = 0; i < chunkPrompts.length; i++) {
+			onProgress?.(`Transcript is too long for the model, summarizing part ${i + 1} of ${chunkPrompts.length}...`);
+			partialSummaries.push(await this.provider.summarizeVideo(videoId, chunkPrompts[i], signal, this.recordUsage));
+		}
+
+		onProgress?.('Combining partial summaries...');
+		return this.reduce(videoId, partialSummaries, budget, onText, signal);
+	}
+
+	/**
+	 * Splits a transcript into parts that fit the budget and builds the prompt of each part
+	 */
+	private buildChunkPrompts(lines: TranscriptLine[], budget: number): string[] {
+		const overhead = SummarizerService.estimateTokens(this.promptService.buildChunkPrompt('', 1, 1, '0:00-0:00'));
+		const chunks = SummarizerService.splitTranscript(lines, budget - overhead);
+		return chunks.map((chunk, i) => this.promptService.buildChunkPrompt(
+			SummarizerService.formatTranscript(chunk, this.withTimestamps),
+			i + 1,
+			chunks.length,
+			SummarizerService.getTimeRange(chunk)
+		));
+	}
+
+	/**
+	 * Formats transcript lines as prompt text
+	 * @param lines - The transcript lines
+	 * @param withTimestamps - Whether to start a new paragraph with a `[m:ss]` marker every 30 seconds
+	 * @returns The transcript text
+	 */
+	static formatTranscript(lines: TranscriptLine[], withTimestamps: boolean): string {
+		if (!withTimestamps) {
+			return lines.map((line) => line.text).join(' ');
+		}
+
+		const paragraphs: string[] = [];
+		let paragraphStart = -Infinity;
+		lines.forEach((line) => {
+			if (line.offset - paragraphStart >= SummarizerService.TIMESTAMP_INTERVAL_MS) {
+				paragraphStart = line.offset;
+				paragraphs.push(`[${YouTubeService.formatTimestamp(line.offset / 1000)}] ${line.text}`);
+			} else {
+				paragraphs[paragraphs.length - 1] += ` ${line.text}`;
+			}
+		});
+		return paragraphs.join('\n');
+	}
+
+	/**
+	 * Splits transcript lines into parts that fit the given number of tokens.
+	 * A part is closed early at a pause in speech once it is mostly full.
+	 * @param lines - The transcript lines
+	 * @param maxTokens - Maximum estimated number of tokens of a part
+	 * @returns The transcript parts, in order
+	 */
+	static splitTranscript(lines: TranscriptLine[], maxTokens: number): TranscriptLine[][] {
+		const chunks: TranscriptLine[][] = [];
+		let current: TranscriptLine[] = [];
+		let currentTokens = 0;
+
+		for (const line of lines) {
+			const lineTokens = SummarizerService.estimateTokens(`${line.text} `);
+
+			if (current.length > 0) {
+				const previous = current[current.length - 1];
+				const gap = line.offset - (previous.offset + previous.duration);
+				const isFull = currentTokens + lineTokens > maxTokens;
+				const isPause = currentTokens >= maxTokens * SummarizerService.SOFT_LIMIT && gap >= SummarizerService.PAUSE_MS;
+
+				if (isFull || isPause) {
+					chunks.push(current);
+					current = [];
+					currentTokens = 0;
+				}
+			}
+
+			current.push(line);
+			currentTokens += lineTokens;
+		}
+
+		if (current.length > 0) {
+			chunks.push(current);
+		}
+		return chunks;
+	}
+
+	/**
+	 * Writes an overview of a playlist from the summaries of its videos
+	 * @param playlistId - The YouTube playlist identifier
+	 * @param title - Title of the playlist
+	 * @param summaries - Summaries of the videos in order, each starting with a heading with the video title
+	 * @param signal - Optional signal that cancels the summarization
+	 * @returns The generated overview
+	 */
+	async summarizePlaylist(playlistId: string, title: string, summaries: string[], signal?: AbortSignal): Promise<string> {
+		return this.reduce(
+			playlistId,
+			summaries,
+			this.getInputBudget(),
+			undefined,
+			signal,
+			(parts) => this.promptService.buildOverviewPrompt(title, parts)
+		);
+	}
+
+	/**
+	 * Merges partial summaries, merging them in groups first when they don't fit a single request
+	 */
+	private async reduce(
+		videoId: string,
+		partialSummaries: string[],
+		budget: number,
+		onText?: SummaryTextCallback,
+		signal?: AbortSignal,
+		buildPrompt = (parts: string[]) => this.promptService.buildReducePrompt(parts)
+	): Promise<string> {
+		const prompt = buildPrompt(partialSummaries);
+		if (SummarizerService.estimateTokens(prompt) <= budget) {
+			return this.generate(videoId, prompt, onText, signal);
+		}
+
+		const groups: string[][] = [];
+		let current: string[] = [];
+		for (const summary of partialSummaries) {
+			const candidate = [...current, summary];
+			if (current.length > 0 && SummarizerService.estimateTokens(buildPrompt(candidate)) > budget) {
+				groups.push(current);
+				current = [summary];
+			} else {
+				current = candidate;
+			}
+		}
+		groups.push(current);
+
+		if (groups.length === partialSummaries.length) {
+			throw new Error('Partial summaries are too long to be combined. Increase the context window of the model or decrease "Max Tokens" in settings.');
+		}
+
+		const merged: string[] = [];
+		for (const group of groups) {
+			merged.push(await this.provider.summarizeVideo(videoId, buildPrompt(group), signal, this.recordUsage));
+		}
+		return this.reduce(videoId, merged, budget, onText, signal, buildPrompt);
+	}
+
+	/**
+	 * Sends a prompt, streaming the response when a callback is given and the provider supports it.
+	 * Falls back to a regular request when the stream fails or ends before any text is received,
+	 * e.g. with proxies that don't support streaming.
+	 */
+	private async generate(
+		videoId: string,
+		prompt: string,
+		onText?: SummaryTextCallback,
+		signal?: AbortSignal
+	): Promise<string> {
+		if (!onText || !this.provider.streamSummary) {
+			return this.provider.summarizeVideo(videoId, prompt, signal, this.recordUsage);
+		}
+
+		let text = '';
+		try {
+			for await (const delta of this.provider.streamSummary(videoId, prompt, signal, this.recordUsage)) {
+				text += delta;
+				onText(delta);
+			}
+		} catch (error) {
+			if (text || signal?.aborted) {
+				throw error;
+			}
+			console.warn('Streaming failed, retrying without streaming:', error);
+			return this.provider.summarizeVideo(videoId, prompt, signal, this.recordUsage);
+		}
+		// An empty stream usually means the endpoint ignored the streaming request
+		return text || this.provider.summarizeVideo(videoId, prompt, signal, this.recordUsage);
+	}
+
+	private async isCached(prompt: string): Promise<boolean> {
+		return this.provider.hasCachedResponse?.(prompt) ?? false;
+	}
+
+	/**
+	 * Gets the number of tokens available for the prompt
+	 */
+	private getInputBudget(): number {
+		const budget = Math.floor(this.contextWindow * (1 - SummarizerService.SAFETY_MARGIN)) - this.maxTokens;
+		if (budget <= 0) {
+			throw new Error(`Context window of the model (${this.contextWindow} tokens) is too small for "Max Tokens" (${this.maxTokens}). Decrease "Max Tokens" in settings.`);
+		}
+		return budget;
+	}
+
+	private static getTimeRange(lines: TranscriptLine[]): string {
+		const first = lines[0];
+		const last = lines[lines.length - 1];
+		const start = YouTubeService.formatTimestamp(first.offset / 1000);
+		const end = YouTubeService.formatTimestamp((last.offset + last.duration) / 1000);
+		return `${start}-${end}`;
+	}
+}
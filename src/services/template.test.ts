@@ -0,0 +1,100 @@
+import { App, TFile } from 'obsidian';
+import { TemplateService } from './template';
+
+const DATA = TemplateService.getSampleData();
+
+describe('TemplateService.render', () => {
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it('replaces the placeholders', () => {
+		expect(TemplateService.render('# {{title}}\n[{{ author }}]({{channelUrl}})\n\n{{summary}}', DATA)).toBe(
+			`# ${DATA.title}\n[${DATA.author}](${DATA.channelUrl})\n\n${DATA.summary}`
+		);
+	});
+
+	it('replaces every occurrence of a placeholder', () => {
+		expect(TemplateService.render('{{videoId}} {{videoId}}', DATA)).toBe('dQw4w9WgXcQ dQw4w9WgXcQ');
+	});
+
+	it('formats dates', () => {
+		jest.useFakeTimers().setSystemTime(new Date(2026, 2, 4, 10, 30));
+		expect(TemplateService.render('{{date}} / {{date:DD.MM.YYYY HH:mm}}', DATA)).toBe('2026-03-04 / 04.03.2026 10:30');
+	});
+
+	it('leaves unknown placeholders untouched', () => {
+		expect(TemplateService.render('{{channel}} {{title}} {{ }}', DATA)).toBe(`{{channel}} ${DATA.title} {{ }}`);
+	});
+});
+
+describe('TemplateService.findUnknownPlaceholders', () => {
+	it('finds the unknown placeholders once', () => {
+		expect(TemplateService.findUnknownPlaceholders('{{channel}} {{title}} {{tags}} {{channel}}')).toEqual(['channel', 'tags']);
+	});
+
+	it('accepts the supported placeholders and dates', () => {
+		const template = [...TemplateService.PLACEHOLDERS, 'date', 'date:YYYY'].map((key) => `{{${key}}}`).join('\n');
+		expect(TemplateService.findUnknownPlaceholders(template)).toEqual([]);
+	});
+
+	it('is case sensitive', () => {
+		expect(TemplateService.findUnknownPlaceholders('{{Title}}')).toEqual(['Title']);
+	});
+});
+
+describe('TemplateService.usesPlaceholder', () => {
+	it.each([
+		['{{transcript}}', true],
+		['{{ transcript }}', true],
+		['{{transcriptText}}', false],
+		['transcript', false],
+	])('checks %p', (template, expected) => {
+		expect(TemplateService.usesPlaceholder(template, 'transcript')).toBe(expected);
+	});
+});
+
+describe('TemplateService.removeEmptyLinks', () => {
+	it('removes lines left with empty links only', () => {
+		expect(TemplateService.removeEmptyLinks('# Title\n\n![Thumbnail]()\n\n🎬 [Watch on YouTube]()\n\nSummary')).toBe(
+			'# Title\n\nSummary'
+		);
+	});
+
+	it('keeps the text around an empty link', () => {
+		expect(TemplateService.removeEmptyLinks('By Author [channel]()')).toBe('By Author');
+	});
+});
+
+describe('TemplateService.loadTemplate', () => {
+	function createApp(files: Record<string, string>): App {
+		return {
+			vault: {
+				getAbstractFileByPath: (path: string) => {
+					if (!(path in files)) {
+						return null;
+					}
+					const file = new TFile();
+					file.path = path;
+					return file;
+				},
+				cachedRead: async (file: TFile) => files[file.path],
+			},
+		} as unknown as App;
+	}
+
+	it('uses the settings template without a path', async () => {
+		const service = new TemplateService(createApp({}), '# {{title}}', ' ');
+		await expect(service.loadTemplate()).resolves.toBe('# {{title}}');
+	});
+
+	it('reads the template note', async () => {
+		const service = new TemplateService(createApp({ 'Templates/Video.md': '## {{title}}' }), '# {{title}}', 'Templates/Video');
+		await expect(service.loadTemplate()).resolves.toBe('## {{title}}');
+	});
+
+	it('throws when the template note is missing', async () => {
+		const service = new TemplateService(createApp({}), '# {{title}}', 'Templates/Video.md');
+		await expect(service.loadTemplate()).rejects.toThrow('Template note not found: Templates/Video.md');
+	});
+});
@@ -0,0 +1,157 @@
+import { App, TFile, moment, normalizePath } from 'obsidian';
+import { TemplateData } from 'src/types';
+
+/**
+ * Service for rendering the output note template.
+ * Templates are Markdown with `{{placeholder}}` markers, e.g. `# {{title}}`.
+ */
+export class TemplateService {
+	/** Placeholders that can be used in templates (besides `{{date}}` / `{{date:FORMAT}}`) */
+	static readonly PLACEHOLDERS: (keyof TemplateData)[] = [
+		'title',
+		'author',
+		'channelUrl',
+		'url',
+		'thumbnail',
+		'summary',
+		'transcript',
+		'videoId',
+		'duration',
+		'publishDate',
+		'language',
+	];
+
+	private static readonly PLACEHOLDER_REGEX = /\{\{\s*([a-zA-Z]+)(?::([^}]*))?\s*\}\}/g;
+
+	/**
+	 * Creates an instance of TemplateService.
+	 * @param app - The Obsidian app instance.
+	 * @param template - The template text from the settings.
+	 * @param templatePath - Optional path of a template note in the vault, used instead of the template text.
+	 */
+	constructor(
+		private app: App,
+		private template: string,
+		private templatePath: string
+	) {}
+
+	/**
+	 * Loads the template, reading the template note when a path is configured
+	 * @returns The template text
+	 * @throws Error if the configured template note doesn't exist
+	 */
+	async loadTemplate(): Promise<string> {
+		const path = this.templatePath.trim();
+		if (!path) {
+			return this.template;
+		}
+
+		const normalized = normalizePath(path.endsWith('.md') ? path : `${path}.md`);
+		const file = this.app.vault.getAbstractFileByPath(normalized);
+		if (!(file instanceof TFile)) {
+			throw new Error(`Template note not found: ${normalized}`);
+		}
+		return this.app.vault.cachedRead(file);
+	}
+
+	/**
+	 * Replaces the placeholders of a template with the given data.
+	 * Unknown placeholders are left untouched.
+	 * @param template - The template text
+	 * @param data - The values of the placeholders
+	 * @returns The rendered text
+	 * @example
+	 * TemplateService.render('# {{title}}', data); // '# Video title'
+	 */
+	static render(template: string, data: TemplateData): string {
+		return template.replace(TemplateService.PLACEHOLDER_REGEX, (placeholder, key: string, format?: string) => {
+			if (key === 'date') {
+				return moment().format(format?.trim() || 'YYYY-MM-DD');
+			}
+			if (TemplateService.isPlaceholder(key)) {
+				return data[key];
+			}
+			return placeholder;
+		});
+	}
+
+	/**
+	 * Removes the images and links whose URL is empty, e.g. the thumbnail and the video link of a transcript that doesn't come from YouTube.
+	 * Lines left with no text but icons or punctuation are removed with them.
+	 * @param text - The rendered text
+	 * @returns The text without empty images and links
+	 */
+	static removeEmptyLinks(text: string): string {
+		const lines: string[] = [];
+		let removed = false;
+		text.split('\n').forEach((line) => {
+			const cleaned = line.replace(/!?\[[^\]]*\]\(\s*\)/g, '');
+			if (cleaned !== line && !/[\p{L}\p{N}]/u.test(cleaned)) {
+				removed = true;
+				return;
+			}
+			// Don't leave two blank lines where a line was removed
+			if (removed && !cleaned.trim() && lines.length > 0 && !lines[lines.length - 1].trim()) return;
+			removed = false;
+			lines.push(cleaned === line ? line : cleaned.trimEnd());
+		});
+		return lines.join('\n');
+	}
+
+	/**
+	 * Checks if a template uses a placeholder
+	 * @param template - The template text
+	 * @param key - The placeholder name, e.g. `transcript`
+	 * @returns True if the template contains the placeholder
+	 */
+	static usesPlaceholder(template: string, key: keyof TemplateData): boolean {
+		const regex = new RegExp(TemplateService.PLACEHOLDER_REGEX.source, 'g');
+		let match;
+		while ((match = regex.exec(template)) !== null) {
+			if (match[1] === key) return true;
+		}
+		return false;
+	}
+
+	/**
+	 * Finds the placeholders of a template that are not supported
+	 * @param template - The template text
+	 * @returns The unknown placeholder names, without duplicates
+	 */
+	static findUnknownPlaceholders(template: string): string[] {
+		const unknown: string[] = [];
+		let match;
+		const regex = new RegExp(TemplateService.PLACEHOLDER_REGEX.source, 'g');
+
+		while ((match = regex.exec(template)) !== null) {
+			const key = match[1];
+			if (key !== 'date' && !TemplateService.isPlaceholder(key) && unknown.indexOf(key) === -1) {
+				unknown.push(key);
+			}
+		}
+		return unknown;
+	}
+
+	/**
+	 * Gets sample data used to preview templates in the settings
+	 */
+	static getSampleData(): TemplateData {
+		return {
+			title: 'How to Take Smart Notes',
+			author: 'Example Channel',
+			channelUrl: 'https://www.youtube.com/channel/UCxxxxxxxxxxxxxxxxxxxxxx',
+			url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+			thumbnail: 'https://img.youtube.com/vi/dQw4w9WgXcQ/maxresdefault.jpg',
+			summary: '## Summary\nA short summary of the video.\n\n## Key points\n- First point\n- Second point',
+			transcript: 'Hello and welcome to this video about taking smart notes...',
+			videoId: 'dQw4w9WgXcQ',
+			duration: '12:34',
+			publishDate: '2024-01-31',
+			language: 'en',
+		};
+	}
+
+	private static isPlaceholder(key: string): key is keyof TemplateData {
+		return TemplateService.PLACEHOLDERS.indexOf(key as keyof TemplateData) !== -1;
+	}
+}
@@ -0,0 +1,70 @@
+import { TranscriptLine } from 'src/types';
+import { TranscriptService } from './transcript';
+
+const VIDEO_ID = 'dQw4w9WgXcQ';
+
+function line(text: string, offset: number, duration = 1000): TranscriptLine {
+	return { text, offset, duration };
+}
+
+describe('TranscriptService.format', () => {
+	const lines = [line('Hello and welcome.', 0), line('Today we talk about tests.', 1000), line('Let us start.', 3725000)];
+
+	it('formats paragraphs', () => {
+		expect(TranscriptService.format(lines, VIDEO_ID, 'paragraphs')).toBe(
+			'Hello and welcome. Today we talk about tests.\n\nLet us start.'
+		);
+	});
+
+	it('formats lines with timestamp links', () => {
+		expect(TranscriptService.format(lines, VIDEO_ID, 'lines')).toBe([
+			`[0:00](https://youtu.be/${VIDEO_ID}?t=0) Hello and welcome.`,
+			`[0:01](https://youtu.be/${VIDEO_ID}?t=1) Today we talk about tests.`,
+			`[1:02:05](https://youtu.be/${VIDEO_ID}?t=3725) Let us start.`,
+		].join('\n'));
+	});
+
+	it('formats lines with plain timestamps without a video', () => {
+		expect(TranscriptService.format(lines, '', 'lines')).toBe(
+			'[0:00] Hello and welcome.\n[0:01] Today we talk about tests.\n[1:02:05] Let us start.'
+		);
+	});
+
+	it('formats a collapsed callout', () => {
+		expect(TranscriptService.format(lines, VIDEO_ID, 'callout')).toBe(
+			'> [!quote]- Transcript\n> Hello and welcome. Today we talk about tests.\n>\n> Let us start.'
+		);
+	});
+});
+
+describe('TranscriptService.formatParagraphs', () => {
+	it('merges fragments and collapses whitespace', () => {
+		expect(TranscriptService.formatParagraphs([line('so  this\nis', 0), line('  ', 1000), line('one sentence.', 2000)])).toBe(
+			'so this is one sentence.'
+		);
+	});
+
+	it('does not break a paragraph at a pause after a comma', () => {
+		expect(TranscriptService.formatParagraphs([line('First,', 0), line('then more.', 5000)])).toBe('First, then more.');
+	});
+
+	it('breaks a paragraph at a pause without punctuation', () => {
+		expect(TranscriptService.formatParagraphs([line('no punctuation here', 0), line('new topic', 5000)])).toBe(
+			'no punctuation here\n\nnew topic'
+		);
+	});
+
+	it('breaks a long paragraph at the end of a sentence', () => {
+		const sentence = `${'word '.repeat(20).trim()}.`;
+		const lines = Array.from({ length: 12 }, (_, i) => line(sentence, i * 1000));
+		const paragraphs = TranscriptService.formatParagraphs(lines).split('\n\n');
+
+		expect(paragraphs).toHaveLength(2);
+		expect(paragraphs.every((paragraph) => paragraph.endsWith('.'))).toBe(true);
+	});
+
+	it('breaks a very long paragraph without sentence ends', () => {
+		const lines = Array.from({ length: 40 }, (_, i) => line('word '.repeat(10).trim(), i * 1000));
+		expect(TranscriptService.formatParagraphs(lines).split('\n\n').length).toBeGreaterThan(1);
+	});
+});
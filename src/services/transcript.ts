@@ -0,0 +1,87 @@
+import { TranscriptFormat, TranscriptLine } from 'src/types';
+import { YouTubeService } from './youtube';
+
+/**
+ * Service for formatting video transcripts as Markdown.
+ * Caption fragments are merged into sentences and paragraphs using punctuation and pauses in speech.
+ */
+export class TranscriptService {
+	// Gap between two captions (in milliseconds) that starts a new paragraph
+	private static readonly PARAGRAPH_PAUSE_MS = 2000;
+	// Paragraphs are closed at the next sentence end once they reach this length
+	private static readonly MAX_PARAGRAPH_LENGTH = 600;
+	// Paragraphs are closed even without a sentence end once they reach this length
+	private static readonly HARD_PARAGRAPH_LENGTH = 1200;
+
+	/**
+	 * Formats a transcript as Markdown
+	 * @param lines - The transcript lines
+	 * @param videoId - The YouTube video identifier, used for timestamp links, empty for plain timestamps
+	 * @param format - The output format
+	 * @returns The formatted transcript
+	 */
+	static format(lines: TranscriptLine[], videoId: string, format: TranscriptFormat): string {
+		switch (format) {
+		case 'lines':
+			return TranscriptService.formatLines(lines, videoId);
+		case 'callout': {
+			const body = TranscriptService.formatParagraphs(lines)
+				.split('\n')
+				.map((line) => (line ? `> ${line}` : '>'))
+				.join('\n');
+			return `> [!quote]- Transcript\n${body}`;
+		}
+		default:
+			return TranscriptService.formatParagraphs(lines);
+		}
+	}
+
+	/**
+	 * Formats a transcript as one line per caption, each starting with a timestamp link,
+	 * or a plain timestamp when the transcript doesn't come from YouTube
+	 */
+	static formatLines(lines: TranscriptLine[], videoId: string): string {
+		return lines
+			.map((line) => {
+				const seconds = line.offset / 1000;
+				const timestamp = YouTubeService.formatTimestamp(seconds);
+				return videoId
+					? `[${timestamp}](${YouTubeService.getTimestampUrl(videoId, seconds)}) ${line.text}`
+					: `[${timestamp}] ${line.text}`;
+			})
+			.join('\n');
+	}
+
+	/**
+	 * Formats a transcript as plain paragraphs.
+	 * A paragraph ends at a long pause, or at the end of a sentence once it is long enough.
+	 */
+	static formatParagraphs(lines: TranscriptLine[]): string {
+		const paragraphs: string[] = [];
+		let current = '';
+
+		lines.forEach((line, index) => {
+			const text = line.text.replace(/\s+/g, ' ').trim();
+			if (!text) return;
+
+			const previous = lines[index - 1];
+			const gap = previous ? line.offset - (previous.offset + previous.duration) : 0;
+			const endsSentence = /[.!?…]["')\]]?$/.test(current);
+
+			const isPause = gap >= TranscriptService.PARAGRAPH_PAUSE_MS && (endsSentence || !/[,;:]$/.test(current));
+			const isLong = current.length >= TranscriptService.MAX_PARAGRAPH_LENGTH && endsSentence;
+			const isTooLong = current.length >= TranscriptService.HARD_PARAGRAPH_LENGTH;
+
+			if (current && (isPause || isLong || isTooLong)) {
+				paragraphs.push(current);
+				current = '';
+			}
+			current = current ? `${current} ${text}` : text;
+		});
+
+		if (current) {
+			paragraphs.push(current);
+		}
+		return paragraphs.join('\n\n');
+	}
+}
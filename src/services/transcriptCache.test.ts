@@ -0,0 +1,91 @@
+import { DataAdapter } from 'obsidian';
+import { CaptionOptions, CaptionTrackId, TranscriptResponse } from 'src/types';
+import { TranscriptCache } from './transcriptCache';
+
+const FOLDER = '.obsidian/plugins/yt-video-summarizer/cache/transcripts';
+const ENGLISH: CaptionOptions = { languages: ['en'], preferredKind: 'manual', translate: false };
+const ENGLISH_TRACK: CaptionTrackId = { languageCode: 'en', kind: 'manual', translatedTo: '' };
+
+/** Vault adapter keeping the files in memory */
+function createAdapter(): DataAdapter {
+	const files = new Map<string, string>();
+	return {
+		exists: async (path: string) => files.has(path) || [...files.keys()].some((file) => file.startsWith(`${path}/`)),
+		mkdir: async () => undefined,
+		read: async (path: string) => files.get(path) ?? '',
+		write: async (path: string, data: string) => {
+			files.set(path, data);
+		},
+		remove: async (path: string) => {
+			files.delete(path);
+		},
+		rmdir: async (path: string) => {
+			[...files.keys()].filter((file) => file.startsWith(`${path}/`)).forEach((file) => files.delete(file));
+		},
+		list: async (path: string) => ({ files: [...files.keys()].filter((file) => file.startsWith(`${path}/`)), folders: [] }),
+		stat: async (path: string) => ({ type: 'file', ctime: Date.now(), mtime: Date.now(), size: files.get(path)?.length ?? 0 }),
+	} as unknown as DataAdapter;
+}
+
+function createTranscript(language: string): TranscriptResponse {
+	return {
+		url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+		videoId: 'dQw4w9WgXcQ',
+		title: 'Title',
+		author: 'Author',
+		channelUrl: '',
+		duration: 60,
+		publishDate: '',
+		language,
+		captionTrack: language,
+		chapters: [],
+		lines: [{ text: `Text in ${language}`, offset: 0, duration: 1000 }],
+	};
+}
+
+describe('TranscriptCache', () => {
+	let cache: TranscriptCache;
+
+	beforeEach(() => {
+		cache = new TranscriptCache(createAdapter(), FOLDER, 30, 50);
+	});
+
+	it('finds a transcript by the caption preferences it was fetched with', async () => {
+		const transcript = createTranscript('en');
+		await cache.set(transcript, ENGLISH, ENGLISH_TRACK);
+
+		await expect(cache.get('dQw4w9WgXcQ', ENGLISH)).resolves.toEqual(transcript);
+		await expect(cache.get('dQw4w9WgXcQ', { ...ENGLISH, languages: ['de', 'en'] })).resolves.toBeNull();
+	});
+
+	it('shares the transcript of a track between caption preferences resolving to it', async () => {
+		const transcript = createTranscript('en');
+		const germanFirst: CaptionOptions = { ...ENGLISH, languages: ['de', 'en'] };
+		await cache.set(transcript, ENGLISH, ENGLISH_TRACK);
+
+		await expect(cache.getTrack('dQw4w9WgXcQ', germanFirst, ENGLISH_TRACK)).resolves.toEqual(transcript);
+		await expect(cache.get('dQw4w9WgXcQ', germanFirst)).resolves.toEqual(transcript);
+		await expect(cache.getStats()).resolves.toHaveProperty('count', 1);
+	});
+
+	it('keeps the transcripts of different tracks apart', async () => {
+		const automatic: CaptionTrackId = { ...ENGLISH_TRACK, kind: 'auto' };
+		const translated: CaptionTrackId = { ...ENGLISH_TRACK, translatedTo: 'de' };
+		await cache.set(createTranscript('en'), ENGLISH, ENGLISH_TRACK);
+
+		await expect(cache.getTrack('dQw4w9WgXcQ', ENGLISH, automatic)).resolves.toBeNull();
+		await expect(cache.getTrack('dQw4w9WgXcQ', ENGLISH, translated)).resolves.toBeNull();
+
+		await cache.set(createTranscript('de'), { ...ENGLISH, translate: true }, translated);
+		await expect(cache.get('dQw4w9WgXcQ', ENGLISH)).resolves.toHaveProperty('language', 'en');
+		await expect(cache.get('dQw4w9WgXcQ', { ...ENGLISH, translate: true })).resolves.toHaveProperty('language', 'de');
+		await expect(cache.getStats()).resolves.toHaveProperty('count', 2);
+	});
+
+	it('forgets everything once cleared', async () => {
+		await cache.set(createTranscript('en'), ENGLISH, ENGLISH_TRACK);
+		await cache.clear();
+
+		await expect(cache.get('dQw4w9WgXcQ', ENGLISH)).resolves.toBeNull();
+	});
+});
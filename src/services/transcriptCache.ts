@@ -0,0 +1,88 @@
+import { CaptionOptions, CaptionTrackId, TranscriptResponse } from 'src/types';
+import { FileCache } from './fileCache';
+
+/**
+ * Persistent cache of parsed transcripts, stored as one file per caption track of a video
+ * in a folder of the plugin directory. The track chosen for a set of caption preferences is kept
+ * in a small entry pointing to the transcript, so it is found without asking YouTube again.
+ */
+export class TranscriptCache extends FileCache<TranscriptResponse | string> {
+	/**
+	 * Gets the cached transcript of a video for caption preferences
+	 * @param videoId - The video identifier
+	 * @param options - Caption options the transcript was fetched with
+	 * @returns The transcript, or null when it is not cached or expired
+	 */
+	async get(videoId: string, options: CaptionOptions): Promise<TranscriptResponse | null> {
+		const trackName = await this.read(TranscriptCache.getSelectionName(videoId, options));
+		if (typeof trackName !== 'string') return null;
+		return this.readTranscript(trackName);
+	}
+
+	/**
+	 * Gets the cached transcript of a caption track, remembering the track for the caption preferences
+	 * @param videoId - The video identifier
+	 * @param options - Caption options that resolved to the track
+	 * @param track - The caption track
+	 * @returns The transcript, or null when it is not cached or expired
+	 */
+	async getTrack(videoId: string, options: CaptionOptions, track: CaptionTrackId): Promise<TranscriptResponse | null> {
+		const trackName = TranscriptCache.getTrackName(videoId, track);
+		const transcript = await this.readTranscript(trackName);
+		if (transcript) {
+			await this.write(TranscriptCache.getSelectionName(videoId, options), trackName);
+		}
+		return transcript;
+	}
+
+	/**
+	 * Stores the transcript of a caption track
+	 * @param transcript - The transcript to store
+	 * @param options - Caption options that resolved to the track
+	 * @param track - The caption track the transcript was taken from
+	 */
+	async set(transcript: TranscriptResponse, options: CaptionOptions, track: CaptionTrackId): Promise<void> {
+		const trackName = TranscriptCache.getTrackName(transcript.videoId, track);
+		await this.write(trackName, transcript);
+		await this.write(TranscriptCache.getSelectionName(transcript.videoId, options), trackName);
+	}
+
+	/** Counts the transcripts only, not the entries of the caption preferences */
+	async getStats(): Promise<{ count: number; size: number }> {
+		const files = await this.listEntries();
+		return {
+			count: files.filter((file) => file.path.includes('.track.')).length,
+			size: files.reduce((total, file) => total + file.size, 0),
+		};
+	}
+
+	private async readTranscript(name: string): Promise<TranscriptResponse | null> {
+		const transcript = await this.read(name);
+		return typeof transcript === 'object' ? transcript : null;
+	}
+
+	/**
+	 * Gets the name of a transcript, keyed by the video and the caption track
+	 * @example
+	 * // dQw4w9WgXcQ.track.de.auto or dQw4w9WgXcQ.track.en.manual.de for a track translated to German
+	 */
+	private static getTrackName(videoId: string, track: CaptionTrackId): string {
+		const name = `${videoId}.track.${TranscriptCache.sanitize(track.languageCode)}.${track.kind}`;
+		return track.translatedTo ? `${name}.${TranscriptCache.sanitize(track.translatedTo)}` : name;
+	}
+
+	/**
+	 * Gets the name of the entry pointing to the transcript chosen for caption preferences
+	 * @example
+	 * // dQw4w9WgXcQ.select.en+de.manual
+	 */
+	private static getSelectionName(videoId: string, options: CaptionOptions): string {
+		const languages = options.languages.map(TranscriptCache.sanitize).join('+');
+		const kind = options.translate ? `${options.preferredKind}.translated` : options.preferredKind;
+		return `${videoId}.select.${languages}.${kind}`;
+	}
+
+	private static sanitize(language: string): string {
+		return language.replace(/[^a-zA-Z0-9-]/g, '');
+	}
+}
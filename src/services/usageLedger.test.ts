@@ -0,0 +1,129 @@
+import { DataAdapter } from 'obsidian';
+import { UsageRecord } from 'src/types';
+import { UsageLedger } from './usageLedger';
+
+const PATH = '.obsidian/plugins/yt-video-summarizer/usage.jsonl';
+
+const RECORDS: UsageRecord[] = [
+	{ date: '2026-02-27T10:00:00', modelId: 'OpenAI:gpt-4o-mini', videoId: 'a', inputTokens: 1000, outputTokens: 100, cost: 0.25 },
+	{ date: '2026-03-04T09:00:00', modelId: 'OpenAI:gpt-4o', videoId: 'b', inputTokens: 2000, outputTokens: 200, cost: 1 },
+	{ date: '2026-03-04T18:00:00', modelId: 'OpenAI:gpt-4o', videoId: 'b', inputTokens: 3000, outputTokens: 300, cost: 1.5 },
+	{ date: '2026-03-05T12:00:00', modelId: 'Ollama:llama3', videoId: 'c', inputTokens: 4000, outputTokens: 400, cost: null },
+];
+
+/** Vault adapter keeping the files in memory */
+function createAdapter(): DataAdapter & { files: Map<string, string> } {
+	const files = new Map<string, string>();
+	return {
+		files,
+		exists: async (path: string) => files.has(path),
+		read: async (path: string) => files.get(path) ?? '',
+		write: async (path: string, data: string) => {
+			files.set(path, data);
+		},
+		append: async (path: string, data: string) => {
+			files.set(path, (files.get(path) ?? '') + data);
+		},
+	} as unknown as DataAdapter & { files: Map<string, string> };
+}
+
+describe('UsageLedger', () => {
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it('records requests as JSON lines', async () => {
+		const adapter = createAdapter();
+		const ledger = new UsageLedger(adapter, PATH);
+
+		await Promise.all(RECORDS.map((record) => ledger.record(record)));
+
+		expect(adapter.files.get(PATH)?.trim().split('\n')).toHaveLength(RECORDS.length);
+		await expect(ledger.getRecords()).resolves.toEqual(RECORDS);
+	});
+
+	it('skips corrupted lines', async () => {
+		const adapter = createAdapter();
+		adapter.files.set(PATH, `${JSON.stringify(RECORDS[0])}\n{"date":\n\n${JSON.stringify(RECORDS[1])}\n`);
+
+		await expect(new UsageLedger(adapter, PATH).getRecords()).resolves.toEqual([RECORDS[0], RECORDS[1]]);
+	});
+
+	it('reads no request without a ledger', async () => {
+		await expect(new UsageLedger(createAdapter(), PATH).getRecords()).resolves.toEqual([]);
+	});
+
+	it('gets the cost of the current month', async () => {
+		jest.useFakeTimers().setSystemTime(new Date(2026, 2, 20));
+		const ledger = new UsageLedger(createAdapter(), PATH);
+		await Promise.all(RECORDS.map((record) => ledger.record(record)));
+
+		await expect(ledger.getMonthCost()).resolves.toBeCloseTo(2.5, 6);
+	});
+});
+
+describe('UsageLedger.aggregate', () => {
+	it('groups by day, the most recent first', () => {
+		expect(UsageLedger.aggregate(RECORDS, 'day').map(({ key, requests }) => ({ key, requests }))).toEqual([
+			{ key: '2026-03-05', requests: 1 },
+			{ key: '2026-03-04', requests: 2 },
+			{ key: '2026-02-27', requests: 1 },
+		]);
+	});
+
+	it('groups by month', () => {
+		expect(UsageLedger.aggregate(RECORDS, 'month')).toEqual([
+			{ key: '2026-03', requests: 3, videos: 2, inputTokens: 9000, outputTokens: 900, cost: 2.5, unpricedRequests: 1 },
+			{ key: '2026-02', requests: 1, videos: 1, inputTokens: 1000, outputTokens: 100, cost: 0.25, unpricedRequests: 0 },
+		]);
+	});
+
+	it('groups by provider, the most expensive first', () => {
+		expect(UsageLedger.aggregate(RECORDS, 'provider').map(({ key, cost }) => ({ key, cost }))).toEqual([
+			{ key: 'OpenAI', cost: 2.75 },
+			{ key: 'Ollama', cost: 0 },
+		]);
+	});
+
+	it('groups by model, the most expensive first', () => {
+		expect(UsageLedger.aggregate(RECORDS, 'model').map(({ key }) => key)).toEqual([
+			'OpenAI:gpt-4o',
+			'OpenAI:gpt-4o-mini',
+			'Ollama:llama3',
+		]);
+	});
+
+	it('sums up requests', () => {
+		expect(UsageLedger.summarize('Total', RECORDS)).toEqual({
+			key: 'Total',
+			requests: 4,
+			videos: 3,
+			inputTokens: 10000,
+			outputTokens: 1000,
+			cost: 2.75,
+			unpricedRequests: 1,
+		});
+	});
+});
+
+describe('UsageLedger.toCsv', () => {
+	it('formats requests with a header line', () => {
+		expect(UsageLedger.toCsv(RECORDS.slice(2))).toBe([
+			'date,modelId,videoId,inputTokens,outputTokens,cost',
+			'2026-03-04T18:00:00,OpenAI:gpt-4o,b,3000,300,1.5',
+			'2026-03-05T12:00:00,Ollama:llama3,c,4000,400,',
+			'',
+		].join('\n'));
+	});
+
+	it('escapes commas, quotes and line breaks', () => {
+		const record: UsageRecord = { ...RECORDS[0], videoId: 'Talk, "part 1"\nQ&A' };
+		expect(UsageLedger.toCsv([record]).split('\n').slice(1).join('\n')).toBe(
+			'2026-02-27T10:00:00,OpenAI:gpt-4o-mini,"Talk, ""part 1""\nQ&A",1000,100,0.25\n'
+		);
+	});
+
+	it('formats only the header without requests', () => {
+		expect(UsageLedger.toCsv([])).toBe('date,modelId,videoId,inputTokens,outputTokens,cost\n');
+	});
+});
@@ -0,0 +1,150 @@
+import { DataAdapter, moment, normalizePath } from 'obsidian';
+import { UsageGrouping, UsageRecord, UsageSummary } from 'src/types';
+
+/**
+ * Persistent record of the requests sent to the providers, one JSON line per request in a file of the plugin directory.
+ * Lines are appended, so a request is recorded as soon as it is answered, even when the summary fails later.
+ * Failures are logged and never interrupt the caller.
+ */
+export class UsageLedger {
+	private static readonly CSV_COLUMNS: (keyof UsageRecord)[] = ['date', 'modelId', 'videoId', 'inputTokens', 'outputTokens', 'cost'];
+
+	// Writes are chained, as concurrent jobs record their requests at the same time
+	private pending: Promise<void> = Promise.resolve();
+
+	/**
+	 * Creates an instance of UsageLedger.
+	 * @param adapter - The vault adapter used to read and write files outside the vault.
+	 * @param path - Path of the ledger, e.g. `.obsidian/plugins/<id>/usage.jsonl`.
+	 */
+	constructor(
+		private adapter: DataAdapter,
+		private path: string
+	) {
+		this.path = normalizePath(path);
+	}
+
+	/**
+	 * Appends a request to the ledger
+	 * @param record - The request
+	 */
+	record(record: UsageRecord): Promise<void> {
+		this.pending = this.pending.then(async () => {
+			try {
+				const line = `${JSON.stringify(record)}\n`;
+				if (await this.adapter.exists(this.path)) {
+					await this.adapter.append(this.path, line);
+				} else {
+					await this.adapter.write(this.path, line);
+				}
+			} catch (error) {
+				console.error('Failed to record usage:', error);
+			}
+		});
+		return this.pending;
+	}
+
+	/**
+	 * Reads all requests of the ledger, skipping corrupted lines
+	 * @returns The requests, oldest first
+	 */
+	async getRecords(): Promise<UsageRecord[]> {
+		await this.pending;
+		try {
+			if (!(await this.adapter.exists(this.path))) return [];
+
+			const lines = (await this.adapter.read(this.path)).split('\n');
+			return lines.flatMap((line) => {
+				if (!line.trim()) return [];
+				try {
+					return [JSON.parse(line) as UsageRecord];
+				} catch {
+					return [];
+				}
+			});
+		} catch (error) {
+			console.error('Failed to read the usage ledger:', error);
+			return [];
+		}
+	}
+
+	/**
+	 * Gets the cost of the requests of the current month
+	 * @returns The cost in US dollars, leaving out models without pricing
+	 */
+	async getMonthCost(): Promise<number> {
+		const month = moment().format('YYYY-MM');
+		const records = await this.getRecords();
+		return UsageLedger.summarize(month, records.filter((record) => UsageLedger.getGroupKey(record, 'month') === month)).cost;
+	}
+
+	/**
+	 * Aggregates requests by day, month, provider or model
+	 * @param records - The requests
+	 * @param grouping - How the requests are grouped
+	 * @returns The usage of each group, the most recent days and months or the most expensive providers and models first
+	 */
+	static aggregate(records: UsageRecord[], grouping: UsageGrouping): UsageSummary[] {
+		const groups = new Map<string, UsageRecord[]>();
+		records.forEach((record) => {
+			const key = UsageLedger.getGroupKey(record, grouping);
+			const group = groups.get(key);
+			if (group) {
+				group.push(record);
+			} else {
+				groups.set(key, [record]);
+			}
+		});
+
+		const summaries = Array.from(groups.entries()).map(([key, group]) => UsageLedger.summarize(key, group));
+		return grouping === 'day' || grouping === 'month'
+			? summaries.sort((a, b) => b.key.localeCompare(a.key))
+			: summaries.sort((a, b) => b.cost - a.cost || a.key.localeCompare(b.key));
+	}
+
+	/**
+	 * Sums up requests
+	 * @param key - Label of the requests, e.g. `Total`
+	 * @param records - The requests
+	 * @returns The usage of the requests
+	 */
+	static summarize(key: string, records: UsageRecord[]): UsageSummary {
+		const pricedRecords = records.filter((record) => record.cost !== null);
+		return {
+			key,
+			requests: records.length,
+			videos: new Set(records.map((record) => record.videoId)).size,
+			inputTokens: records.reduce((total, record) => total + record.inputTokens, 0),
+			outputTokens: records.reduce((total, record) => total + record.outputTokens, 0),
+			cost: pricedRecords.reduce((total, record) => total + (record.cost ?? 0), 0),
+			unpricedRequests: records.length - pricedRecords.length
+		};
+	}
+
+	/**
+	 * Formats requests as CSV, with a header line
+	 * @param records - The requests
+	 * @returns The CSV text
+	 */
+	static toCsv(records: UsageRecord[]): string {
+		const escape = (value: unknown): string => {
+			const text = value === null || value === undefined ? '' : String(value);
+			return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+		};
+		const lines = records.map((record) => UsageLedger.CSV_COLUMNS.map((column) => escape(record[column])).join(','));
+		return [UsageLedger.CSV_COLUMNS.join(','), ...lines].join('\n') + '\n';
+	}
+
+	private static getGroupKey(record: UsageRecord, grouping: UsageGrouping): string {
+		switch (grouping) {
+			case 'day':
+				return moment(record.date).format('YYYY-MM-DD');
+			case 'month':
+				return moment(record.date).format('YYYY-MM');
+			case 'provider':
+				return record.modelId.split(':')[0];
+			case 'model':
+				return record.modelId;
+		}
+	}
+}
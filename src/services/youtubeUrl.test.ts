@@ -0,0 +1,136 @@
+import { YouTubeUrlParser } from './youtubeUrl';
+
+const VIDEO_ID = 'dQw4w9WgXcQ';
+const PLAYLIST_ID = 'PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf';
+
+describe('YouTubeUrlParser.parse', () => {
+	describe('video URLs', () => {
+		it.each([
+			['a watch page', `https://www.youtube.com/watch?v=${VIDEO_ID}`],
+			['a watch page with extra parameters', `https://www.youtube.com/watch?feature=share&v=${VIDEO_ID}&ab_channel=Rick`],
+			['a watch page with the id in the path', `https://www.youtube.com/watch/${VIDEO_ID}`],
+			['a short link', `https://youtu.be/${VIDEO_ID}`],
+			['a short link with a share parameter', `https://youtu.be/${VIDEO_ID}?si=AbCdEfGhIjKlMnOp`],
+			['a mobile page', `https://m.youtube.com/watch?v=${VIDEO_ID}`],
+			['a YouTube Music page', `https://music.youtube.com/watch?v=${VIDEO_ID}&feature=share`],
+			['an http URL', `http://www.youtube.com/watch?v=${VIDEO_ID}`],
+			['a bare domain', `youtube.com/watch?v=${VIDEO_ID}`],
+			['a bare www domain', `www.youtube.com/watch?v=${VIDEO_ID}`],
+			['a bare short link', `youtu.be/${VIDEO_ID}`],
+			['an uppercase host', `https://WWW.YOUTUBE.COM/watch?v=${VIDEO_ID}`],
+			['a legacy /v/ link', `https://www.youtube.com/v/${VIDEO_ID}`],
+			['a URL with surrounding whitespace', `  https://www.youtube.com/watch?v=${VIDEO_ID}\n`],
+		])('parses %s', (_, url) => {
+			expect(YouTubeUrlParser.parse(url)).toEqual({
+				kind: 'video',
+				videoId: VIDEO_ID,
+				playlistId: null,
+				startTime: null,
+			});
+		});
+
+		it.each([
+			['a shorts', `https://www.youtube.com/shorts/${VIDEO_ID}`, 'short'],
+			['a mobile shorts', `https://m.youtube.com/shorts/${VIDEO_ID}?feature=share`, 'short'],
+			['a live stream', `https://www.youtube.com/live/${VIDEO_ID}?si=AbCdEfGhIjKlMnOp`, 'live'],
+			['an embed', `https://www.youtube.com/embed/${VIDEO_ID}`, 'embed'],
+			['a privacy-enhanced embed', `https://www.youtube-nocookie.com/embed/${VIDEO_ID}?rel=0`, 'embed'],
+		])('parses %s URL', (_, url, kind) => {
+			expect(YouTubeUrlParser.parse(url)).toMatchObject({ kind, videoId: VIDEO_ID, playlistId: null });
+		});
+
+		it('follows attribution links', () => {
+			const url = `https://www.youtube.com/attribution_link?a=abc&u=%2Fwatch%3Fv%3D${VIDEO_ID}%26feature%3Dshare`;
+			expect(YouTubeUrlParser.parse(url)).toMatchObject({ kind: 'video', videoId: VIDEO_ID });
+		});
+	});
+
+	describe('start times', () => {
+		it.each([
+			['seconds', `https://youtu.be/${VIDEO_ID}?t=90`, 90],
+			['seconds with unit', `https://www.youtube.com/watch?v=${VIDEO_ID}&t=90s`, 90],
+			['minutes and seconds', `https://youtu.be/${VIDEO_ID}?t=1m5s`, 65],
+			['hours, minutes and seconds', `https://www.youtube.com/watch?v=${VIDEO_ID}&t=1h2m3s`, 3723],
+			['hours only', `https://www.youtube.com/watch?v=${VIDEO_ID}&t=1h`, 3600],
+			['embed start parameter', `https://www.youtube-nocookie.com/embed/${VIDEO_ID}?start=42`, 42],
+			['fragment', `https://www.youtube.com/watch?v=${VIDEO_ID}#t=2m`, 120],
+		])('reads %s', (_, url, startTime) => {
+			expect(YouTubeUrlParser.parse(url)?.startTime).toBe(startTime);
+		});
+
+		it('ignores an invalid start time', () => {
+			expect(YouTubeUrlParser.parse(`https://youtu.be/${VIDEO_ID}?t=soon`)).toMatchObject({
+				videoId: VIDEO_ID,
+				startTime: null,
+			});
+		});
+	});
+
+	describe('playlists', () => {
+		it.each([
+			['a playlist page', `https://www.youtube.com/playlist?list=${PLAYLIST_ID}`],
+			['a mobile playlist page', `https://m.youtube.com/playlist?list=${PLAYLIST_ID}`],
+			['a YouTube Music playlist', `https://music.youtube.com/playlist?list=${PLAYLIST_ID}`],
+			['an embedded playlist', `https://www.youtube.com/embed/videoseries?list=${PLAYLIST_ID}`],
+		])('parses %s', (_, url) => {
+			expect(YouTubeUrlParser.parse(url)).toEqual({
+				kind: 'playlist',
+				videoId: null,
+				playlistId: PLAYLIST_ID,
+				startTime: null,
+			});
+		});
+
+		it.each([
+			['a watch page', `https://www.youtube.com/watch?v=${VIDEO_ID}&list=${PLAYLIST_ID}&index=3`],
+			['a short link', `https://youtu.be/${VIDEO_ID}?list=${PLAYLIST_ID}`],
+		])('keeps both ids of %s in a playlist', (_, url) => {
+			expect(YouTubeUrlParser.parse(url)).toEqual({
+				kind: 'video',
+				videoId: VIDEO_ID,
+				playlistId: PLAYLIST_ID,
+				startTime: null,
+			});
+		});
+	});
+
+	describe('rejected URLs', () => {
+		it.each([
+			['empty text', ''],
+			['text with spaces', `watch this https://youtu.be/${VIDEO_ID}`],
+			['look-alike host', `https://youtube.com.evil.example/watch?v=${VIDEO_ID}`],
+			['host ending with youtube.com', `https://notyoutube.com/watch?v=${VIDEO_ID}`],
+			['look-alike short link host', `https://youtu.be.example.com/${VIDEO_ID}`],
+			['typo host', `https://youtub.com/watch?v=${VIDEO_ID}`],
+			['unsupported scheme', `ftp://www.youtube.com/watch?v=${VIDEO_ID}`],
+			['javascript URL', `javascript://www.youtube.com/watch?v=${VIDEO_ID}`],
+			['channel page', 'https://www.youtube.com/@RickAstleyYT'],
+			['home page', 'https://www.youtube.com/'],
+			['watch page without video', 'https://www.youtube.com/watch'],
+			['too short video id', 'https://www.youtube.com/watch?v=dQw4w9'],
+			['too long video id', `https://youtu.be/${VIDEO_ID}x`],
+			['video id with invalid characters', 'https://www.youtube.com/watch?v=dQw4w9WgX!Q'],
+			['playlist page without list', 'https://www.youtube.com/playlist'],
+			['not a URL', 'not a url'],
+		])('rejects %s', (_, url) => {
+			expect(YouTubeUrlParser.parse(url)).toBeNull();
+		});
+	});
+});
+
+describe('YouTubeUrlParser.parseStartTime', () => {
+	it.each([
+		['0', 0],
+		['75', 75],
+		['75s', 75],
+		['2m', 120],
+		['1h30m', 5400],
+		['1h2m3s', 3723],
+	])('parses %s', (value, seconds) => {
+		expect(YouTubeUrlParser.parseStartTime(value)).toBe(seconds);
+	});
+
+	it.each(['', 'abc', '1:30', '-5', '1x'])('rejects %p', (value) => {
+		expect(YouTubeUrlParser.parseStartTime(value)).toBeNull();
+	});
+});
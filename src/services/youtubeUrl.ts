@@ -0,0 +1,127 @@
+import { YouTubeUrl, YouTubeUrlKind } from 'src/types';
+
+/**
+ * Parser for the URL shapes used to share YouTube videos and playlists:
+ * watch pages on any YouTube host (www, m, music, bare), youtu.be short links, shorts, live streams,
+ * embeds (including youtube-nocookie.com), legacy `/v/` links and playlists.
+ * The scheme is optional and `http://` is accepted.
+ */
+export class YouTubeUrlParser {
+	// Hosts serving watch, shorts, live, embed and playlist pages
+	private static readonly HOSTS = [
+		'youtube.com',
+		'm.youtube.com',
+		'music.youtube.com',
+		'gaming.youtube.com',
+		'youtube-nocookie.com',
+	];
+	// Host of short links, the video identifier is the path
+	private static readonly SHORT_LINK_HOST = 'youtu.be';
+	private static readonly VIDEO_ID = /^[a-zA-Z0-9_-]{11}$/;
+	private static readonly PLAYLIST_ID = /^[a-zA-Z0-9_-]{2,}$/;
+
+	/**
+	 * Parses a YouTube URL
+	 * @param input - The URL, with or without scheme
+	 * @returns The parsed URL, or null if it is not a link to a YouTube video or playlist
+	 * @example
+	 * YouTubeUrlParser.parse('youtu.be/dQw4w9WgXcQ?t=1m5s');
+	 * // { kind: 'video', videoId: 'dQw4w9WgXcQ', playlistId: null, startTime: 65 }
+	 */
+	static parse(input: string): YouTubeUrl | null {
+		let text = input.trim();
+		if (!text || /\s/.test(text)) return null;
+		if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(text)) {
+			text = `https://${text}`;
+		}
+
+		let url: URL;
+		try {
+			url = new URL(text);
+		} catch {
+			return null;
+		}
+		if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+
+		const host = url.hostname.toLowerCase().replace(/^www\./, '');
+		const segments = url.pathname.split('/').filter((segment) => segment);
+
+		let kind: YouTubeUrlKind = 'video';
+		let videoId: string | null = null;
+		if (host === YouTubeUrlParser.SHORT_LINK_HOST) {
+			videoId = segments[0] ?? null;
+		} else if (YouTubeUrlParser.HOSTS.includes(host)) {
+			switch (segments[0]) {
+			case 'watch':
+				videoId = url.searchParams.get('v') ?? segments[1] ?? null;
+				break;
+			case 'shorts':
+				kind = 'short';
+				videoId = segments[1] ?? null;
+				break;
+			case 'live':
+				kind = 'live';
+				videoId = segments[1] ?? null;
+				break;
+			case 'embed':
+				kind = 'embed';
+				// Embedded playlists use /embed/videoseries?list=...
+				videoId = segments[1] === 'videoseries' ? null : segments[1] ?? null;
+				break;
+			case 'v':
+			case 'e':
+				videoId = segments[1] ?? null;
+				break;
+			case 'attribution_link': {
+				// Redirect links wrap the watch URL in the `u` parameter
+				const target = url.searchParams.get('u');
+				return target ? YouTubeUrlParser.parse(`https://${host}${target}`) : null;
+			}
+			case 'playlist':
+				break;
+			default:
+				return null;
+			}
+		} else {
+			return null;
+		}
+
+		if (videoId !== null && !YouTubeUrlParser.VIDEO_ID.test(videoId)) {
+			videoId = null;
+		}
+		let playlistId = url.searchParams.get('list');
+		if (playlistId !== null && !YouTubeUrlParser.PLAYLIST_ID.test(playlistId)) {
+			playlistId = null;
+		}
+
+		if (!videoId) {
+			if (!playlistId) return null;
+			kind = 'playlist';
+		}
+
+		const hashTime = new URLSearchParams(url.hash.replace(/^#/, '')).get('t');
+		const time = url.searchParams.get('t') ?? url.searchParams.get('start') ?? hashTime;
+		return {
+			kind,
+			videoId,
+			playlistId,
+			startTime: time ? YouTubeUrlParser.parseStartTime(time) : null,
+		};
+	}
+
+	/**
+	 * Parses the start time of a URL
+	 * @param value - Value of the `t` or `start` parameter, e.g. `90`, `90s` or `1h2m3s`
+	 * @returns The start time in seconds, or null if the value is invalid
+	 */
+	static parseStartTime(value: string): number | null {
+		if (/^\d+s?$/.test(value)) {
+			return parseInt(value, 10);
+		}
+
+		const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+		if (!match || !value) return null;
+		const [, hours = '0', minutes = '0', seconds = '0'] = match;
+		return parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseInt(seconds, 10);
+	}
+}
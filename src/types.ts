@@ -1,5 +1,5 @@
 /** The type of AI provider */
-export type ProviderType = "openai" | "anthropic" | "gemini";
+export type ProviderType = "openai" | "anthropic" | "gemini" | "ollama";
 
 interface BaseProvider {
 	name: string;
@@ -17,22 +17,150 @@ export interface ProviderConfig extends BaseProvider {
 export interface ModelConfig {
 	name: string; // unique
 	displayName?: string;
-	pricing?: string;
+	pricing?: ModelPricing;
+	/** Context window of the model in tokens */
+	contextWindow?: number;
+	/** Generation parameters overriding the global settings */
+	parameters?: ModelParameters;
 	provider: ProviderConfig;
 }
 
+/** Prices of a model in US dollars per million tokens */
+export interface ModelPricing {
+	input: number;
+	output: number;
+	/** Price of input tokens read from the prompt cache of the provider */
+	cachedInput?: number;
+	/** Higher prices applying to requests whose prompt exceeds a number of tokens */
+	longContext?: {
+		threshold: number;
+		input: number;
+		output: number;
+		cachedInput?: number;
+	};
+	/** Free text remark, e.g. that the model is deprecated */
+	note?: string;
+}
+
+/** Tokens used by a request, as reported by the provider */
+export interface TokenUsage {
+	/** Prompt tokens, including the cached ones */
+	inputTokens: number;
+	/** Generated tokens, including reasoning and thinking tokens */
+	outputTokens: number;
+	cachedInputTokens?: number;
+	/** The model that answered, set by the fallback chain */
+	modelId?: string;
+}
+
+/** Callback receiving the token usage of each request */
+export type UsageCallback = (usage: TokenUsage) => void;
+
+/** A request recorded in the usage ledger */
+export interface UsageRecord {
+	/** Date and time of the request, ISO 8601 */
+	date: string;
+	/** The model that answered, "Provider:Model" */
+	modelId: string;
+	inputTokens: number;
+	outputTokens: number;
+	/** Cost in US dollars, null when the model has no pricing */
+	cost: number | null;
+	/** The summarized video, the playlist of an overview, or the title of a transcript read from the vault */
+	videoId: string;
+}
+
+/** How the usage ledger is aggregated */
+export type UsageGrouping = 'day' | 'month' | 'provider' | 'model';
+
+/** Usage of a group of requests, e.g. of a day or a model */
+export interface UsageSummary {
+	/** The day, month, provider or model */
+	key: string;
+	requests: number;
+	/** Number of distinct videos */
+	videos: number;
+	inputTokens: number;
+	outputTokens: number;
+	/** Cost in US dollars of the requests to models with pricing */
+	cost: number;
+	/** Number of requests to models without pricing */
+	unpricedRequests: number;
+}
+
+/** What happens to new summaries once the monthly budget is spent */
+export type BudgetAction = 'warn' | 'block';
+
+/** Reasoning effort of reasoning models, e.g. OpenAI o-series and GPT-5 */
+export type ReasoningEffort = 'minimal' | 'low' | 'medium' | 'high';
+
+/** Generation parameters of a model, each overriding the global setting or the provider default when set */
+export interface ModelParameters {
+	/** Maximum number of output tokens */
+	maxTokens?: number;
+	temperature?: number;
+	topP?: number;
+	/** Sent to reasoning models instead of the temperature */
+	reasoningEffort?: ReasoningEffort;
+	/** Tokens Claude and Gemini models may spend on thinking before answering */
+	thinkingBudget?: number;
+}
+
+/** Generation parameters sent by a provider, resolved from the model parameters and the global settings */
+export interface GenerationParameters extends ModelParameters {
+	maxTokens: number;
+	temperature: number;
+}
+
+/** A model offered by the list-models endpoint of a provider */
+export interface DiscoveredModel {
+	name: string;
+	displayName: string;
+	/** Context window in tokens, when the provider reports it */
+	contextWindow?: number;
+}
+
 /** Stored model configuration without provider reference */
 export interface StoredModel {
 	name: string;
 	displayName: string;
-	pricing?: string;
+	pricing?: ModelPricing;
+	/** Context window of the model in tokens, used to split long transcripts */
+	contextWindow?: number;
+	/** Generation parameters overriding the global settings */
+	parameters?: ModelParameters;
 }
 
 /** Stored provider configuration with associated models */
-export interface StoredProvider extends BaseProvider {
+export interface StoredProvider extends Omit<BaseProvider, 'apiKey'> {
+	/** API key in plain text, only kept when no key storage is available */
+	apiKey?: string;
+	/** Reference to the API key kept out of data.json */
+	apiKeyRef?: ApiKeyRef;
 	models: StoredModel[];
 }
 
+/** Reference to an API key kept out of data.json */
+export type ApiKeyRef =
+	| { type: 'secret'; id: string } // Obsidian's secret storage
+	| { type: 'encrypted'; data: string; iv: string } // AES-GCM with the passphrase key, base64
+	| { type: 'env'; variable: string };
+
+/** Where the API key of a provider is kept, 'locked' when encrypted and the passphrase wasn't entered yet */
+export type ApiKeyStorage = ApiKeyRef['type'] | 'locked' | 'plain' | 'none';
+
+/** Salt of the passphrase encrypting API keys, with a known text to check the passphrase against */
+export interface KeyEncryption {
+	salt: string;
+	check: { data: string; iv: string };
+}
+
+/** A named summary prompt */
+export interface PromptPreset {
+	name: string; // unique
+	prompt: string;
+}
+
 /** Stored settings configuration */
 export interface StoredSettings {
 	providers: StoredProvider[];
@@ -40,6 +168,32 @@ export interface StoredSettings {
 	customPrompt: string;
 	maxTokens: number;
 	temperature: number;
+	fallbackModelIds: string[]; // "Provider:Model", tried in order
+	maxRetries: number;
+	confirmCost: boolean;
+	costConfirmationThreshold: number;
+	monthlyBudget: number;
+	budgetAction: BudgetAction;
+	noteFolder: string;
+	noteFilenamePattern: string;
+	addFrontmatter: boolean;
+	noteTemplate: string;
+	noteTemplatePath: string;
+	timestampLinks: boolean;
+	appendTranscript: boolean;
+	transcriptFormat: TranscriptFormat;
+	captionLanguages: string[];
+	captionKind: CaptionKind;
+	translateCaptions: boolean;
+	summaryLanguage: string;
+	streamOutput: boolean;
+	concurrentJobs: number;
+	cacheTranscripts: boolean;
+	transcriptCacheTtlDays: number;
+	transcriptCacheMaxSizeMb: number;
+	cacheSummaries: boolean;
+	promptPresets: PromptPreset[];
+	keyEncryption: KeyEncryption | null;
 }
 
 /** Represents the plugin settings and provides methods to manage them */
@@ -49,6 +203,9 @@ export interface PluginSettings {
 	/** Gets the currently selected model */
 	getSelectedModel(): ModelConfig | null;
 
+	/** Gets the fallback models in order, skipping the ones that were deleted */
+	getFallbackModels(): ModelConfig[];
+
 	/** Gets all available providers */
 	getProviders(): ProviderConfig[];
 
@@ -64,8 +221,83 @@ export interface PluginSettings {
 	/** Gets the temperature setting for API requests */
 	getTemperature(): number;
 
+	/** Gets the ids of the models tried in order when the selected model fails */
+	getFallbackModelIds(): string[];
+
+	/** Gets how many times a transient error is retried before falling back */
+	getMaxRetries(): number;
+
+	/** Gets whether the estimated cost of a summary is confirmed before sending the transcript */
+	getConfirmCost(): boolean;
+
+	/** Gets the estimated cost in US dollars above which a summary is confirmed */
+	getCostConfirmationThreshold(): number;
+
+	/** Gets the monthly budget in US dollars (0 for no budget) */
+	getMonthlyBudget(): number;
+
+	/** Gets whether summaries are only warned about or blocked once the monthly budget is spent */
+	getBudgetAction(): BudgetAction;
+
+	/** Gets the folder where new summary notes are created */
+	getNoteFolder(): string;
+
+	/** Gets the filename pattern for new summary notes */
+	getNoteFilenamePattern(): string;
+
+	/** Gets whether video metadata is added to the note frontmatter */
+	getAddFrontmatter(): boolean;
+
+	/** Gets the output note template */
+	getNoteTemplate(): string;
+
+	/** Gets the path of the template note in the vault (empty to use the template text) */
+	getNoteTemplatePath(): string;
+
+	/** Gets whether the summary includes timestamped chapter links */
+	getTimestampLinks(): boolean;
+
+	/** Gets whether the transcript is appended to summaries */
+	getAppendTranscript(): boolean;
+
+	/** Gets the format of inserted transcripts */
+	getTranscriptFormat(): TranscriptFormat;
+
+	/** Gets the preferred caption languages, in priority order */
+	getCaptionLanguages(): string[];
+
+	/** Gets the preferred kind of caption track */
+	getCaptionKind(): CaptionKind;
+
+	/** Gets whether translated caption tracks are requested when no preferred language is available */
+	getTranslateCaptions(): boolean;
+
+	/** Gets the language of generated summaries (empty for the language of the video) */
+	getSummaryLanguage(): string;
+
+	/** Gets whether summaries are written into the note while they are generated */
+	getStreamOutput(): boolean;
+
+	/** Gets the maximum number of videos processed at the same time */
+	getConcurrentJobs(): number;
+
+	/** Gets whether fetched transcripts are cached in the plugin folder */
+	getCacheTranscripts(): boolean;
+
+	/** Gets the number of days cached transcripts are used (0 to keep them until evicted) */
+	getTranscriptCacheTtlDays(): number;
+
+	/** Gets the maximum size of the transcript cache in megabytes */
+	getTranscriptCacheMaxSizeMb(): number;
+
+	/** Gets whether generated summaries are cached and reused for identical requests */
+	getCacheSummaries(): boolean;
+
+	/** Gets the named prompt presets */
+	getPromptPresets(): PromptPreset[];
+
 	/** Adds a new provider */
-	addProvider(provider: ProviderConfig): void;
+	addProvider(provider: ProviderConfig): Promise<void>;
 
 	/** Adds a new model to a provider */
 	addModel(model: ModelConfig): void;
@@ -74,7 +306,21 @@ export interface PluginSettings {
 	updateProvider(provider: ProviderConfig, originalName: string): void;
 
 	/** Updates an existing model */
-	updateModel(modelName: string, modelDisplayName: string, providerName: string): void;
+	updateModel(
+		modelName: string,
+		modelDisplayName: string,
+		providerName: string,
+		contextWindow?: number,
+		parameters?: ModelParameters,
+		pricing?: ModelPricing
+	): void;
+
+	/**
+	 * Tells whether a model is a default model of a built-in provider, whose pricing is kept up to date by the plugin.
+	 * @param providerName - The name of the provider.
+	 * @param modelName - The name of the model.
+	 */
+	isBuiltInModel(providerName: string, modelName: string): boolean;
 
 	/** Deletes a provider if it has no associated models */
 	deleteProvider(provider: ProviderConfig): void;
@@ -94,9 +340,124 @@ export interface PluginSettings {
 	/** Updates the temperature setting */
 	updateTemperature(temperature: number): void;
 
+	/** Updates the ids of the fallback models */
+	updateFallbackModelIds(modelIds: string[]): void;
+
+	/** Updates the number of retries of transient errors */
+	updateMaxRetries(retries: number): void;
+
+	/** Updates whether the estimated cost of a summary is confirmed */
+	updateConfirmCost(enabled: boolean): void;
+
+	/** Updates the estimated cost in US dollars above which a summary is confirmed */
+	updateCostConfirmationThreshold(threshold: number): void;
+
+	/** Updates the monthly budget in US dollars */
+	updateMonthlyBudget(budget: number): void;
+
+	/** Updates whether summaries are warned about or blocked once the monthly budget is spent */
+	updateBudgetAction(action: BudgetAction): void;
+
+	/** Updates the folder where new summary notes are created */
+	updateNoteFolder(folder: string): void;
+
+	/** Updates the filename pattern for new summary notes */
+	updateNoteFilenamePattern(pattern: string): void;
+
+	/** Updates whether video metadata is added to the note frontmatter */
+	updateAddFrontmatter(enabled: boolean): void;
+
+	/** Updates the output note template */
+	updateNoteTemplate(template: string): void;
+
+	/** Updates the path of the template note in the vault */
+	updateNoteTemplatePath(path: string): void;
+
+	/** Updates whether the summary includes timestamped chapter links */
+	updateTimestampLinks(enabled: boolean): void;
+
+	/** Updates whether the transcript is appended to summaries */
+	updateAppendTranscript(enabled: boolean): void;
+
+	/** Updates the format of inserted transcripts */
+	updateTranscriptFormat(format: TranscriptFormat): void;
+
+	/** Updates the preferred caption languages */
+	updateCaptionLanguages(languages: string[]): void;
+
+	/** Updates the preferred kind of caption track */
+	updateCaptionKind(kind: CaptionKind): void;
+
+	/** Updates whether translated caption tracks are requested */
+	updateTranslateCaptions(enabled: boolean): void;
+
+	/** Updates the language of generated summaries */
+	updateSummaryLanguage(language: string): void;
+
+	/** Updates whether summaries are written into the note while they are generated */
+	updateStreamOutput(enabled: boolean): void;
+
+	/** Updates the maximum number of videos processed at the same time */
+	updateConcurrentJobs(count: number): void;
+
+	/** Updates whether fetched transcripts are cached */
+	updateCacheTranscripts(enabled: boolean): void;
+
+	/** Updates the number of days cached transcripts are used */
+	updateTranscriptCacheTtlDays(days: number): void;
+
+	/** Updates the maximum size of the transcript cache */
+	updateTranscriptCacheMaxSizeMb(size: number): void;
+
+	/** Updates whether generated summaries are cached */
+	updateCacheSummaries(enabled: boolean): void;
+
+	/** Adds a new prompt preset */
+	addPromptPreset(preset: PromptPreset): void;
+
+	/** Updates an existing prompt preset */
+	updatePromptPreset(preset: PromptPreset, originalName: string): void;
+
+	/** Deletes a prompt preset */
+	deletePromptPreset(name: string): void;
+
 	/** Saves the API key for a provider without validation */
 	saveProviderKey(providerName: string, key: string): Promise<void>;
 
+	/**
+	 * Gets the API key of a provider as entered in the settings: the key, or the reference to an environment variable.
+	 * @param providerName - The name of the provider.
+	 */
+	getApiKeyInput(providerName: string): string;
+
+	/**
+	 * Gets where the API key of a provider is kept.
+	 * @param providerName - The name of the provider.
+	 */
+	getApiKeyStorage(providerName: string): ApiKeyStorage;
+
+	/** Tells whether Obsidian's secret storage is available to keep API keys */
+	hasSecretStorage(): boolean;
+
+	/** Tells whether a passphrase was set to encrypt API keys */
+	hasPassphrase(): boolean;
+
+	/** Tells whether API keys are encrypted and the passphrase wasn't entered in this session */
+	isLocked(): boolean;
+
+	/**
+	 * Sets the passphrase encrypting API keys, encrypting again the keys of all providers.
+	 * @param passphrase - The new passphrase.
+	 */
+	setPassphrase(passphrase: string): Promise<void>;
+
+	/**
+	 * Decrypts the API keys with the passphrase, for the rest of the session.
+	 * @param passphrase - The passphrase.
+	 * @returns Whether the passphrase is correct.
+	 */
+	unlockApiKeys(passphrase: string): Promise<boolean>;
+
 	/**
 	 * Validates a model ID.
 	 * Correct format is "ProviderName:ModelName". Check that provider and model exist.
@@ -107,6 +468,77 @@ export interface PluginSettings {
 	validateModelId(modelId: string): boolean;
 }
 
+/** Markdown format of transcripts inserted into notes */
+export type TranscriptFormat = 'paragraphs' | 'lines' | 'callout';
+
+/** Options of a single summarization run */
+export interface SummaryOptions {
+	/** Instructions appended to the prompt for this run */
+	customPrompt?: string;
+	/** Language of the summary for this run, overrides the setting (empty for the language of the video) */
+	summaryLanguage?: string;
+	/** Name of the prompt preset used instead of the default prompt */
+	promptPreset?: string;
+	/** Whether to fetch the transcript again instead of using the cached one */
+	refreshTranscript?: boolean;
+	/** Whether to generate a new summary instead of using the cached one */
+	regenerate?: boolean;
+	/** Whether the cost was already confirmed, e.g. for a whole batch of videos */
+	costConfirmed?: boolean;
+}
+
+/** Kind of page a YouTube URL points to */
+export type YouTubeUrlKind = 'video' | 'short' | 'live' | 'embed' | 'playlist';
+
+/** A parsed YouTube URL */
+export interface YouTubeUrl {
+	kind: YouTubeUrlKind;
+	videoId: string | null; // null for playlist URLs
+	playlistId: string | null; // `list` parameter
+	startTime: number | null; // `t` or `start` parameter, in seconds
+}
+
+/** A video of a playlist */
+export interface PlaylistVideo {
+	videoId: string;
+	title: string;
+	duration: number; // in seconds, 0 when unknown
+}
+
+/** A YouTube playlist with its videos in order */
+export interface Playlist {
+	id: string;
+	url: string;
+	title: string;
+	author: string;
+	videos: PlaylistVideo[];
+}
+
+/** A link to a YouTube video found in a note */
+export interface VideoLink {
+	url: string;
+	videoId: string;
+	title: string; // text of the Markdown link, empty for bare URLs
+	from: number; // offset of the link in the note, including the Markdown link syntax
+	to: number;
+}
+
+/** How the summaries of the videos linked in a note are written */
+export type BatchOutput = 'replace' | 'notes';
+
+/** Status of a background job */
+export type JobStatus = 'queued' | 'fetching' | 'generating' | 'writing' | 'completed' | 'failed' | 'cancelled';
+
+/** A background job, such as summarizing a video */
+export interface Job {
+	id: number;
+	label: string; // video URL, replaced by the video title once known
+	status: JobStatus;
+	message: string; // current step, or the error of a failed job
+	createdAt: number;
+	finishedAt?: number;
+}
+
 /** Represents a single line of video transcript with timing information */
 export interface TranscriptLine {
 	text: string;
@@ -114,6 +546,9 @@ export interface TranscriptLine {
 	offset: number;
 }
 
+/** Subtitle file formats that can be summarized: SubRip, WebVTT, YouTube SBV and YouTube timedtext XML */
+export type SubtitleFormat = 'srt' | 'vtt' | 'sbv' | 'xml';
+
 /** Response structure for video transcript and metadata */
 export interface TranscriptResponse {
 	url: string;
@@ -121,9 +556,41 @@ export interface TranscriptResponse {
 	title: string;
 	author: string;
 	channelUrl: string;
+	/** Video length in seconds */
+	duration: number;
+	/** Publish date (YYYY-MM-DD), empty when YouTube doesn't provide it */
+	publishDate: string;
+	/** Language code of the caption track the transcript was taken from */
+	language: string;
+	/** Human readable description of the caption track, e.g. `German (auto-generated)` */
+	captionTrack: string;
+	/** Chapters defined by the creator, empty when the video has none */
+	chapters: VideoChapter[];
 	lines: TranscriptLine[];
 }
 
+/** A chapter of a video */
+export interface VideoChapter {
+	title: string;
+	/** Start of the chapter in seconds */
+	start: number;
+}
+
+/** Values available to the output note template placeholders */
+export interface TemplateData {
+	title: string;
+	author: string;
+	channelUrl: string;
+	url: string;
+	thumbnail: string;
+	summary: string;
+	transcript: string;
+	videoId: string;
+	duration: string;
+	publishDate: string;
+	language: string;
+}
+
 /** Available thumbnail quality options with dimensions */
 export interface ThumbnailQuality {
 	default: string; // 120x90
@@ -134,14 +601,51 @@ export interface ThumbnailQuality {
 }
 
 export interface AIModelProvider {
+	/** Checks the key and the model. Resolves to false when the model is unknown, rejects with the error of the provider otherwise */
 	testConnection(): Promise<boolean>;
-	summarizeVideo(videoId: string, prompt: string): Promise<string>;
+	/** Generates a summary, reporting the tokens used to `onUsage` when the provider returns them */
+	summarizeVideo(videoId: string, prompt: string, signal?: AbortSignal, onUsage?: UsageCallback): Promise<string>;
+	/** Generates a summary as a stream of text deltas. Optional for providers without streaming support */
+	streamSummary?(videoId: string, prompt: string, signal?: AbortSignal, onUsage?: UsageCallback): AsyncGenerator<string>;
+	/** Tells whether an error is worth retrying: rate limits, overloaded or unavailable servers, network failures */
+	isTransientError?(error: unknown): boolean;
+	/** Tells whether the response to a prompt is cached, so that it costs no request. Optional for providers without cache */
+	hasCachedResponse?(prompt: string): Promise<boolean>;
+}
+
+/** Reason of a failed connection test */
+export type ConnectionErrorKind = 'auth' | 'quota' | 'rate-limit' | 'model' | 'url' | 'server' | 'network' | 'unknown';
+
+/** Result of testing the connection to a provider or a model */
+export interface ConnectionTestResult {
+	ok: boolean;
+	/** Duration of the request in milliseconds */
+	latencyMs: number;
+	errorKind?: ConnectionErrorKind;
+	/** What went wrong and how to fix it */
+	message?: string;
+}
+
+/** Kind of caption track: uploaded by the creator or generated by speech recognition */
+export type CaptionKind = 'manual' | 'auto';
+
+/** Caption track selection options */
+export interface CaptionOptions {
+	/** Preferred language codes, in priority order */
+	languages: string[];
+	/** Kind of track to use when both exist for a language */
+	preferredKind: CaptionKind;
+	/** Whether to request a track translated by YouTube when no preferred language is available */
+	translate: boolean;
 }
 
-/** Transcript configuration options */
-export interface TranscriptConfig {
-	lang?: string;
-	country?: string;
+/** A caption track of a video, as resolved from the caption options */
+export interface CaptionTrackId {
+	/** Language code of the track */
+	languageCode: string;
+	kind: CaptionKind;
+	/** Language code the track is translated to by YouTube, empty when it is not translated */
+	translatedTo: string;
 }
 
 /** Transcript request structure */
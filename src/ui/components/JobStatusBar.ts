@@ -0,0 +1,56 @@
+import { setIcon } from 'obsidian';
+import { JobStatus } from '../../types';
+import { JobQueue } from '../../services/jobQueue';
+
+/**
+ * Status bar item showing the progress of the oldest running job and the number of other jobs.
+ * Hidden while no job is queued.
+ */
+export class JobStatusBar {
+    private static readonly STATUS_LABELS: Record<JobStatus, string> = {
+        queued: 'Waiting',
+        fetching: 'Fetching transcript',
+        generating: 'Generating summary',
+        writing: 'Writing',
+        completed: 'Completed',
+        failed: 'Failed',
+        cancelled: 'Cancelled'
+    };
+    // Maximum number of characters of the job label shown in the status bar
+    private static readonly MAX_LABEL_LENGTH = 30;
+
+    constructor(
+        private statusBarEl: HTMLElement,
+        private queue: JobQueue,
+        onClick: () => void
+    ) {
+        this.statusBarEl.addClass('yt-summarizer-status', 'mod-clickable');
+        this.statusBarEl.addEventListener('click', onClick);
+        this.render();
+    }
+
+    render(): void {
+        const [current, ...others] = this.queue.getActiveJobs();
+        this.statusBarEl.empty();
+        this.statusBarEl.toggleClass('yt-summarizer-hidden', !current);
+        if (!current) return;
+
+        setIcon(this.statusBarEl.createSpan({ cls: 'yt-summarizer-status__icon' }), 'youtube');
+
+        const label = current.label.length > JobStatusBar.MAX_LABEL_LENGTH
+            ? `${current.label.slice(0, JobStatusBar.MAX_LABEL_LENGTH)}…`
+            : current.label;
+        let text = `${JobStatusBar.STATUS_LABELS[current.status]}: ${label}`;
+        const queued = others.filter(job => job.status === 'queued').length;
+        const running = others.length - queued;
+        const counts = [];
+        if (running > 0) counts.push(`+${running} running`);
+        if (queued > 0) counts.push(`${queued} queued`);
+        if (counts.length > 0) {
+            text += ` (${counts.join(', ')})`;
+        }
+        this.statusBarEl.createSpan({ text });
+        this.statusBarEl.setAttribute('aria-label', `${current.message}\nClick to show jobs`);
+        this.statusBarEl.setAttribute('data-tooltip-position', 'top');
+    }
+}
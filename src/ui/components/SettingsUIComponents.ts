@@ -1,9 +1,21 @@
 import { App, Setting, setIcon } from 'obsidian';
-import { ModelConfig, ProviderConfig } from '../../types';
+import { ApiKeyStorage, ConnectionErrorKind, ConnectionTestResult, ModelConfig, PromptPreset, ProviderConfig } from '../../types';
 
 import { SettingsEventHandlers } from '../handlers/SettingsEventHandlers';
+import { PricingService } from '../../services/pricing';
 
 export class SettingsUIComponents {
+    private static readonly CONNECTION_ERROR_LABELS: Record<ConnectionErrorKind, string> = {
+        'auth': 'Invalid key',
+        'quota': 'Quota exceeded',
+        'rate-limit': 'Rate limited',
+        'model': 'Unknown model',
+        'url': 'Wrong URL',
+        'server': 'Server error',
+        'network': 'Unreachable',
+        'unknown': 'Failed'
+    };
+
     constructor(private app: App) { }
 
     createProviderAccordion(provider: ProviderConfig): HTMLElement {
@@ -19,6 +31,7 @@ export class SettingsUIComponents {
         headerInfo.addClass('yt-summarizer-settings__provider-info');
 
         headerInfo.createEl('h3', { text: provider.name });
+        headerInfo.createSpan({ cls: 'yt-summarizer-settings__status-badge' });
 
         // Right side of header - controls
         const headerControls = header.createDiv({ cls: 'yt-summarizer-settings__provider-controls' });
@@ -61,7 +74,8 @@ export class SettingsUIComponents {
         // Status indicator and name in the title
         const title = info.createDiv({ cls: 'setting-item-name' });
         title.createSpan({ text: model.displayName || model.name });
-        const pricing = this.formatPricing(model.pricing);
+        title.createSpan({ cls: 'yt-summarizer-settings__status-badge' });
+        const pricing = PricingService.format(model.pricing);
         if (pricing) {
             info.createDiv({ cls: 'setting-item-description', text: pricing });
         }
@@ -69,6 +83,13 @@ export class SettingsUIComponents {
         // Control container (right side)
         const control = modelItem.createDiv({ cls: 'setting-item-control' });
 
+        // Test button
+        const testButton = control.createEl('button', {
+            cls: 'clickable-icon',
+            attr: { 'aria-label': 'Test model' }
+        });
+        setIcon(testButton, 'activity');
+
         // Edit button
         const editButton = control.createEl('button', {
             cls: 'clickable-icon',
@@ -86,6 +107,37 @@ export class SettingsUIComponents {
         return modelItem;
     }
 
+    createPromptPresetItem(preset: PromptPreset, handlers: SettingsEventHandlers): HTMLElement {
+        const presetItem = document.createElement('div');
+        presetItem.addClass('setting-item');
+        presetItem.addClass('setting-model');
+        presetItem.setAttribute('data-prompt-name', preset.name);
+
+        // Info container (left side)
+        const info = presetItem.createDiv({ cls: 'setting-item-info' });
+        info.createDiv({ cls: 'setting-item-name', text: preset.name });
+        info.createDiv({ cls: 'setting-item-description yt-summarizer-settings__prompt-excerpt', text: preset.prompt });
+
+        // Control container (right side)
+        const control = presetItem.createDiv({ cls: 'setting-item-control' });
+
+        const buttons: { label: string; icon: string; onClick: () => void }[] = [
+            { label: 'Edit prompt', icon: 'pencil', onClick: () => handlers.handlePromptPresetEditClick(preset) },
+            { label: 'Duplicate prompt', icon: 'copy', onClick: () => handlers.handlePromptPresetDuplicateClick(preset) },
+            { label: 'Delete prompt', icon: 'trash', onClick: () => handlers.handlePromptPresetDeleteClick(preset) }
+        ];
+        buttons.forEach(({ label, icon, onClick }) => {
+            const button = control.createEl('button', {
+                cls: 'clickable-icon',
+                attr: { 'aria-label': label }
+            });
+            setIcon(button, icon);
+            button.addEventListener('click', onClick);
+        });
+
+        return presetItem;
+    }
+
     createTabButton(name: string, id: string, isActive: boolean): HTMLElement {
         const tab = document.createElement('div');
         tab.addClass('yt-summarizer-settings__tab');
@@ -99,13 +151,18 @@ export class SettingsUIComponents {
     }
 
     createApiKeySetting(container: HTMLElement, provider: ProviderConfig, handlers: SettingsEventHandlers): Setting {
+        // A key entered while locked could only be saved in plain text
+        const isLocked = handlers.isLocked();
         return new Setting(container)
             .setName('API Key')
-            .setDesc(`Enter your ${provider.name} API key`)
+            .setDesc(isLocked
+                ? 'API keys are locked, unlock them with your passphrase below to change this key.'
+                : `Enter your ${provider.name} API key, or env:VARIABLE to read it from an environment variable. ${this.describeApiKeyStorage(handlers.getApiKeyStorage(provider.name))}`)
             .addText(text => {
                 text
                     .setPlaceholder('Enter API key')
-                    .setValue(provider.apiKey)
+                    .setValue(handlers.getApiKeyInput(provider.name))
+                    .setDisabled(isLocked)
                     .onChange(async (value) => {
                         await handlers.handleApiKeyChange(provider.name, value);
                     });
@@ -114,6 +171,23 @@ export class SettingsUIComponents {
             });
     }
 
+    private describeApiKeyStorage(storage: ApiKeyStorage): string {
+        switch (storage) {
+            case 'secret':
+                return 'Stored in Obsidian\'s secret storage on this device.';
+            case 'encrypted':
+                return 'Encrypted with your passphrase.';
+            case 'locked':
+                return 'Encrypted, unlock it with your passphrase below.';
+            case 'env':
+                return 'Read from an environment variable.';
+            case 'plain':
+                return 'Stored in plain text in data.json, set a passphrase below to encrypt it.';
+            default:
+                return '';
+        }
+    }
+
     // New methods for dynamic UI updates
     addModelToAccordion(model: ModelConfig, handlers: SettingsEventHandlers): void {
         const accordion = document.querySelector(`[data-provider-name="${model.provider.name}"]`);
@@ -123,6 +197,7 @@ export class SettingsUIComponents {
         if (!modelsList) return;
 
         const modelItem = this.createModelItem(model);
+        this.setupModelTest(modelItem, model, handlers);
 
         // Add event listeners
         const editButton = modelItem.querySelector('[aria-label="Edit model"]');
@@ -154,7 +229,7 @@ export class SettingsUIComponents {
         }
 
         const pricingEl = modelItem.querySelector('.setting-item-description');
-        const pricing = this.formatPricing(model.pricing);
+        const pricing = PricingService.format(model.pricing);
         if (pricingEl && pricing) {
             pricingEl.textContent = pricing;
         } else if (!pricingEl && pricing) {
@@ -180,7 +255,7 @@ export class SettingsUIComponents {
             const option = document.createElement('option');
             option.value = `${model.provider.name}:${model.name}`;
             const modelLabel = model.displayName || model.name;
-            const pricing = this.formatPricing(model.pricing);
+            const pricing = PricingService.format(model.pricing);
             option.text = pricing
                 ? `${model.provider.name} / ${modelLabel} (${pricing})`
                 : `${model.provider.name} / ${modelLabel}`;
@@ -224,24 +299,51 @@ export class SettingsUIComponents {
             handlers.handleProviderDeleteClick(provider);
         });
 
-        // Add API Key Setting
-        const apiKeySetting = this.createApiKeySetting(content, provider, handlers);
+        // Show the result of the last test
+        const badge = accordion.querySelector('.yt-summarizer-settings__provider-header .yt-summarizer-settings__status-badge') as HTMLElement;
+        this.renderConnectionStatus(badge, handlers.getConnectionResult(provider.name));
 
-        // Add visibility toggle button
-        apiKeySetting.addExtraButton(button => {
-            button
-                .setIcon('eye')
-                .setTooltip('Show API key')
-                .onClick(() => {
-                    const input = apiKeySetting.controlEl.querySelector('input');
-                    if (input) {
-                        const isPassword = input.type === 'password';
-                        input.type = isPassword ? 'text' : 'password';
-                        button.setIcon(isPassword ? 'eye-off' : 'eye');
-                        button.setTooltip(isPassword ? 'Hide API key' : 'Show API key');
-                    }
-                });
-        });
+        // Add API Key Setting, local Ollama servers don't need a key
+        if (provider.type !== 'ollama') {
+            const apiKeySetting = this.createApiKeySetting(content, provider, handlers);
+            apiKeySetting.controlEl.querySelector('input')?.addEventListener('input', () => {
+                this.renderConnectionStatus(badge, undefined);
+            });
+
+            // Add visibility toggle button
+            apiKeySetting.addExtraButton(button => {
+                button
+                    .setIcon('eye')
+                    .setTooltip('Show API key')
+                    .onClick(() => {
+                        const input = apiKeySetting.controlEl.querySelector('input');
+                        if (input) {
+                            const isPassword = input.type === 'password';
+                            input.type = isPassword ? 'text' : 'password';
+                            button.setIcon(isPassword ? 'eye-off' : 'eye');
+                            button.setTooltip(isPassword ? 'Hide API key' : 'Show API key');
+                        }
+                    });
+            });
+        }
+
+        // Add Test Connection Setting
+        new Setting(content)
+            .setName('Connection')
+            .setDesc(provider.type === 'ollama'
+                ? 'Check that the Ollama server is reachable'
+                : 'Check the API key and the URL by listing the models, without using tokens')
+            .addButton(button =>
+                button
+                    .setButtonText('Test')
+                    .onClick(async () => {
+                        button.setDisabled(true);
+                        this.renderConnectionStatus(badge, 'testing');
+                        const result = await handlers.handleProviderTestClick(provider);
+                        this.renderConnectionStatus(badge, result);
+                        button.setDisabled(false);
+                    })
+            );
 
         // Add Models section
         const modelsSection = content.createDiv();
@@ -256,6 +358,7 @@ export class SettingsUIComponents {
         // Add models
         provider.models?.forEach(model => {
             const modelItem = this.createModelItem(model);
+            this.setupModelTest(modelItem, model, handlers);
 
             // Add event listeners
             const editButton = modelItem.querySelector('[aria-label="Edit model"]');
@@ -282,12 +385,58 @@ export class SettingsUIComponents {
                         handlers.handleAddModelClick(provider);
                     })
             );
+        addModelButton.addButton(button =>
+            button
+                .setButtonText('Fetch models')
+                .setTooltip(provider.type === 'ollama'
+                    ? 'List the models installed on the Ollama server'
+                    : `List the models offered by ${provider.name}`)
+                .onClick(() => {
+                    handlers.handleFetchModelsClick(provider);
+                })
+        );
         addModelButton.settingEl.addClass('yt-summarizer-settings__add-button');
 
         accordionsContainer.appendChild(accordion);
     }
 
-    private formatPricing(pricing?: string): string {
-        return pricing?.trim() ?? '';
+    private setupModelTest(
+        modelItem: HTMLElement,
+        model: ModelConfig,
+        handlers: SettingsEventHandlers
+    ): void {
+        // The provider keeps its own result, a missing model doesn't mean its key or URL is wrong
+        const status = modelItem.querySelector('.yt-summarizer-settings__status-badge') as HTMLElement;
+        this.renderConnectionStatus(status, handlers.getConnectionResult(`${model.provider.name}:${model.name}`));
+
+        const testButton = modelItem.querySelector('[aria-label="Test model"]') as HTMLButtonElement | null;
+        testButton?.addEventListener('click', async () => {
+            testButton.disabled = true;
+            this.renderConnectionStatus(status, 'testing');
+            const result = await handlers.handleModelTestClick(model);
+            this.renderConnectionStatus(status, result);
+            testButton.disabled = false;
+        });
+    }
+
+    /**
+     * Shows the result of a connection test in a status badge, hidden when there is none.
+     */
+    private renderConnectionStatus(badge: HTMLElement, result: ConnectionTestResult | 'testing' | undefined): void {
+        badge.removeClass('is-ok', 'is-error');
+        badge.removeAttribute('aria-label');
+        badge.toggle(result !== undefined);
+        if (result === undefined) return;
+
+        if (result === 'testing') {
+            badge.setText('Testing...');
+        } else if (result.ok) {
+            badge.setText(`Connected · ${result.latencyMs} ms`);
+            badge.addClass('is-ok');
+        } else {
+            badge.setText(SettingsUIComponents.CONNECTION_ERROR_LABELS[result.errorKind ?? 'unknown']);
+            badge.addClass('is-error');
+            badge.setAttribute('aria-label', result.message ?? '');
+        }
     }
 } 
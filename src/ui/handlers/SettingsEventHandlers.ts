@@ -1,7 +1,9 @@
 import { Notice } from 'obsidian';
-import { ModelConfig, ProviderConfig } from '../../types';
+import { ApiKeyStorage, ConnectionTestResult, DiscoveredModel, ModelConfig, PromptPreset, ProviderConfig } from '../../types';
 import { YouTubeSummarizerPlugin } from '../../main';
 import { SettingsModalsFactory } from '../modals/SettingsModalsFactory';
+import { ModelDiscoveryService } from '../../services/modelDiscovery';
+import { ConnectionTestService } from '../../services/connectionTest';
 
 export interface UICallbacks {
     onModelAdded?: (model: ModelConfig) => void;
@@ -11,9 +13,14 @@ export interface UICallbacks {
     onProviderDeleted?: (provider: ProviderConfig) => void;
     onProviderUpdated?: (provider: ProviderConfig, originalName: string) => void;
     onActiveModelChanged?: () => void;
+    onPromptPresetsChanged?: () => void;
+    onApiKeysChanged?: () => void;
 }
 
 export class SettingsEventHandlers {
+    // Results of the connection tests of this session, by provider name and by model id
+    private connectionResults = new Map<string, ConnectionTestResult>();
+
     constructor(
         private plugin: YouTubeSummarizerPlugin,
         private settingsModalsFactory: SettingsModalsFactory,
@@ -55,7 +62,7 @@ export class SettingsEventHandlers {
 
     async handleProviderAdd(provider: ProviderConfig): Promise<void> {
         try {
-            this.plugin.settings.addProvider(provider);
+            await this.plugin.settings.addProvider(provider);
             this.callbacks.onProviderAdded?.(provider);
         } catch (error) {
             new Notice(`Failed to add provider: ${error.message}`);
@@ -118,7 +125,10 @@ export class SettingsEventHandlers {
             this.plugin.settings.updateModel(
                 model.name,
                 model.displayName || model.name,
-                model.provider.name
+                model.provider.name,
+                model.contextWindow,
+                model.parameters,
+                model.pricing
             );
             this.callbacks.onModelUpdated?.(model);
         } catch (error) {
@@ -158,16 +168,191 @@ export class SettingsEventHandlers {
         modal.open();
     }
 
+    // Click on "Fetch models" of a provider
+    async handleFetchModelsClick(provider: ProviderConfig): Promise<void> {
+        let models: DiscoveredModel[];
+        try {
+            new Notice(`Fetching models of ${provider.name}...`);
+            models = await new ModelDiscoveryService().listModels(provider);
+        } catch (error) {
+            console.error(`Failed to fetch models of ${provider.name}:`, error);
+            new Notice(`Failed to fetch models of ${provider.name}: ${error.message}`);
+            return;
+        }
+
+        const modal = this.settingsModalsFactory.createFetchModelsModal(provider, models, (chosen) => {
+            this.handleDiscoveredModelsAdd(provider, chosen);
+        });
+        modal.open();
+    }
+
+    // Click on "Add" in the list of fetched models
+    handleDiscoveredModelsAdd(provider: ProviderConfig, models: DiscoveredModel[]): void {
+        const added: ModelConfig[] = [];
+        for (const discovered of models) {
+            const model: ModelConfig = { ...discovered, provider };
+            try {
+                this.plugin.settings.addModel(model);
+                added.push(model);
+            } catch (error) {
+                console.error(`Failed to add model ${discovered.name}:`, error);
+            }
+        }
+
+        added.forEach(model => this.callbacks.onModelAdded?.(model));
+        new Notice(`Added ${added.length} of ${models.length} model(s) to ${provider.name}`);
+    }
+
+    async handlePromptPresetAdd(preset: PromptPreset): Promise<void> {
+        try {
+            this.plugin.settings.addPromptPreset(preset);
+            this.callbacks.onPromptPresetsChanged?.();
+        } catch (error) {
+            new Notice(`Failed to add prompt: ${error.message}`);
+            throw error;
+        }
+    }
+
+    async handlePromptPresetEdit(preset: PromptPreset, originalName: string): Promise<void> {
+        try {
+            this.plugin.settings.updatePromptPreset(preset, originalName);
+            this.callbacks.onPromptPresetsChanged?.();
+        } catch (error) {
+            console.error('Error updating prompt:', error);
+            new Notice(`Failed to update prompt: ${error.message}`);
+            throw error;
+        }
+    }
+
+    async handlePromptPresetDelete(preset: PromptPreset): Promise<void> {
+        try {
+            this.plugin.settings.deletePromptPreset(preset.name);
+            this.callbacks.onPromptPresetsChanged?.();
+            new Notice(`Prompt ${preset.name} deleted successfully`);
+        } catch (error) {
+            console.error('Error deleting prompt:', error);
+            new Notice(`Failed to delete prompt: ${error.message}`);
+            throw error;
+        }
+    }
+
+    handleAddPromptPresetClick(): void {
+        const modal = this.settingsModalsFactory.createAddPromptPresetModal(this);
+        modal.open();
+    }
+
+    handlePromptPresetEditClick(preset: PromptPreset): void {
+        const modal = this.settingsModalsFactory.createEditPromptPresetModal(preset, this);
+        modal.open();
+    }
+
+    handlePromptPresetDuplicateClick(preset: PromptPreset): void {
+        const modal = this.settingsModalsFactory.createAddPromptPresetModal(this, preset);
+        modal.open();
+    }
+
+    handlePromptPresetDeleteClick(preset: PromptPreset): void {
+        const modal = this.settingsModalsFactory.createDeletePromptPresetModal(preset, this);
+        modal.open();
+    }
+
     /**
      * Handles API key change for a provider and saves it immediately.
      * @param providerName - The name of the provider
      * @param apiKey - The new API key value
      */
     async handleApiKeyChange(providerName: string, apiKey: string): Promise<void> {
+        // Earlier tests don't tell anything about the new key
+        [...this.connectionResults.keys()]
+            .filter(key => key === providerName || key.startsWith(`${providerName}:`))
+            .forEach(key => this.connectionResults.delete(key));
         try {
             await this.plugin.settings.saveProviderKey(providerName, apiKey);
         } catch (error) {
             console.error('Failed to save API key:', error);
+            new Notice(`Failed to save API key: ${error.message}`);
         }
     }
+
+    // Click on "Test" of a provider
+    async handleProviderTestClick(provider: ProviderConfig): Promise<ConnectionTestResult> {
+        // The API key may have changed since the accordion was rendered
+        const current = this.plugin.settings.getProviders().find(p => p.name === provider.name) ?? provider;
+        const result = await new ConnectionTestService().testProvider(current);
+        this.connectionResults.set(provider.name, result);
+        this.notifyConnectionResult(provider.name, result);
+        return result;
+    }
+
+    // Click on "Test model" of a model
+    async handleModelTestClick(model: ModelConfig): Promise<ConnectionTestResult> {
+        const current = this.plugin.settings.getModels().find(
+            m => m.provider.name === model.provider.name && m.name === model.name
+        ) ?? model;
+        const result = await new ConnectionTestService().testModel(
+            current,
+            this.plugin.settings.getMaxTokens(),
+            this.plugin.settings.getTemperature()
+        );
+        this.connectionResults.set(`${model.provider.name}:${model.name}`, result);
+        this.notifyConnectionResult(model.displayName || model.name, result);
+        return result;
+    }
+
+    /**
+     * Gets the result of the last connection test of this session.
+     * @param key - The provider name, or the model id "Provider:Model"
+     */
+    getConnectionResult(key: string): ConnectionTestResult | undefined {
+        return this.connectionResults.get(key);
+    }
+
+    /** Gets the global max tokens, used by the models that don't set their own */
+    getMaxTokens(): number {
+        return this.plugin.settings.getMaxTokens();
+    }
+
+    isBuiltInModel(model: ModelConfig): boolean {
+        return this.plugin.settings.isBuiltInModel(model.provider.name, model.name);
+    }
+
+    getApiKeyInput(providerName: string): string {
+        return this.plugin.settings.getApiKeyInput(providerName);
+    }
+
+    /** Tells whether API keys are encrypted and the passphrase wasn't entered in this session */
+    isLocked(): boolean {
+        return this.plugin.settings.isLocked();
+    }
+
+    getApiKeyStorage(providerName: string): ApiKeyStorage {
+        return this.plugin.settings.getApiKeyStorage(providerName);
+    }
+
+    // Click on "Set passphrase" or "Change passphrase"
+    handleSetPassphraseClick(): void {
+        const modal = this.settingsModalsFactory.createPassphraseModal('set', async (passphrase) => {
+            await this.plugin.settings.setPassphrase(passphrase);
+            new Notice('API keys encrypted with the new passphrase');
+            this.callbacks.onApiKeysChanged?.();
+            return true;
+        });
+        modal.open();
+    }
+
+    private notifyConnectionResult(name: string, result: ConnectionTestResult): void {
+        new Notice(result.ok ? `${name}: connected in ${result.latencyMs} ms` : `${name}: ${result.message}`);
+    }
+
+    // Click on "Unlock"
+    handleUnlockApiKeysClick(): void {
+        const modal = this.settingsModalsFactory.createPassphraseModal('unlock', async (passphrase) => {
+            const unlocked = await this.plugin.settings.unlockApiKeys(passphrase);
+            if (unlocked) {
+                this.callbacks.onApiKeysChanged?.();
+            }
+            return unlocked;
+        });
+        modal.open();
+    }
 }
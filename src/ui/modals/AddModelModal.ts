@@ -1,11 +1,15 @@
 import { App, Modal, Setting } from 'obsidian';
-import { ModelConfig, ProviderConfig } from '../../types';
+import { ModelConfig, ModelPricing, ProviderConfig } from '../../types';
 
 import { SettingsEventHandlers } from '../handlers/SettingsEventHandlers';
+import { DEFAULT_CONTEXT_WINDOW } from '../../defaults';
 
 export class AddModelModal extends Modal {
     private name = '';
     private displayName = '';
+    private contextWindow = '';
+    private inputPrice = '';
+    private outputPrice = '';
 
     constructor(
         app: App,
@@ -43,6 +47,38 @@ export class AddModelModal extends Modal {
                     .onChange(value => this.displayName = value)
             );
 
+        // Context Window (optional)
+        new Setting(contentEl)
+            .setName('Context Window')
+            .setDesc('Maximum number of tokens the model accepts (optional). Longer transcripts are split into parts. Sent to Ollama as num_ctx.')
+            .addText(text =>
+                text
+                    .setPlaceholder(String(DEFAULT_CONTEXT_WINDOW))
+                    .setValue(this.contextWindow)
+                    .onChange(value => this.contextWindow = value)
+            );
+
+        // Pricing (optional)
+        new Setting(contentEl)
+            .setName('Input Price')
+            .setDesc('US dollars per million prompt tokens (optional). Used to estimate the cost of summaries.')
+            .addText(text =>
+                text
+                    .setPlaceholder('0.00')
+                    .setValue(this.inputPrice)
+                    .onChange(value => this.inputPrice = value)
+            );
+
+        new Setting(contentEl)
+            .setName('Output Price')
+            .setDesc('US dollars per million generated tokens (optional)')
+            .addText(text =>
+                text
+                    .setPlaceholder('0.00')
+                    .setValue(this.outputPrice)
+                    .onChange(value => this.outputPrice = value)
+            );
+
         // Buttons
         new Setting(contentEl)
             .addButton(btn =>
@@ -54,6 +90,8 @@ export class AddModelModal extends Modal {
                             const newModel: ModelConfig = {
                                 name: this.name,
                                 displayName: this.displayName || undefined,
+                                contextWindow: parseInt(this.contextWindow, 10) || undefined,
+                                pricing: this.buildPricing(),
                                 provider: {
                                     name: this.provider.name,
                                     type: this.provider.type,
@@ -80,4 +118,15 @@ export class AddModelModal extends Modal {
         const { contentEl } = this;
         contentEl.empty();
     }
+
+    /**
+     * Builds the pricing from the price fields
+     * @returns The pricing, or undefined unless both prices are valid
+     */
+    private buildPricing(): ModelPricing | undefined {
+        const input = parseFloat(this.inputPrice);
+        const output = parseFloat(this.outputPrice);
+        if (!Number.isFinite(input) || !Number.isFinite(output) || input < 0 || output < 0) return undefined;
+        return { input, output };
+    }
 } 
@@ -0,0 +1,83 @@
+import { App, Modal, Setting } from 'obsidian';
+import { PromptPreset } from '../../types';
+import { SettingsEventHandlers } from '../handlers/SettingsEventHandlers';
+
+export class AddPromptPresetModal extends Modal {
+    private name: string;
+    private prompt: string;
+
+    /**
+     * @param template - Optional preset to start from, used to duplicate an existing preset
+     */
+    constructor(
+        app: App,
+        private handlers: SettingsEventHandlers,
+        template?: PromptPreset
+    ) {
+        super(app);
+        this.name = template ? `${template.name} (copy)` : '';
+        this.prompt = template?.prompt ?? '';
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('yt-summarizer-settings__modal');
+
+        contentEl.createEl('h2', { text: 'Add Prompt' });
+
+        // Prompt Name
+        new Setting(contentEl)
+            .setName('Name')
+            .setDesc('Enter a unique prompt name')
+            .addText(text =>
+                text
+                    .setPlaceholder('e.g. Lecture notes')
+                    .setValue(this.name)
+                    .onChange(value => this.name = value)
+            );
+
+        // Prompt Text
+        new Setting(contentEl)
+            .setName('Prompt')
+            .setDesc('Instructions sent to the model before the transcript')
+            .addTextArea(text =>
+                text
+                    .setPlaceholder('Enter prompt')
+                    .setValue(this.prompt)
+                    .onChange(value => this.prompt = value)
+                    .then(textArea => {
+                        textArea.inputEl.addClass('yt-summarizer-settings__summary-prompt');
+                    })
+            );
+
+        // Buttons
+        new Setting(contentEl)
+            .addButton(btn =>
+                btn
+                    .setButtonText('Save')
+                    .setCta()
+                    .onClick(async () => {
+                        try {
+                            await this.handlers.handlePromptPresetAdd({
+                                name: this.name.trim(),
+                                prompt: this.prompt
+                            });
+                            this.close();
+                        } catch (error) {
+                            console.error('Failed to add prompt:', error);
+                        }
+                    }))
+            .addButton(btn =>
+                btn
+                    .setButtonText('Cancel')
+                    .onClick(() => {
+                        this.close();
+                    }));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -42,6 +42,7 @@ export class AddProviderModal extends Modal {
                 dropdown
                     .addOption('openai', 'OpenAI')
                     .addOption('anthropic', 'Anthropic')
+                    .addOption('ollama', 'Ollama')
                     .setValue(this.type)
                     .onChange(value => this.type = value);
             });
@@ -49,7 +50,7 @@ export class AddProviderModal extends Modal {
         // API Key
         new Setting(contentEl)
             .setName('API Key')
-            .setDesc('Enter API key')
+            .setDesc('Enter API key (not required for Ollama)')
             .addText(text =>
                 text
                     .setPlaceholder('Enter API key')
@@ -60,7 +61,7 @@ export class AddProviderModal extends Modal {
         // URL (Optional)
         new Setting(contentEl)
             .setName('URL (Optional)')
-            .setDesc('Enter custom API URL')
+            .setDesc('Enter custom API URL. Ollama uses http://localhost:11434 by default.')
             .addText(text =>
                 text
                     .setPlaceholder('Enter URL')
@@ -0,0 +1,136 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { BatchOutput, VideoLink } from '../../types';
+
+/**
+ * Modal listing the YouTube videos linked in a note as a checklist, to summarize the chosen ones.
+ * Titles are loaded in the background; Markdown link texts are shown until then.
+ */
+export class BatchSummaryModal extends Modal {
+	private selected: Set<string>;
+	private titles = new Map<string, string>();
+	private linkSettings = new Map<string, Setting>();
+	private output: BatchOutput = 'replace';
+	private submitButton: HTMLButtonElement | null = null;
+
+	/**
+	 * Constructs a new BatchSummaryModal.
+	 * @param app - The Obsidian app instance.
+	 * @param links - The video links found in the note.
+	 * @param fetchTitle - Function fetching the title of a video.
+	 * @param onSubmit - Callback function called with the chosen links and the output mode.
+	 */
+	constructor(
+		app: App,
+		private links: VideoLink[],
+		private fetchTitle: (url: string) => Promise<string>,
+		private onSubmit: (links: VideoLink[], output: BatchOutput) => void
+	) {
+		super(app);
+		this.selected = new Set(links.map((link) => link.videoId));
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: 'Summarize videos in this note' });
+
+		new Setting(contentEl)
+			.setName('Output')
+			.setDesc('Replace each link with its summary, or create a note per video linked from this note')
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption('replace', 'Replace links with summaries')
+					.addOption('notes', 'Create a note per video')
+					.setValue(this.output)
+					.onChange((value) => (this.output = value as BatchOutput))
+			);
+
+		new Setting(contentEl)
+			.setName(`Videos (${this.links.length})`)
+			.setHeading()
+			.addExtraButton((button) =>
+				button
+					.setIcon('check-check')
+					.setTooltip('Select all')
+					.onClick(() => this.selectAll(true))
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon('x')
+					.setTooltip('Select none')
+					.onClick(() => this.selectAll(false))
+			);
+
+		const listEl = contentEl.createDiv({ cls: 'yt-summarizer-batch__list' });
+		this.links.forEach((link) => this.renderLink(listEl, link));
+
+		new Setting(contentEl)
+			.addButton((btn) => {
+				this.submitButton = btn.buttonEl;
+				btn.setCta().onClick(() => {
+					const chosen = this.links.filter((link) => this.selected.has(link.videoId));
+					if (chosen.length === 0) {
+						new Notice('Please select at least one video');
+						return;
+					}
+					this.onSubmit(chosen, this.output);
+					this.close();
+				});
+			})
+			.addButton((btn) =>
+				btn.setButtonText('Cancel').onClick(() => {
+					this.close();
+				})
+			);
+		this.updateSubmitButton();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	private renderLink(containerEl: HTMLElement, link: VideoLink): void {
+		const setting = new Setting(containerEl)
+			.setName(this.titles.get(link.videoId) || link.title || link.url)
+			.setDesc(link.url)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.selected.has(link.videoId))
+					.onChange((value) => {
+						if (value) {
+							this.selected.add(link.videoId);
+						} else {
+							this.selected.delete(link.videoId);
+						}
+						this.updateSubmitButton();
+					})
+			);
+		this.linkSettings.set(link.videoId, setting);
+
+		if (!this.titles.has(link.videoId)) {
+			// Mark the title as requested, the checklist may be rendered again before it is loaded
+			this.titles.set(link.videoId, '');
+			this.fetchTitle(link.url)
+				.then((title) => {
+					this.titles.set(link.videoId, title);
+					this.linkSettings.get(link.videoId)?.setName(title);
+				})
+				.catch((error) => {
+					console.error(`Failed to fetch the title of ${link.url}:`, error);
+				});
+		}
+	}
+
+	private selectAll(selected: boolean): void {
+		this.selected = new Set(selected ? this.links.map((link) => link.videoId) : []);
+		// Re-render the checklist with the cached titles
+		this.onOpen();
+	}
+
+	private updateSubmitButton(): void {
+		const count = this.selected.size;
+		this.submitButton?.setText(`Summarize ${count} video${count === 1 ? '' : 's'}`);
+	}
+}
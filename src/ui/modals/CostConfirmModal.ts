@@ -0,0 +1,92 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/** Estimated tokens and cost of a summary, shown before the transcript is sent */
+export interface CostEstimate {
+	/** Title of the video, or of the playlist or note of a batch of videos */
+	title: string;
+	/** Number of videos summarized */
+	videos: number;
+	/** The model identifier, e.g. `OpenAI:gpt-4o-mini` */
+	modelId: string;
+	requests: number;
+	inputTokens: number;
+	outputTokens: number;
+	/** Estimated cost in US dollars */
+	cost: string;
+	/** Cost in US dollars if every response uses the maximum number of tokens */
+	maxCost: string;
+}
+
+/**
+ * Modal asking to confirm a summary whose estimated cost is above the threshold of the settings.
+ */
+export class CostConfirmModal extends Modal {
+	private confirmed = false;
+
+	/**
+	 * Constructs a new CostConfirmModal.
+	 * @param app - The Obsidian app instance.
+	 * @param estimate - The estimated tokens and cost of the summary.
+	 * @param onResult - Callback function called with whether the summary was confirmed, also when the modal is dismissed.
+	 */
+	constructor(
+		app: App,
+		private estimate: CostEstimate,
+		private onResult: (confirmed: boolean) => void
+	) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const { title, videos, modelId, requests, inputTokens, outputTokens, cost, maxCost } = this.estimate;
+		contentEl.createEl('h2', { text: 'Confirm summary cost' });
+		contentEl.createEl('p', {
+			text: videos > 1
+				? `${videos} videos of ${title} will be summarized with ${modelId}.`
+				: `${title} will be summarized with ${modelId}.`
+		});
+
+		let requestsDesc = 'Estimated from the length of the prompt.';
+		if (videos > 1) {
+			requestsDesc = `The videos are summarized in ${requests} requests, cached summaries cost nothing.`;
+		} else if (requests > 1) {
+			requestsDesc = `The transcript doesn't fit the context window, it is summarized in ${requests} requests.`;
+		}
+		new Setting(contentEl)
+			.setName('Estimated tokens')
+			.setDesc(requestsDesc)
+			.controlEl.createSpan({
+				text: `${inputTokens.toLocaleString()} input / ${outputTokens.toLocaleString()} output`
+			});
+
+		new Setting(contentEl)
+			.setName('Estimated cost')
+			.setDesc(`Up to ${maxCost} if every response uses "Max Tokens".`)
+			.controlEl.createSpan({ text: cost });
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText('Summarize')
+					.setCta()
+					.onClick(() => {
+						this.confirmed = true;
+						this.close();
+					})
+			)
+			.addButton((btn) =>
+				btn.setButtonText('Cancel').onClick(() => {
+					this.close();
+				})
+			);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.onResult(this.confirmed);
+	}
+}
@@ -1,10 +1,20 @@
 import { App, Modal, Notice, Setting } from 'obsidian';
+import { SummaryOptions } from '../../types';
+import { SUMMARY_LANGUAGES } from '../../constants';
 
 export class CustomPromptModal extends Modal {
 	private prompt = '';
+	private summaryLanguage: string;
+	private refreshTranscript = false;
+	private regenerate = false;
 
-	constructor(app: App, private onSubmit: (prompt: string) => void) {
+	constructor(
+		app: App,
+		private defaultSummaryLanguage: string,
+		private onSubmit: (options: SummaryOptions) => void
+	) {
 		super(app);
+		this.summaryLanguage = defaultSummaryLanguage;
 	}
 
 	onOpen() {
@@ -23,6 +33,39 @@ export class CustomPromptModal extends Modal {
 					.onChange((value) => (this.prompt = value))
 			);
 
+		new Setting(contentEl)
+			.setName('Summary language')
+			.setDesc('Language of the summary for this run')
+			.addDropdown((dropdown) => {
+				dropdown.addOption('', 'Same as video');
+				SUMMARY_LANGUAGES.forEach((language) => dropdown.addOption(language, language));
+				// Keep a custom language from the settings selectable
+				if (this.defaultSummaryLanguage && SUMMARY_LANGUAGES.indexOf(this.defaultSummaryLanguage) === -1) {
+					dropdown.addOption(this.defaultSummaryLanguage, this.defaultSummaryLanguage);
+				}
+				dropdown
+					.setValue(this.summaryLanguage)
+					.onChange((value) => (this.summaryLanguage = value));
+			});
+
+		new Setting(contentEl)
+			.setName('Refetch transcript')
+			.setDesc('Fetch the transcript from YouTube instead of using the cached one')
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.refreshTranscript)
+					.onChange((value) => (this.refreshTranscript = value))
+			);
+
+		new Setting(contentEl)
+			.setName('Regenerate summary')
+			.setDesc('Generate a new summary even if the same request was summarized before')
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.regenerate)
+					.onChange((value) => (this.regenerate = value))
+			);
+
 		new Setting(contentEl)
 			.addButton((btn) =>
 				btn
@@ -30,11 +73,16 @@ export class CustomPromptModal extends Modal {
 					.setCta()
 					.onClick(() => {
 						const trimmed = this.prompt.trim();
-						if (!trimmed) {
-							new Notice('Please enter prompt instructions');
+						if (!trimmed && this.summaryLanguage === this.defaultSummaryLanguage && !this.refreshTranscript && !this.regenerate) {
+							new Notice('Please enter prompt instructions or choose a summary language');
 							return;
 						}
-						this.onSubmit(trimmed);
+						this.onSubmit({
+							customPrompt: trimmed,
+							summaryLanguage: this.summaryLanguage,
+							refreshTranscript: this.refreshTranscript,
+							regenerate: this.regenerate,
+						});
 						this.close();
 					})
 			)
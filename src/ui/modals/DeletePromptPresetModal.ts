@@ -0,0 +1,51 @@
+import { App, Modal } from 'obsidian';
+import { PromptPreset } from '../../types';
+import { SettingsEventHandlers } from '../handlers/SettingsEventHandlers';
+
+export class DeletePromptPresetModal extends Modal {
+    constructor(
+        app: App,
+        private preset: PromptPreset,
+        private handlers: SettingsEventHandlers
+    ) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: 'Delete Prompt' });
+
+        const messageEl = contentEl.createEl('p', {
+            text: `Are you sure you want to delete the prompt "${this.preset.name}"?`
+        });
+        messageEl.style.marginBottom = '16px';
+
+        const buttonContainer = contentEl.createDiv({ cls: 'yt-summarizer-settings__button-container' });
+
+        buttonContainer.createEl('button', { text: 'Cancel' })
+            .addEventListener('click', () => {
+                this.close();
+            });
+
+        const deleteButton = buttonContainer.createEl('button', {
+            text: 'Delete',
+            cls: 'mod-warning'
+        });
+
+        deleteButton.addEventListener('click', async () => {
+            try {
+                await this.handlers.handlePromptPresetDelete(this.preset);
+                this.close();
+            } catch (error) {
+                console.error('Failed to delete prompt:', error);
+            }
+        });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -1,9 +1,19 @@
-import { App, Modal, Setting } from 'obsidian';
-import { ModelConfig } from '../../types';
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { ModelConfig, ModelParameters, ModelPricing, ReasoningEffort } from '../../types';
 import { SettingsEventHandlers } from '../handlers/SettingsEventHandlers';
+import { DEFAULT_CONTEXT_WINDOW } from '../../defaults';
+import { ANTHROPIC_MIN_THINKING_BUDGET } from '../../constants';
 
 export class EditModelModal extends Modal {
     private displayName: string;
+    private contextWindow: string;
+    private inputPrice: string;
+    private outputPrice: string;
+    private maxTokens: string;
+    private temperature: string;
+    private topP: string;
+    private reasoningEffort: string;
+    private thinkingBudget: string;
 
     constructor(
         app: App,
@@ -12,6 +22,15 @@ export class EditModelModal extends Modal {
     ) {
         super(app);
         this.displayName = model.displayName || '';
+        this.contextWindow = model.contextWindow ? String(model.contextWindow) : '';
+        this.inputPrice = model.pricing ? String(model.pricing.input) : '';
+        this.outputPrice = model.pricing ? String(model.pricing.output) : '';
+        const parameters = model.parameters ?? {};
+        this.maxTokens = parameters.maxTokens !== undefined ? String(parameters.maxTokens) : '';
+        this.temperature = parameters.temperature !== undefined ? String(parameters.temperature) : '';
+        this.topP = parameters.topP !== undefined ? String(parameters.topP) : '';
+        this.reasoningEffort = parameters.reasoningEffort ?? '';
+        this.thinkingBudget = parameters.thinkingBudget !== undefined ? String(parameters.thinkingBudget) : '';
     }
 
     onOpen() {
@@ -42,6 +61,109 @@ export class EditModelModal extends Modal {
                     .onChange(value => this.displayName = value)
             );
 
+        // Context Window
+        new Setting(contentEl)
+            .setName('Context Window')
+            .setDesc('Maximum number of tokens the model accepts (optional). Longer transcripts are split into parts. Sent to Ollama as num_ctx.')
+            .addText(text =>
+                text
+                    .setPlaceholder(String(DEFAULT_CONTEXT_WINDOW))
+                    .setValue(this.contextWindow)
+                    .onChange(value => this.contextWindow = value)
+            );
+
+        // Pricing, kept up to date by the plugin for built-in models
+        if (!this.handlers.isBuiltInModel(this.model)) {
+            new Setting(contentEl)
+                .setName('Input Price')
+                .setDesc('US dollars per million prompt tokens (optional). Used to estimate the cost of summaries.')
+                .addText(text =>
+                    text
+                        .setPlaceholder('0.00')
+                        .setValue(this.inputPrice)
+                        .onChange(value => this.inputPrice = value)
+                );
+
+            new Setting(contentEl)
+                .setName('Output Price')
+                .setDesc('US dollars per million generated tokens (optional)')
+                .addText(text =>
+                    text
+                        .setPlaceholder('0.00')
+                        .setValue(this.outputPrice)
+                        .onChange(value => this.outputPrice = value)
+                );
+        }
+
+        // Generation Parameters - Heading
+        new Setting(contentEl)
+            .setName('Generation parameters')
+            .setDesc('Override the global settings for this model. Leave empty to use the global setting or the provider default.')
+            .setHeading();
+
+        new Setting(contentEl)
+            .setName('Max output tokens')
+            .setDesc('Maximum number of tokens the model generates, e.g. the output limit of the model')
+            .addText(text =>
+                text
+                    .setPlaceholder('Global setting')
+                    .setValue(this.maxTokens)
+                    .onChange(value => this.maxTokens = value)
+            );
+
+        const provider = this.model.provider.type;
+        if (provider === 'openai') {
+            new Setting(contentEl)
+                .setName('Reasoning effort')
+                .setDesc('For reasoning models (o-series, GPT-5). Reasoning models get the reasoning effort instead of temperature and top P.')
+                .addDropdown(dropdown =>
+                    dropdown
+                        .addOption('', 'Model default')
+                        .addOption('minimal', 'Minimal')
+                        .addOption('low', 'Low')
+                        .addOption('medium', 'Medium')
+                        .addOption('high', 'High')
+                        .setValue(this.reasoningEffort)
+                        .onChange(value => this.reasoningEffort = value)
+                );
+        }
+
+        if (provider === 'anthropic' || provider === 'gemini') {
+            new Setting(contentEl)
+                .setName('Thinking budget')
+                .setDesc(provider === 'anthropic'
+                    ? 'Tokens Claude may spend on extended thinking, at least 1024 and less than the max output tokens. Temperature and top P are not sent with thinking.'
+                    : 'Tokens Gemini may spend on thinking. 0 turns thinking off on Flash models.')
+                .addText(text =>
+                    text
+                        .setPlaceholder('Model default')
+                        .setValue(this.thinkingBudget)
+                        .onChange(value => this.thinkingBudget = value)
+                );
+        }
+
+        new Setting(contentEl)
+            .setName('Temperature')
+            .setDesc('Controls randomness in generation. Not sent to reasoning models.')
+            .addText(text =>
+                text
+                    .setPlaceholder('Global setting')
+                    .setValue(this.temperature)
+                    .onChange(value => this.temperature = value)
+            );
+
+        new Setting(contentEl)
+            .setName('Top P')
+            .setDesc(provider === 'anthropic'
+                ? 'Nucleus sampling (0.0 to 1.0). Sent instead of the temperature, as recent Claude models accept only one of them.'
+                : 'Nucleus sampling (0.0 to 1.0). Not sent to reasoning models.')
+            .addText(text =>
+                text
+                    .setPlaceholder('Provider default')
+                    .setValue(this.topP)
+                    .onChange(value => this.topP = value)
+            );
+
         // Buttons
         new Setting(contentEl)
             .addButton(btn =>
@@ -49,10 +171,19 @@ export class EditModelModal extends Modal {
                     .setButtonText('Save')
                     .setCta()
                     .onClick(async () => {
+                        const parameters = this.buildParameters();
+                        const error = this.validateParameters(parameters);
+                        if (error) {
+                            new Notice(error);
+                            return;
+                        }
                         try {
                             const updatedModel: ModelConfig = {
                                 ...this.model,
-                                displayName: this.displayName || undefined
+                                displayName: this.displayName || undefined,
+                                contextWindow: parseInt(this.contextWindow, 10) || undefined,
+                                pricing: this.buildPricing(),
+                                parameters
                             };
                             await this.handlers.handleModelEdit(updatedModel);
                             this.close();
@@ -72,4 +203,58 @@ export class EditModelModal extends Modal {
         const { contentEl } = this;
         contentEl.empty();
     }
-} 
\ No newline at end of file
+
+    /**
+     * Builds the pricing from the price fields, keeping the cached input and long context prices
+     * @returns The pricing, or undefined unless both prices are valid
+     */
+    private buildPricing(): ModelPricing | undefined {
+        const input = parseFloat(this.inputPrice);
+        const output = parseFloat(this.outputPrice);
+        if (!Number.isFinite(input) || !Number.isFinite(output) || input < 0 || output < 0) return undefined;
+        return { ...this.model.pricing, input, output };
+    }
+
+    /**
+     * Checks the parameters against the limits of the provider
+     * @param parameters - The parameters built from the fields
+     * @returns The error to show, or null when the parameters are valid
+     */
+    private validateParameters(parameters: ModelParameters | undefined): string | null {
+        const thinkingBudget = parameters?.thinkingBudget;
+        if (this.model.provider.type !== 'anthropic' || !thinkingBudget) return null;
+
+        const maxTokens = parameters?.maxTokens ?? this.handlers.getMaxTokens();
+        if (thinkingBudget < ANTHROPIC_MIN_THINKING_BUDGET) {
+            return `The thinking budget must be at least ${ANTHROPIC_MIN_THINKING_BUDGET} tokens`;
+        }
+        if (thinkingBudget >= maxTokens) {
+            return `The thinking budget must be less than the max output tokens (${maxTokens})`;
+        }
+        return null;
+    }
+
+    /**
+     * Builds the parameters from the fields, leaving out empty and invalid values
+     * @returns The parameters, or undefined when none is set
+     */
+    private buildParameters(): ModelParameters | undefined {
+        const parseNumber = (value: string, integer = false): number | undefined => {
+            const number = parseFloat(value);
+            if (!value.trim() || !Number.isFinite(number) || number < 0) return undefined;
+            return integer ? Math.round(number) : number;
+        };
+
+        const parameters: ModelParameters = {
+            maxTokens: parseNumber(this.maxTokens, true) || undefined,
+            temperature: parseNumber(this.temperature),
+            topP: parseNumber(this.topP),
+            reasoningEffort: (this.reasoningEffort || undefined) as ReasoningEffort | undefined,
+            thinkingBudget: parseNumber(this.thinkingBudget, true)
+        };
+        (Object.keys(parameters) as (keyof ModelParameters)[]).forEach(key => {
+            if (parameters[key] === undefined) delete parameters[key];
+        });
+        return Object.keys(parameters).length > 0 ? parameters : undefined;
+    }
+}
@@ -0,0 +1,79 @@
+import { App, Modal, Setting } from 'obsidian';
+import { PromptPreset } from '../../types';
+import { SettingsEventHandlers } from '../handlers/SettingsEventHandlers';
+
+export class EditPromptPresetModal extends Modal {
+    private name: string;
+    private originalName: string;
+    private prompt: string;
+
+    constructor(
+        app: App,
+        preset: PromptPreset,
+        private handlers: SettingsEventHandlers
+    ) {
+        super(app);
+        this.name = preset.name;
+        this.originalName = preset.name;
+        this.prompt = preset.prompt;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('yt-summarizer-settings__modal');
+
+        contentEl.createEl('h2', { text: 'Edit Prompt' });
+
+        new Setting(contentEl)
+            .setName('Name')
+            .setDesc('Enter a unique prompt name')
+            .addText(text =>
+                text
+                    .setPlaceholder('Enter name')
+                    .setValue(this.name)
+                    .onChange(value => this.name = value)
+            );
+
+        new Setting(contentEl)
+            .setName('Prompt')
+            .setDesc('Instructions sent to the model before the transcript')
+            .addTextArea(text =>
+                text
+                    .setPlaceholder('Enter prompt')
+                    .setValue(this.prompt)
+                    .onChange(value => this.prompt = value)
+                    .then(textArea => {
+                        textArea.inputEl.addClass('yt-summarizer-settings__summary-prompt');
+                    })
+            );
+
+        new Setting(contentEl)
+            .addButton(btn =>
+                btn
+                    .setButtonText('Save')
+                    .setCta()
+                    .onClick(async () => {
+                        try {
+                            await this.handlers.handlePromptPresetEdit({
+                                name: this.name.trim(),
+                                prompt: this.prompt
+                            }, this.originalName);
+                            this.close();
+                        } catch (error) {
+                            console.error('Failed to update prompt:', error);
+                        }
+                    }))
+            .addButton(btn =>
+                btn
+                    .setButtonText('Cancel')
+                    .onClick(() => {
+                        this.close();
+                    }));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
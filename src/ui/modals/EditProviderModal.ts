@@ -44,6 +44,7 @@ export class EditProviderModal extends Modal {
                     .addOption('openai', 'OpenAI')
                     .addOption('anthropic', 'Anthropic')
                     .addOption('gemini', 'Gemini')
+                    .addOption('ollama', 'Ollama')
                     .setValue(this.type)
                     .onChange(value => this.type = value);
             });
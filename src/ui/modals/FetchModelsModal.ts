@@ -0,0 +1,176 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { DiscoveredModel, ProviderConfig } from '../../types';
+
+/**
+ * Modal listing the models offered by a provider as a checklist, to add the chosen ones.
+ * Stored models that the provider no longer offers are flagged.
+ */
+export class FetchModelsModal extends Modal {
+    private selected = new Set<string>();
+    private filter = '';
+    private newModels: DiscoveredModel[];
+    private listEl: HTMLElement | null = null;
+    private submitButton: HTMLButtonElement | null = null;
+
+    /**
+     * Constructs a new FetchModelsModal.
+     * @param app - The Obsidian app instance.
+     * @param provider - The provider with its stored models.
+     * @param models - The models offered by the provider.
+     * @param onSubmit - Callback function called with the chosen models.
+     */
+    constructor(
+        app: App,
+        private provider: ProviderConfig,
+        private models: DiscoveredModel[],
+        private onSubmit: (models: DiscoveredModel[]) => void
+    ) {
+        super(app);
+        const stored = new Set(provider.models?.map(model => model.name));
+        this.newModels = models.filter(model => !stored.has(model.name));
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('yt-summarizer-settings__modal');
+
+        contentEl.createEl('h2', { text: `Models of ${this.provider.name}` });
+
+        const addedCount = this.models.length - this.newModels.length;
+        new Setting(contentEl)
+            .setName(`New models (${this.newModels.length})`)
+            .setDesc(addedCount > 0 ? `${addedCount} offered model(s) already added` : '')
+            .setHeading()
+            .addExtraButton(button =>
+                button
+                    .setIcon('check-check')
+                    .setTooltip('Select all shown')
+                    .onClick(() => this.selectShown(true))
+            )
+            .addExtraButton(button =>
+                button
+                    .setIcon('x')
+                    .setTooltip('Select none')
+                    .onClick(() => this.selectShown(false))
+            );
+
+        if (this.newModels.length > 0) {
+            new Setting(contentEl)
+                .setName('Filter')
+                .addSearch(search =>
+                    search
+                        .setPlaceholder('Model name')
+                        .setValue(this.filter)
+                        .onChange(value => {
+                            this.filter = value;
+                            this.renderList();
+                        })
+                );
+        }
+
+        this.listEl = contentEl.createDiv({ cls: 'yt-summarizer-batch__list' });
+        this.renderList();
+
+        // Stored models missing from the list of the provider
+        const offered = new Set(this.models.map(model => model.name));
+        const missing = this.provider.models?.filter(model => !offered.has(model.name)) ?? [];
+        if (missing.length > 0) {
+            new Setting(contentEl)
+                .setName(`No longer offered (${missing.length})`)
+                .setDesc('These models are not listed by the provider anymore and may stop working. Delete them from the provider settings.')
+                .setHeading();
+            missing.forEach(model => {
+                const setting = new Setting(contentEl)
+                    .setName(model.displayName || model.name)
+                    .setDesc(model.name);
+                setting.nameEl.addClass('mod-warning');
+            });
+        }
+
+        new Setting(contentEl)
+            .addButton(btn => {
+                this.submitButton = btn.buttonEl;
+                btn.setCta().onClick(() => {
+                    const chosen = this.newModels.filter(model => this.selected.has(model.name));
+                    if (chosen.length === 0) {
+                        new Notice('Please select at least one model');
+                        return;
+                    }
+                    this.onSubmit(chosen);
+                    this.close();
+                });
+            })
+            .addButton(btn =>
+                btn.setButtonText('Cancel').onClick(() => {
+                    this.close();
+                })
+            );
+        this.updateSubmitButton();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+
+    private renderList(): void {
+        const listEl = this.listEl;
+        if (!listEl) return;
+        listEl.empty();
+
+        const shown = this.getShownModels();
+        if (shown.length === 0) {
+            listEl.createEl('p', {
+                text: this.newModels.length === 0 ? 'All offered models are already added' : 'No model matches the filter',
+                cls: 'setting-item-description'
+            });
+            return;
+        }
+
+        shown.forEach(model => {
+            const details = [model.name];
+            if (model.contextWindow) {
+                details.push(`${model.contextWindow.toLocaleString()} tokens`);
+            }
+            new Setting(listEl)
+                .setName(model.displayName)
+                .setDesc(details.join(' · '))
+                .addToggle(toggle =>
+                    toggle
+                        .setValue(this.selected.has(model.name))
+                        .onChange(value => {
+                            if (value) {
+                                this.selected.add(model.name);
+                            } else {
+                                this.selected.delete(model.name);
+                            }
+                            this.updateSubmitButton();
+                        })
+                );
+        });
+    }
+
+    private getShownModels(): DiscoveredModel[] {
+        const filter = this.filter.trim().toLowerCase();
+        if (!filter) return this.newModels;
+        return this.newModels.filter(model =>
+            model.name.toLowerCase().includes(filter) || model.displayName.toLowerCase().includes(filter)
+        );
+    }
+
+    private selectShown(selected: boolean): void {
+        if (selected) {
+            this.getShownModels().forEach(model => this.selected.add(model.name));
+        } else {
+            this.selected.clear();
+        }
+        this.renderList();
+        this.updateSubmitButton();
+    }
+
+    private updateSubmitButton(): void {
+        const count = this.selected.size;
+        this.submitButton?.setText(`Add ${count} model${count === 1 ? '' : 's'}`);
+    }
+}
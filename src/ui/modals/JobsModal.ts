@@ -0,0 +1,92 @@
+import { App, Modal, Setting, moment } from 'obsidian';
+import { Job } from '../../types';
+import { JobQueue } from '../../services/jobQueue';
+
+/**
+ * Modal listing the queued and running jobs, which can be cancelled, and the history of finished jobs.
+ * The lists are updated while the modal is open.
+ */
+export class JobsModal extends Modal {
+    private unsubscribe: (() => void) | null = null;
+
+    constructor(app: App, private queue: JobQueue) {
+        super(app);
+    }
+
+    onOpen() {
+        this.unsubscribe = this.queue.onChange(() => this.render());
+        this.render();
+    }
+
+    onClose() {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+
+    private render(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: 'Summary Jobs' });
+
+        // Queued and running jobs
+        const activeJobs = this.queue.getActiveJobs();
+        new Setting(contentEl)
+            .setName('Queue')
+            .setHeading()
+            .addButton(button =>
+                button
+                    .setButtonText('Cancel all')
+                    .setWarning()
+                    .setDisabled(activeJobs.length === 0)
+                    .onClick(() => this.queue.cancelAll())
+            );
+
+        if (activeJobs.length === 0) {
+            contentEl.createEl('p', { text: 'No jobs in the queue.', cls: 'setting-item-description' });
+        }
+        activeJobs.forEach(job => {
+            new Setting(contentEl)
+                .setName(job.label)
+                .setDesc(job.message)
+                .addExtraButton(button =>
+                    button
+                        .setIcon('x')
+                        .setTooltip('Cancel')
+                        .onClick(() => this.queue.cancel(job.id))
+                );
+        });
+
+        // Finished jobs
+        const history = this.queue.getHistory();
+        new Setting(contentEl)
+            .setName('History')
+            .setHeading()
+            .addButton(button =>
+                button
+                    .setButtonText('Clear')
+                    .setDisabled(history.length === 0)
+                    .onClick(() => this.queue.clearHistory())
+            );
+
+        if (history.length === 0) {
+            contentEl.createEl('p', { text: 'No finished jobs yet.', cls: 'setting-item-description' });
+        }
+        history.forEach(job => {
+            const setting = new Setting(contentEl)
+                .setName(job.label)
+                .setDesc(this.describeFinishedJob(job));
+            setting.settingEl.addClass(`yt-summarizer-jobs__job--${job.status}`);
+        });
+    }
+
+    private describeFinishedJob(job: Job): string {
+        const finishedAt = moment(job.finishedAt).format('HH:mm:ss');
+        const status = job.status.charAt(0).toUpperCase() + job.status.slice(1);
+        return job.status === 'failed'
+            ? `${status} at ${finishedAt}: ${job.message}`
+            : `${status} at ${finishedAt}`;
+    }
+}
@@ -0,0 +1,97 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+
+/**
+ * Modal asking for the passphrase encrypting API keys, either to unlock them or to set a new one.
+ */
+export class PassphraseModal extends Modal {
+    private passphrase = '';
+    private confirmation = '';
+
+    /**
+     * Constructs a new PassphraseModal.
+     * @param app - The Obsidian app instance.
+     * @param mode - Whether to unlock the keys or to set a new passphrase, asked twice.
+     * @param onSubmit - Callback function called with the passphrase, resolving to false when it is wrong.
+     */
+    constructor(
+        app: App,
+        private mode: 'unlock' | 'set',
+        private onSubmit: (passphrase: string) => Promise<boolean>
+    ) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('yt-summarizer-settings__modal');
+
+        contentEl.createEl('h2', { text: this.mode === 'unlock' ? 'Unlock API keys' : 'Set passphrase' });
+        contentEl.createEl('p', {
+            text: this.mode === 'unlock'
+                ? 'Your API keys are encrypted. Enter the passphrase to use them until Obsidian is closed.'
+                : 'API keys are encrypted with this passphrase in data.json. It is not stored, it is asked once per session. A forgotten passphrase can\'t be recovered, the keys have to be entered again.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(contentEl)
+            .setName('Passphrase')
+            .addText(text => {
+                text.inputEl.type = 'password';
+                text.onChange(value => this.passphrase = value);
+                text.inputEl.addEventListener('keydown', (event) => {
+                    if (event.key === 'Enter' && this.mode === 'unlock') {
+                        this.submit();
+                    }
+                });
+            });
+
+        if (this.mode === 'set') {
+            new Setting(contentEl)
+                .setName('Confirm passphrase')
+                .addText(text => {
+                    text.inputEl.type = 'password';
+                    text.onChange(value => this.confirmation = value);
+                });
+        }
+
+        new Setting(contentEl)
+            .addButton(btn =>
+                btn
+                    .setButtonText(this.mode === 'unlock' ? 'Unlock' : 'Save')
+                    .setCta()
+                    .onClick(() => this.submit()))
+            .addButton(btn =>
+                btn
+                    .setButtonText('Cancel')
+                    .onClick(() => {
+                        this.close();
+                    }));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+
+    private async submit(): Promise<void> {
+        if (!this.passphrase) {
+            new Notice('Please enter a passphrase');
+            return;
+        }
+        if (this.mode === 'set' && this.passphrase !== this.confirmation) {
+            new Notice('The passphrases don\'t match');
+            return;
+        }
+
+        try {
+            if (await this.onSubmit(this.passphrase)) {
+                this.close();
+            } else {
+                new Notice('Wrong passphrase');
+            }
+        } catch (error) {
+            new Notice(`Error: ${error.message}`);
+        }
+    }
+}
@@ -0,0 +1,117 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { Playlist, PlaylistVideo } from '../../types';
+import { YouTubeService } from '../../services/youtube';
+
+/**
+ * Modal listing the videos of a playlist as a checklist, to summarize the chosen ones
+ * into notes linked from an index note, with an optional overview of the whole playlist.
+ */
+export class PlaylistSummaryModal extends Modal {
+	private selected: Set<string>;
+	private withOverview = true;
+	private submitButton: HTMLButtonElement | null = null;
+
+	/**
+	 * Constructs a new PlaylistSummaryModal.
+	 * @param app - The Obsidian app instance.
+	 * @param playlist - The playlist with its videos.
+	 * @param onSubmit - Callback function called with the chosen videos, in playlist order, and whether to write an overview.
+	 */
+	constructor(
+		app: App,
+		private playlist: Playlist,
+		private onSubmit: (videos: PlaylistVideo[], withOverview: boolean) => void
+	) {
+		super(app);
+		this.selected = new Set(playlist.videos.map((video) => video.videoId));
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: this.playlist.title });
+		if (this.playlist.author) {
+			contentEl.createEl('p', { text: this.playlist.author, cls: 'setting-item-description' });
+		}
+
+		new Setting(contentEl)
+			.setName('Course overview')
+			.setDesc('Write an overview of the whole playlist from the summaries of its videos in the index note')
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.withOverview)
+					.onChange((value) => (this.withOverview = value))
+			);
+
+		new Setting(contentEl)
+			.setName(`Videos (${this.playlist.videos.length})`)
+			.setHeading()
+			.addExtraButton((button) =>
+				button
+					.setIcon('check-check')
+					.setTooltip('Select all')
+					.onClick(() => this.selectAll(true))
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon('x')
+					.setTooltip('Select none')
+					.onClick(() => this.selectAll(false))
+			);
+
+		const listEl = contentEl.createDiv({ cls: 'yt-summarizer-batch__list' });
+		this.playlist.videos.forEach((video, index) => {
+			new Setting(listEl)
+				.setName(`${index + 1}. ${video.title}`)
+				.setDesc(video.duration ? YouTubeService.formatTimestamp(video.duration) : '')
+				.addToggle((toggle) =>
+					toggle
+						.setValue(this.selected.has(video.videoId))
+						.onChange((value) => {
+							if (value) {
+								this.selected.add(video.videoId);
+							} else {
+								this.selected.delete(video.videoId);
+							}
+							this.updateSubmitButton();
+						})
+				);
+		});
+
+		new Setting(contentEl)
+			.addButton((btn) => {
+				this.submitButton = btn.buttonEl;
+				btn.setCta().onClick(() => {
+					const chosen = this.playlist.videos.filter((video) => this.selected.has(video.videoId));
+					if (chosen.length === 0) {
+						new Notice('Please select at least one video');
+						return;
+					}
+					this.onSubmit(chosen, this.withOverview);
+					this.close();
+				});
+			})
+			.addButton((btn) =>
+				btn.setButtonText('Cancel').onClick(() => {
+					this.close();
+				})
+			);
+		this.updateSubmitButton();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	private selectAll(selected: boolean): void {
+		this.selected = new Set(selected ? this.playlist.videos.map((video) => video.videoId) : []);
+		this.onOpen();
+	}
+
+	private updateSubmitButton(): void {
+		const count = this.selected.size;
+		this.submitButton?.setText(`Summarize ${count} video${count === 1 ? '' : 's'}`);
+	}
+}
@@ -0,0 +1,34 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import { PromptPreset } from '../../types';
+
+/**
+ * A fuzzy picker for choosing the prompt preset of a summary.
+ */
+export class PromptPresetSuggestModal extends FuzzySuggestModal<PromptPreset> {
+	/**
+	 * Constructs a new PromptPresetSuggestModal.
+	 * @param app - The Obsidian app instance.
+	 * @param presets - The presets to choose from.
+	 * @param onChoose - Callback function to handle the chosen preset.
+	 */
+	constructor(
+		app: App,
+		private presets: PromptPreset[],
+		private onChoose: (preset: PromptPreset) => void
+	) {
+		super(app);
+		this.setPlaceholder('Choose a prompt for this video...');
+	}
+
+	getItems(): PromptPreset[] {
+		return this.presets;
+	}
+
+	getItemText(preset: PromptPreset): string {
+		return preset.name;
+	}
+
+	onChooseItem(preset: PromptPreset): void {
+		this.onChoose(preset);
+	}
+}
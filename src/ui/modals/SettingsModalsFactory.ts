@@ -1,5 +1,5 @@
 import { App, Modal } from 'obsidian';
-import { ModelConfig, ProviderConfig } from '../../types';
+import { DiscoveredModel, ModelConfig, PromptPreset, ProviderConfig } from '../../types';
 import { AddModelModal } from './AddModelModal';
 import { AddProviderModal } from './AddProviderModal';
 import { EditModelModal } from './EditModelModal';
@@ -7,6 +7,11 @@ import { DeleteModelModal } from './DeleteModelModal';
 import { EditProviderModal } from './EditProviderModal';
 import { DeleteProviderModal } from './DeleteProviderModal';
 import { WarningModal } from './WarningModal';
+import { AddPromptPresetModal } from './AddPromptPresetModal';
+import { EditPromptPresetModal } from './EditPromptPresetModal';
+import { DeletePromptPresetModal } from './DeletePromptPresetModal';
+import { FetchModelsModal } from './FetchModelsModal';
+import { PassphraseModal } from './PassphraseModal';
 import { SettingsEventHandlers } from '../handlers/SettingsEventHandlers';
 
 export class SettingsModalsFactory {
@@ -32,6 +37,18 @@ export class SettingsModalsFactory {
         return new AddModelModal(this.app, provider, handlers);
     }
 
+    createFetchModelsModal(
+        provider: ProviderConfig,
+        models: DiscoveredModel[],
+        onSubmit: (models: DiscoveredModel[]) => void
+    ): FetchModelsModal {
+        return new FetchModelsModal(this.app, provider, models, onSubmit);
+    }
+
+    createPassphraseModal(mode: 'unlock' | 'set', onSubmit: (passphrase: string) => Promise<boolean>): PassphraseModal {
+        return new PassphraseModal(this.app, mode, onSubmit);
+    }
+
     createEditModelModal(model: ModelConfig, handlers: SettingsEventHandlers): EditModelModal {
         return new EditModelModal(this.app, model, handlers);
     }
@@ -39,4 +56,16 @@ export class SettingsModalsFactory {
     createDeleteModelModal(model: ModelConfig, handlers: SettingsEventHandlers): DeleteModelModal {
         return new DeleteModelModal(this.app, model, handlers);
     }
+
+    createAddPromptPresetModal(handlers: SettingsEventHandlers, template?: PromptPreset): AddPromptPresetModal {
+        return new AddPromptPresetModal(this.app, handlers, template);
+    }
+
+    createEditPromptPresetModal(preset: PromptPreset, handlers: SettingsEventHandlers): EditPromptPresetModal {
+        return new EditPromptPresetModal(this.app, preset, handlers);
+    }
+
+    createDeletePromptPresetModal(preset: PromptPreset, handlers: SettingsEventHandlers): DeletePromptPresetModal {
+        return new DeletePromptPresetModal(this.app, preset, handlers);
+    }
 } 
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { App, FuzzySuggestModal, TFile } from 'obsidian';
+import { SubtitleParser } from '../../services/subtitles';
+
+/**
+ * A fuzzy picker for choosing a subtitle file of the vault, such as an `.srt` or `.vtt` file.
+ */
+export class SubtitleFileSuggestModal extends FuzzySuggestModal<TFile> {
+	/**
+	 * Constructs a new SubtitleFileSuggestModal.
+	 * @param app - The Obsidian app instance.
+	 * @param onChoose - Callback function to handle the chosen file.
+	 */
+	constructor(
+		app: App,
+		private onChoose: (file: TFile) => void
+	) {
+		super(app);
+		this.setPlaceholder('Choose a subtitle file to summarize...');
+		this.emptyStateText = `No ${SubtitleParser.EXTENSIONS.map((extension) => `.${extension}`).join(', ')} files in this vault`;
+	}
+
+	getItems(): TFile[] {
+		return this.app.vault
+			.getFiles()
+			.filter((file) => SubtitleParser.EXTENSIONS.some((extension) => extension === file.extension.toLowerCase()))
+			.sort((a, b) => b.stat.mtime - a.stat.mtime);
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile): void {
+		this.onChoose(file);
+	}
+}
@@ -0,0 +1,124 @@
+import { App, Modal, Notice, Setting, TFile, moment } from 'obsidian';
+import { UsageGrouping, UsageRecord, UsageSummary } from '../../types';
+import { UsageLedger } from '../../services/usageLedger';
+import { PricingService } from '../../services/pricing';
+
+/**
+ * Modal showing the tokens and the cost of the requests recorded in the usage ledger,
+ * aggregated by day, month, provider or model, with the spending of the month against the budget.
+ */
+export class UsageModal extends Modal {
+    private static readonly GROUPINGS: Record<UsageGrouping, string> = {
+        'day': 'Day',
+        'month': 'Month',
+        'provider': 'Provider',
+        'model': 'Model'
+    };
+
+    private records: UsageRecord[] = [];
+    private monthCost = 0;
+    private grouping: UsageGrouping = 'month';
+
+    /**
+     * Constructs a new UsageModal.
+     * @param app - The Obsidian app instance.
+     * @param ledger - The usage ledger.
+     * @param monthlyBudget - The monthly budget in US dollars, 0 for no budget.
+     */
+    constructor(app: App, private ledger: UsageLedger, private monthlyBudget: number) {
+        super(app);
+    }
+
+    async onOpen() {
+        this.contentEl.createEl('p', { text: 'Loading usage...', cls: 'setting-item-description' });
+        this.records = await this.ledger.getRecords();
+        this.monthCost = await this.ledger.getMonthCost();
+        this.render();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+
+    private render(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: 'Usage and Spending' });
+
+        const budget = this.monthlyBudget > 0 ? ` of a ${PricingService.formatCost(this.monthlyBudget)} budget` : '';
+        const monthSetting = new Setting(contentEl)
+            .setName('This month')
+            .setDesc(`${PricingService.formatCost(this.monthCost)} spent${budget}`);
+        if (this.monthlyBudget > 0 && this.monthCost >= this.monthlyBudget) {
+            monthSetting.settingEl.addClass('yt-summarizer-usage__over-budget');
+        }
+
+        new Setting(contentEl)
+            .setName('Group by')
+            .addDropdown(dropdown =>
+                dropdown
+                    .addOptions(UsageModal.GROUPINGS)
+                    .setValue(this.grouping)
+                    .onChange(value => {
+                        this.grouping = value as UsageGrouping;
+                        this.render();
+                    })
+            )
+            .addButton(button =>
+                button
+                    .setButtonText('Export CSV')
+                    .setDisabled(this.records.length === 0)
+                    .onClick(() => this.exportCsv())
+            );
+
+        if (this.records.length === 0) {
+            contentEl.createEl('p', { text: 'No usage recorded yet.', cls: 'setting-item-description' });
+            return;
+        }
+
+        const summaries = UsageLedger.aggregate(this.records, this.grouping);
+        const total = UsageLedger.summarize('Total', this.records);
+
+        const table = contentEl.createDiv({ cls: 'yt-summarizer-usage__table-container' })
+            .createEl('table', { cls: 'yt-summarizer-usage__table' });
+        const header = table.createEl('thead').createEl('tr');
+        [UsageModal.GROUPINGS[this.grouping], 'Videos', 'Requests', 'Input tokens', 'Output tokens', 'Cost']
+            .forEach(column => header.createEl('th', { text: column }));
+
+        const body = table.createEl('tbody');
+        summaries.forEach(summary => this.renderRow(body, summary));
+        this.renderRow(table.createEl('tfoot'), total);
+    }
+
+    private renderRow(parent: HTMLElement, summary: UsageSummary): void {
+        const row = parent.createEl('tr');
+        row.createEl('td', { text: summary.key });
+        [summary.videos, summary.requests, summary.inputTokens, summary.outputTokens]
+            .forEach(value => row.createEl('td', { text: value.toLocaleString() }));
+
+        const cost = PricingService.formatCost(summary.cost);
+        row.createEl('td', {
+            text: summary.unpricedRequests > 0 ? `${cost} + ${summary.unpricedRequests} unpriced` : cost,
+            attr: summary.unpricedRequests > 0 ? { 'aria-label': 'Requests to models without pricing have no cost' } : {}
+        });
+    }
+
+    /** Writes all requests to a CSV file at the root of the vault, replacing the export of the same day */
+    private async exportCsv(): Promise<void> {
+        const path = `YouTube summarizer usage ${moment().format('YYYY-MM-DD')}.csv`;
+        const csv = UsageLedger.toCsv(this.records);
+        try {
+            const existing = this.app.vault.getAbstractFileByPath(path);
+            if (existing instanceof TFile) {
+                await this.app.vault.modify(existing, csv);
+            } else {
+                await this.app.vault.create(path, csv);
+            }
+            new Notice(`Usage exported to ${path}`);
+        } catch (error) {
+            new Notice(`Failed to export usage: ${error.message}`);
+        }
+    }
+}
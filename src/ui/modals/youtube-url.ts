@@ -1,4 +1,5 @@
 import { App, Modal, Notice } from 'obsidian';
+import { YouTubeService } from '../../services/youtube';
 
 /**
  * A modal dialog for entering a YouTube URL.
@@ -56,11 +57,11 @@ export class YouTubeURLModal extends Modal {
 			// Handle submit button click
 			submitBtn.addEventListener('click', () => {
 				const url = inputEl.value.trim();
-				if (url) {
+				if (YouTubeService.isYouTubeUrl(url)) {
 					this.onSubmit(url);
 					this.close();
 				} else {
-					new Notice('Please enter a valid URL');
+					new Notice('Please enter a valid YouTube URL');
 				}
 			});
 
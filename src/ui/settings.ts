@@ -1,10 +1,13 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
-import { ModelConfig, PluginSettings } from '../types';
+import { App, Notice, PluginSettingTab, Setting } from 'obsidian';
+import { BudgetAction, CaptionKind, ModelConfig, PluginSettings, TranscriptFormat } from '../types';
 import { SettingsEventHandlers, UICallbacks } from './handlers/SettingsEventHandlers';
 
 import { SettingsModalsFactory } from './modals/SettingsModalsFactory';
 import { SettingsUIComponents } from './components/SettingsUIComponents';
 import { YouTubeSummarizerPlugin } from '../main';
+import { DEFAULT_NOTE_FILENAME_PATTERN, DEFAULT_NOTE_TEMPLATE } from '../defaults';
+import { TemplateService } from '../services/template';
+import { SUMMARY_LANGUAGES } from '../constants';
 
 /**
  * Represents the settings tab for the YouTube Summarizer Plugin.
@@ -48,6 +51,12 @@ export class SettingsTab extends PluginSettingTab {
                 }
                 this.reload();
             },
+            onPromptPresetsChanged: () => {
+                this.display();
+            },
+            onApiKeysChanged: () => {
+                this.display();
+            },
             onActiveModelChanged: () => {
                 const selectedModel = this.settings.getSelectedModel();
                 this.uiComponents.updateModelDropdown(
@@ -68,6 +77,8 @@ export class SettingsTab extends PluginSettingTab {
     display(): void {
         const { containerEl } = this;
         containerEl.empty();
+        // Saving reloads the settings, e.g. to read the API keys again after unlocking them
+        this.settings = this.plugin.settings;
 
         const tabs = containerEl.createEl('div', { cls: 'yt-summarizer-settings__tab-group' });
         const tabList = tabs.createEl('nav', { cls: 'yt-summarizer-settings__tab-list' });
@@ -137,6 +148,9 @@ export class SettingsTab extends PluginSettingTab {
 
             });
 
+        this.displayFallbackSettings(containerEl, availableModels);
+        this.displayCostSettings(containerEl);
+
         // Provider Accordions Container
         containerEl.createDiv({ cls: 'yt-summarizer-settings__provider-accordions' });
 
@@ -159,6 +173,197 @@ export class SettingsTab extends PluginSettingTab {
                     })
             );
         addProviderButton.settingEl.addClass('yt-summarizer-settings__add-provider-button');
+
+        this.displayApiKeyStorageSettings(containerEl);
+    }
+
+    private displayApiKeyStorageSettings(containerEl: HTMLElement): void {
+        const hasSecretStorage = this.settings.hasSecretStorage();
+        new Setting(containerEl)
+            .setName('API key storage')
+            .setDesc(this.settings.hasPassphrase()
+                ? 'API keys are encrypted with your passphrase in data.json.'
+                : hasSecretStorage
+                ? 'API keys are stored in Obsidian\'s secret storage on this device, not in data.json. Enter them on each device.'
+                : 'Obsidian\'s secret storage needs Obsidian 1.11 or later. Set a passphrase to encrypt API keys in data.json instead of keeping them in plain text.')
+            .setHeading();
+
+        const isLocked = this.settings.isLocked();
+        if (isLocked) {
+            new Setting(containerEl)
+                .setName('Unlock API keys')
+                .setDesc('API keys are encrypted, enter the passphrase to use them until Obsidian is closed')
+                .addButton(button =>
+                    button
+                        .setButtonText('Unlock')
+                        .setCta()
+                        .onClick(() => this.eventHandlers.handleUnlockApiKeysClick())
+                );
+        }
+
+        // A passphrase set on a device without secret storage keeps encrypting the keys, so it can still be changed
+        if (!hasSecretStorage || this.settings.hasPassphrase()) {
+            new Setting(containerEl)
+                .setName('Passphrase')
+                .setDesc(isLocked ? 'Unlock the API keys before changing the passphrase' : 'Encrypts API keys with AES-GCM, the passphrase itself is never stored')
+                .addButton(button =>
+                    button
+                        .setButtonText(this.settings.hasPassphrase() ? 'Change passphrase' : 'Set passphrase')
+                        .setDisabled(isLocked)
+                        .onClick(() => this.eventHandlers.handleSetPassphraseClick())
+                );
+        }
+    }
+
+    private displayFallbackSettings(containerEl: HTMLElement, availableModels: ModelConfig[]): void {
+        new Setting(containerEl)
+            .setName('Fallback models')
+            .setDesc('Tried in order when the active model keeps failing (rate limit, overloaded or unavailable server) or its summary is truncated')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'Add fallback model...');
+                availableModels.forEach(model => {
+                    dropdown.addOption(this.buildModelId(model), `${model.provider.name} / ${model.displayName || model.name}`);
+                });
+                dropdown.onChange(value => {
+                    const modelIds = this.settings.getFallbackModelIds();
+                    if (value && !modelIds.includes(value)) {
+                        this.settings.updateFallbackModelIds([...modelIds, value]);
+                        renderList();
+                    }
+                    dropdown.setValue('');
+                });
+            });
+
+        const listEl = containerEl.createDiv({ cls: 'yt-summarizer-settings__fallback-models' });
+        const renderList = () => {
+            listEl.empty();
+            const modelIds = this.settings.getFallbackModelIds();
+            modelIds.forEach((modelId, index) => {
+                const model = availableModels.find(available => this.buildModelId(available) === modelId);
+                const move = (offset: number) => {
+                    const reordered = [...modelIds];
+                    reordered.splice(index, 1);
+                    reordered.splice(index + offset, 0, modelId);
+                    this.settings.updateFallbackModelIds(reordered);
+                    renderList();
+                };
+
+                const setting = new Setting(listEl)
+                    .setName(`${index + 1}. ${model ? `${model.provider.name} / ${model.displayName || model.name}` : modelId}`)
+                    .setDesc(model ? '' : 'Model not found, it is skipped')
+                    .addExtraButton(button =>
+                        button
+                            .setIcon('arrow-up')
+                            .setTooltip('Move up')
+                            .setDisabled(index === 0)
+                            .onClick(() => move(-1))
+                    )
+                    .addExtraButton(button =>
+                        button
+                            .setIcon('arrow-down')
+                            .setTooltip('Move down')
+                            .setDisabled(index === modelIds.length - 1)
+                            .onClick(() => move(1))
+                    )
+                    .addExtraButton(button =>
+                        button
+                            .setIcon('trash')
+                            .setTooltip('Remove')
+                            .onClick(() => {
+                                this.settings.updateFallbackModelIds(modelIds.filter(id => id !== modelId));
+                                renderList();
+                            })
+                    );
+                if (!model) {
+                    setting.nameEl.addClass('mod-warning');
+                }
+            });
+        };
+        renderList();
+
+        new Setting(containerEl)
+            .setName('Retries')
+            .setDesc('How many times a rate limit, overloaded server or network failure is retried, waiting 1, 2, 4... seconds, before falling back to the next model')
+            .addSlider(slider =>
+                slider
+                    .setLimits(0, 5, 1)
+                    .setValue(this.settings.getMaxRetries())
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        await this.settings.updateMaxRetries(value);
+                    })
+            );
+    }
+
+    private displayCostSettings(containerEl: HTMLElement): void {
+        // Cost and Budget - Heading
+        new Setting(containerEl)
+            .setName('Cost and budget')
+            .setDesc('Estimate the tokens and the cost of a summary from the pricing of the model before sending the transcript. The tokens used and the cost are added to the frontmatter and recorded in the usage ledger.')
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName('Confirm expensive summaries')
+            .setDesc('Ask before summarizing when the estimated cost is above the threshold. Models without pricing, such as Ollama models, are never confirmed.')
+            .addToggle(toggle =>
+                toggle
+                    .setValue(this.settings.getConfirmCost())
+                    .onChange(async (value) => {
+                        await this.settings.updateConfirmCost(value);
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName('Confirmation threshold (USD)')
+            .setDesc('Estimated cost above which a summary is confirmed. Set to 0 to confirm every paid summary.')
+            .addText(text =>
+                text
+                    .setPlaceholder('0.25')
+                    .setValue(String(this.settings.getCostConfirmationThreshold()))
+                    .onChange(async (value) => {
+                        const threshold = Number(value);
+                        if (value.trim() && Number.isFinite(threshold) && threshold >= 0) {
+                            await this.settings.updateCostConfirmationThreshold(threshold);
+                        }
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName('Monthly budget (USD)')
+            .setDesc('Spending limit of the calendar month, from the usage recorded after every request. Set to 0 for no budget.')
+            .addText(text =>
+                text
+                    .setPlaceholder('0')
+                    .setValue(String(this.settings.getMonthlyBudget()))
+                    .onChange(async (value) => {
+                        const budget = Number(value);
+                        if (Number.isFinite(budget) && budget >= 0) {
+                            await this.settings.updateMonthlyBudget(budget);
+                        }
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName('When the budget is spent')
+            .setDesc('Warn before each new summary, or refuse to summarize until the next month')
+            .addDropdown(dropdown =>
+                dropdown
+                    .addOption('warn', 'Warn')
+                    .addOption('block', 'Block')
+                    .setValue(this.settings.getBudgetAction())
+                    .onChange(async (value) => {
+                        await this.settings.updateBudgetAction(value as BudgetAction);
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName('Usage and spending')
+            .setDesc('Tokens and cost of past requests by day, month, provider and model, with a CSV export')
+            .addButton(button =>
+                button
+                    .setButtonText('Show usage')
+                    .onClick(() => this.plugin.showUsage())
+            );
     }
 
     private displaySummarySettingsSection(containerEl: HTMLElement): void {
@@ -184,10 +389,26 @@ export class SettingsTab extends PluginSettingTab {
 
         textareaSetting.settingEl.addClass('yt-summarizer-settings__setting-item-no-header');
 
+        this.displayPromptLibrary(containerEl);
+
+        // Summary Language Setting
+        new Setting(containerEl)
+            .setName('Summary language')
+            .setDesc('Language of generated summaries, independent of the language of the video')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'Same as video');
+                SUMMARY_LANGUAGES.forEach(language => dropdown.addOption(language, language));
+                dropdown
+                    .setValue(this.settings.getSummaryLanguage())
+                    .onChange(async (value) => {
+                        await this.settings.updateSummaryLanguage(value);
+                    });
+            });
+
         // Max Tokens Setting
         new Setting(containerEl)
             .setName('Maximum number of tokens to generate')
-            .setDesc('More tokens allow for longer summaries, but may exceed provider limits')
+            .setDesc('More tokens allow for longer summaries, but may exceed provider limits. Can be overridden per model.')
             .addText(text =>
                 text
                     .setPlaceholder('Enter max tokens')
@@ -214,6 +435,378 @@ export class SettingsTab extends PluginSettingTab {
                         await this.settings.updateTemperature(Number(value));
                     })
             );
+
+        // Frontmatter Setting
+        new Setting(containerEl)
+            .setName('Add video properties')
+            .setDesc('Add video metadata (id, title, channel, duration, publish date, model, prompt...) to the note frontmatter')
+            .addToggle(toggle =>
+                toggle
+                    .setValue(this.settings.getAddFrontmatter())
+                    .onChange(async (value) => {
+                        await this.settings.updateAddFrontmatter(value);
+                    })
+            );
+
+        // Timestamp Links Setting
+        new Setting(containerEl)
+            .setName('Timestamped chapters')
+            .setDesc('Send the transcript with timestamps and add a "Chapters" section with links to the video at each timestamp. Chapters defined by the creator are used when available.')
+            .addToggle(toggle =>
+                toggle
+                    .setValue(this.settings.getTimestampLinks())
+                    .onChange(async (value) => {
+                        await this.settings.updateTimestampLinks(value);
+                    })
+            );
+
+        // Stream Output Setting
+        new Setting(containerEl)
+            .setName('Stream output')
+            .setDesc('Write the summary into the note while it is generated. Turn off for proxies that don\'t support streaming responses.')
+            .addToggle(toggle =>
+                toggle
+                    .setValue(this.settings.getStreamOutput())
+                    .onChange(async (value) => {
+                        await this.settings.updateStreamOutput(value);
+                    })
+            );
+
+        // Concurrent Jobs Setting
+        new Setting(containerEl)
+            .setName('Concurrent jobs')
+            .setDesc('Maximum number of videos processed at the same time, e.g. when summarizing all links in a note')
+            .addSlider(slider =>
+                slider
+                    .setLimits(1, 5, 1)
+                    .setValue(this.settings.getConcurrentJobs())
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        await this.settings.updateConcurrentJobs(value);
+                    })
+            );
+
+        // Caption Settings - Heading
+        new Setting(containerEl)
+            .setName('Captions')
+            .setDesc('Choose which caption track of a video is used as transcript')
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName('Preferred languages')
+            .setDesc('Comma-separated language codes in priority order, e.g. "en, de, es, ja"')
+            .addText(text =>
+                text
+                    .setPlaceholder('en')
+                    .setValue(this.settings.getCaptionLanguages().join(', '))
+                    .onChange(async (value) => {
+                        const languages = value.split(',').map(lang => lang.trim()).filter(lang => lang);
+                        await this.settings.updateCaptionLanguages(languages.length > 0 ? languages : ['en']);
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName('Preferred caption type')
+            .setDesc('Which track to use when a language has both captions uploaded by the creator and auto-generated ones')
+            .addDropdown(dropdown =>
+                dropdown
+                    .addOption('manual', 'Uploaded by the creator')
+                    .addOption('auto', 'Auto-generated')
+                    .setValue(this.settings.getCaptionKind())
+                    .onChange(async (value) => {
+                        await this.settings.updateCaptionKind(value as CaptionKind);
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName('Translate captions')
+            .setDesc('When no preferred language is available, request captions translated by YouTube into the first preferred language')
+            .addToggle(toggle =>
+                toggle
+                    .setValue(this.settings.getTranslateCaptions())
+                    .onChange(async (value) => {
+                        await this.settings.updateTranslateCaptions(value);
+                    })
+            );
+
+        // Transcript Settings
+        new Setting(containerEl)
+            .setName('Append transcript')
+            .setDesc('Add the full transcript of the video after the summary, unless the template places it with {{transcript}}')
+            .addToggle(toggle =>
+                toggle
+                    .setValue(this.settings.getAppendTranscript())
+                    .onChange(async (value) => {
+                        await this.settings.updateAppendTranscript(value);
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName('Transcript format')
+            .setDesc('Format of transcripts added to summaries, inserted with the "Insert youtube transcript" command or used by the {{transcript}} placeholder')
+            .addDropdown(dropdown =>
+                dropdown
+                    .addOption('paragraphs', 'Plain paragraphs')
+                    .addOption('lines', 'One line per caption with timestamp links')
+                    .addOption('callout', 'Collapsible callout')
+                    .setValue(this.settings.getTranscriptFormat())
+                    .onChange(async (value) => {
+                        await this.settings.updateTranscriptFormat(value as TranscriptFormat);
+                    })
+            );
+
+        this.displayTranscriptCacheSettings(containerEl);
+        this.displaySummaryCacheSettings(containerEl);
+
+        this.displayTemplateSettings(containerEl);
+
+        // New Note Settings - Heading
+        new Setting(containerEl)
+            .setName('New notes')
+            .setDesc('Used by the "Summarize youtube video to new note" command')
+            .setHeading();
+
+        // Note Folder Setting
+        new Setting(containerEl)
+            .setName('Folder')
+            .setDesc('Vault folder for new summary notes. Leave empty to use the vault root.')
+            .addText(text =>
+                text
+                    .setPlaceholder('e.g. Sources/YouTube')
+                    .setValue(this.settings.getNoteFolder())
+                    .onChange(async (value) => {
+                        await this.settings.updateNoteFolder(value.trim());
+                    })
+            );
+
+        // Note Filename Pattern Setting
+        new Setting(containerEl)
+            .setName('Filename pattern')
+            .setDesc('Available placeholders: {{title}}, {{author}}, {{videoId}}, {{date}} and {{date:FORMAT}}')
+            .addText(text =>
+                text
+                    .setPlaceholder(DEFAULT_NOTE_FILENAME_PATTERN)
+                    .setValue(this.settings.getNoteFilenamePattern())
+                    .onChange(async (value) => {
+                        await this.settings.updateNoteFilenamePattern(value);
+                    })
+            );
+    }
+
+    private displayTranscriptCacheSettings(containerEl: HTMLElement): void {
+        // Transcript Cache - Heading
+        new Setting(containerEl)
+            .setName('Transcript cache')
+            .setDesc('Keep fetched transcripts in the plugin folder, so summarizing a video again doesn\'t fetch its transcript and works offline')
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName('Cache transcripts')
+            .setDesc('Use the "Summarize youtube video (refetch transcript)" command to bypass the cache for a video')
+            .addToggle(toggle =>
+                toggle
+                    .setValue(this.settings.getCacheTranscripts())
+                    .onChange(async (value) => {
+                        await this.settings.updateCacheTranscripts(value);
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName('Expiration (days)')
+            .setDesc('Number of days a cached transcript is used before it is fetched again. Set to 0 to keep transcripts until the cache is full.')
+            .addText(text =>
+                text
+                    .setPlaceholder('30')
+                    .setValue(String(this.settings.getTranscriptCacheTtlDays()))
+                    .onChange(async (value) => {
+                        const days = Number(value);
+                        if (Number.isFinite(days) && days >= 0) {
+                            await this.settings.updateTranscriptCacheTtlDays(days);
+                        }
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName('Maximum size (MB)')
+            .setDesc('The oldest transcripts are removed when the cache grows beyond this size')
+            .addText(text =>
+                text
+                    .setPlaceholder('50')
+                    .setValue(String(this.settings.getTranscriptCacheMaxSizeMb()))
+                    .onChange(async (value) => {
+                        const size = Number(value);
+                        if (Number.isFinite(size) && size > 0) {
+                            await this.settings.updateTranscriptCacheMaxSizeMb(size);
+                        }
+                    })
+            );
+
+        const cache = this.plugin.getTranscriptCache();
+        const clearSetting = new Setting(containerEl)
+            .setName('Clear cache')
+            .addButton(button =>
+                button
+                    .setButtonText('Clear')
+                    .setWarning()
+                    .onClick(async () => {
+                        try {
+                            await cache.clear();
+                            new Notice('Transcript cache cleared');
+                        } catch (error) {
+                            new Notice(`Failed to clear the transcript cache: ${error.message}`);
+                        }
+                        this.display();
+                    })
+            );
+        cache.getStats()
+            .then(({ count, size }) => {
+                clearSetting.setDesc(`${count} transcript(s), ${(size / (1024 * 1024)).toFixed(1)} MB`);
+            })
+            .catch(error => console.error('Failed to read the transcript cache:', error));
+    }
+
+    private displaySummaryCacheSettings(containerEl: HTMLElement): void {
+        // Summary Cache - Heading
+        new Setting(containerEl)
+            .setName('Summary cache')
+            .setDesc('Reuse the summary when a video is summarized again with the same prompt, model, max tokens and temperature, instead of paying for the tokens again')
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName('Cache summaries')
+            .setDesc('Use the "force regenerate" commands to generate a new summary for a video')
+            .addToggle(toggle =>
+                toggle
+                    .setValue(this.settings.getCacheSummaries())
+                    .onChange(async (value) => {
+                        await this.settings.updateCacheSummaries(value);
+                    })
+            );
+
+        const cache = this.plugin.getResponseCache();
+        const clearSetting = new Setting(containerEl)
+            .setName('Clear cache')
+            .addButton(button =>
+                button
+                    .setButtonText('Clear')
+                    .setWarning()
+                    .onClick(async () => {
+                        try {
+                            await cache.clear();
+                            new Notice('Summary cache cleared');
+                        } catch (error) {
+                            new Notice(`Failed to clear the summary cache: ${error.message}`);
+                        }
+                        this.display();
+                    })
+            );
+        cache.getStats()
+            .then(({ count, size }) => {
+                clearSetting.setDesc(`${count} response(s), ${(size / (1024 * 1024)).toFixed(1)} MB`);
+            })
+            .catch(error => console.error('Failed to read the summary cache:', error));
+    }
+
+    private displayPromptLibrary(containerEl: HTMLElement): void {
+        // Prompt Library - Heading
+        new Setting(containerEl)
+            .setName('Prompt library')
+            .setDesc('Named prompts that can be chosen for a video with the "Summarize youtube video (choose prompt)" command')
+            .setHeading();
+
+        const presetsList = containerEl.createDiv({ cls: 'yt-summarizer-settings__prompt-presets' });
+        this.settings.getPromptPresets().forEach(preset => {
+            presetsList.appendChild(this.uiComponents.createPromptPresetItem(preset, this.eventHandlers));
+        });
+
+        // Add Prompt button
+        const addPromptButton = new Setting(containerEl)
+            .addButton(button =>
+                button
+                    .setButtonText('Add Prompt')
+                    .setCta()
+                    .onClick(() => {
+                        this.eventHandlers.handleAddPromptPresetClick();
+                    })
+            );
+        addPromptButton.settingEl.addClass('yt-summarizer-settings__add-button');
+    }
+
+    private displayTemplateSettings(containerEl: HTMLElement): void {
+        // Note Template Setting - Heading
+        new Setting(containerEl)
+            .setName('Note template')
+            .setDesc(`Layout of the generated output. Available placeholders: ${TemplateService.PLACEHOLDERS.map(key => `{{${key}}}`).join(', ')}, {{date}} and {{date:FORMAT}}`)
+            .setHeading();
+
+        // Note Template Setting - Textarea
+        const templateSetting = new Setting(containerEl)
+            .addTextArea(text =>
+                text
+                    .setPlaceholder(DEFAULT_NOTE_TEMPLATE)
+                    .setValue(this.settings.getNoteTemplate())
+                    .onChange(async (value) => {
+                        await this.settings.updateNoteTemplate(value);
+                        await this.updateTemplatePreview(previewEl, validationEl, value, this.settings.getNoteTemplatePath());
+                    })
+                    .then(textArea => {
+                        textArea.inputEl.addClass('yt-summarizer-settings__note-template');
+                    })
+            );
+        templateSetting.settingEl.addClass('yt-summarizer-settings__setting-item-no-header');
+
+        // Template Note Setting
+        new Setting(containerEl)
+            .setName('Template note')
+            .setDesc('Path of a note in your vault to use as template instead of the text above. Leave empty to use the text above.')
+            .addText(text =>
+                text
+                    .setPlaceholder('e.g. Templates/YouTube summary.md')
+                    .setValue(this.settings.getNoteTemplatePath())
+                    .onChange(async (value) => {
+                        await this.settings.updateNoteTemplatePath(value.trim());
+                        await this.updateTemplatePreview(previewEl, validationEl, this.settings.getNoteTemplate(), value.trim());
+                    })
+            )
+            .addExtraButton(button =>
+                button
+                    .setIcon('reset')
+                    .setTooltip('Restore default template')
+                    .onClick(async () => {
+                        await this.settings.updateNoteTemplate(DEFAULT_NOTE_TEMPLATE);
+                        await this.settings.updateNoteTemplatePath('');
+                        this.display();
+                    })
+            );
+
+        // Template preview rendered against sample data
+        const validationEl = containerEl.createDiv({ cls: 'yt-summarizer-settings__template-validation' });
+        const previewEl = containerEl.createEl('pre', { cls: 'yt-summarizer-settings__template-preview' });
+        this.updateTemplatePreview(previewEl, validationEl, this.settings.getNoteTemplate(), this.settings.getNoteTemplatePath());
+    }
+
+    private async updateTemplatePreview(
+        previewEl: HTMLElement,
+        validationEl: HTMLElement,
+        template: string,
+        templatePath: string
+    ): Promise<void> {
+        validationEl.empty();
+
+        let templateText: string;
+        try {
+            templateText = await new TemplateService(this.app, template, templatePath).loadTemplate();
+        } catch (error) {
+            validationEl.setText(error.message);
+            previewEl.setText('');
+            return;
+        }
+
+        const unknown = TemplateService.findUnknownPlaceholders(templateText);
+        if (unknown.length > 0) {
+            validationEl.setText(`Unknown placeholders: ${unknown.map(key => `{{${key}}}`).join(', ')}`);
+        }
+        previewEl.setText(TemplateService.render(templateText, TemplateService.getSampleData()));
     }
 
     private displaySponsorSection(containerEl: HTMLElement): void {